@@ -5,10 +5,38 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { useCreateRoom } from '@/hooks/use-create-room';
-import { Play, Users } from 'lucide-react';
+import { savedRoomsStorage, SavedRoom } from '@/lib/saved-rooms';
+import { Play, Users, Bookmark, X } from 'lucide-react';
+import Link from 'next/link';
+import { useEffect, useState } from 'react';
 
 export default function CreateRoomPage() {
-  const { hostName, setHostName, isLoading, error, isConnected, isInitialized, handleCreateRoom } = useCreateRoom();
+  const {
+    hostName,
+    setHostName,
+    isPersistent,
+    setIsPersistent,
+    slug,
+    setSlug,
+    password,
+    setPassword,
+    isLoading,
+    error,
+    isConnected,
+    isInitialized,
+    handleCreateRoom,
+  } = useCreateRoom();
+  const [savedRooms, setSavedRooms] = useState<SavedRoom[]>([]);
+
+  // Saved rooms live in localStorage, so only read them once we're in the browser
+  useEffect(() => {
+    setSavedRooms(savedRoomsStorage.getRooms());
+  }, []);
+
+  const forgetRoom = (roomId: string) => {
+    savedRoomsStorage.removeRoom(roomId);
+    setSavedRooms(savedRoomsStorage.getRooms());
+  };
 
   return (
     <div className="mx-auto mt-16 max-w-md">
@@ -35,6 +63,52 @@ export default function CreateRoomPage() {
               />
             </div>
 
+            <div className="space-y-2">
+              <Label htmlFor="slug">Room Name (optional)</Label>
+              <Input
+                id="slug"
+                placeholder="movie-night"
+                value={slug}
+                onChange={e => setSlug(e.target.value.toLowerCase().replace(/[^a-z0-9-]/g, ''))}
+                disabled={isLoading}
+                maxLength={32}
+                className="font-mono"
+              />
+              <p className="text-xs text-muted-foreground">
+                Pick a memorable link like /room/movie-night, or leave blank for a random code
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="password">Password (optional)</Label>
+              <Input
+                id="password"
+                type="password"
+                placeholder="Leave blank for an open room"
+                value={password}
+                onChange={e => setPassword(e.target.value)}
+                disabled={isLoading}
+                maxLength={100}
+                autoComplete="new-password"
+              />
+            </div>
+
+            <label className="flex cursor-pointer items-start space-x-2 text-sm">
+              <input
+                type="checkbox"
+                checked={isPersistent}
+                onChange={e => setIsPersistent(e.target.checked)}
+                disabled={isLoading}
+                className="mt-0.5 h-4 w-4 accent-primary"
+              />
+              <span>
+                <span className="font-medium">Keep this room</span>
+                <span className="block text-xs text-muted-foreground">
+                  The link keeps working after everyone leaves, along with the video, queue and chat
+                </span>
+              </span>
+            </label>
+
             {error && <div className="rounded-md bg-destructive/10 p-3 text-sm text-destructive">{error}</div>}
 
             <div className="space-y-3">
@@ -60,6 +134,35 @@ export default function CreateRoomPage() {
             </div>
           </form>
 
+          {savedRooms.length > 0 && (
+            <div className="mt-6 space-y-2 border-t border-border pt-6">
+              <div className="flex items-center space-x-2 text-sm font-medium">
+                <Bookmark className="h-4 w-4" />
+                <span>Your saved rooms</span>
+              </div>
+              {savedRooms.map(savedRoom => (
+                <div key={savedRoom.roomId} className="flex items-center space-x-2 rounded-md bg-muted p-2">
+                  <div className="min-w-0 flex-1">
+                    <div className="truncate font-mono text-sm">{savedRoom.roomId}</div>
+                    <div className="truncate text-xs text-muted-foreground">Hosted as {savedRoom.hostName}</div>
+                  </div>
+                  <Button asChild size="sm" variant="outline" className="h-7 text-xs">
+                    <Link href={`/room/${savedRoom.roomId}`}>Open</Link>
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => forgetRoom(savedRoom.roomId)}
+                    className="h-7 w-7 p-0"
+                    title="Forget this room"
+                  >
+                    <X className="h-3 w-3" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+
           <div className="mt-6 border-t border-border pt-6">
             <div className="space-y-2 text-center">
               <p className="text-sm text-muted-foreground">As the host, you&apos;ll be able to:</p>
@@ -6,7 +6,7 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { useJoinRoom } from '@/hooks/use-join-room';
-import { Users, Hash } from 'lucide-react';
+import { Users, Hash, Lock } from 'lucide-react';
 
 export default function JoinRoomPage() {
   const router = useRouter();
@@ -14,6 +14,10 @@ export default function JoinRoomPage() {
     roomId,
     userName,
     setUserName,
+    password,
+    setPassword,
+    needsPassword,
+    isWaitingInLobby,
     isLoading,
     error,
     isConnected,
@@ -41,15 +45,15 @@ export default function JoinRoomPage() {
                 <Hash className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 transform text-muted-foreground" />
                 <Input
                   id="roomId"
-                  placeholder="ABC123"
+                  placeholder="ABC123 or movie-night"
                   value={roomId}
                   onChange={handleRoomIdChange}
                   disabled={isLoading}
                   className="pl-10 text-center font-mono text-lg tracking-widest"
-                  maxLength={6}
+                  maxLength={32}
                 />
               </div>
-              <p className="text-xs text-muted-foreground">6-character room code (letters and numbers)</p>
+              <p className="text-xs text-muted-foreground">6-character room code or the room&apos;s name</p>
             </div>
 
             <div className="space-y-2">
@@ -64,6 +68,26 @@ export default function JoinRoomPage() {
               />
             </div>
 
+            {needsPassword && (
+              <div className="space-y-2">
+                <Label htmlFor="password">Room Password</Label>
+                <div className="relative">
+                  <Lock className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 transform text-muted-foreground" />
+                  <Input
+                    id="password"
+                    type="password"
+                    placeholder="Enter the room password"
+                    value={password}
+                    onChange={e => setPassword(e.target.value)}
+                    disabled={isLoading}
+                    maxLength={100}
+                    className="pl-10"
+                    autoFocus
+                  />
+                </div>
+              </div>
+            )}
+
             {error && <div className="rounded-md bg-destructive/10 p-3 text-sm text-destructive">{error}</div>}
 
             <div className="space-y-3">
@@ -71,7 +95,7 @@ export default function JoinRoomPage() {
                 {isLoading ? (
                   <>
                     <div className="mr-2 h-4 w-4 animate-spin rounded-full border-b-2 border-current" />
-                    Joining Room...
+                    {isWaitingInLobby ? 'Waiting for a host to let you in...' : 'Joining Room...'}
                   </>
                 ) : (
                   <>
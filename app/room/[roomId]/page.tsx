@@ -14,17 +14,38 @@ import { VideoSetup } from '@/components/video/video-setup';
 import { Chat, ChatOverlay } from '@/components/chat';
 import { UserList } from '@/components/room/user-list';
 import { RoomHeader } from '@/components/room/room-header';
-import { ErrorDisplay, LoadingDisplay, SyncError, GuestInfoBanner } from '@/components/room/room-status';
+import {
+  ErrorDisplay,
+  LoadingDisplay,
+  SyncError,
+  GuestInfoBanner,
+  BufferingBanner,
+} from '@/components/room/room-status';
 import { VideoPlayerContainer } from '@/components/room/video-player-container';
 import { HostControlDialog } from '@/components/room/host-control-dialog';
+import { VideoQueue } from '@/components/room/video-queue';
+import { VideoSuggestions } from '@/components/room/video-suggestions';
+import { PlaybackControlPanel } from '@/components/room/playback-control-panel';
+import { LobbyPanel } from '@/components/room/lobby-panel';
+import { HostSuccessionPanel } from '@/components/room/host-succession-panel';
 import { useFullscreenChatOverlay } from '@/hooks/use-fullscreen-chat-overlay';
-import { parseVideoUrl } from '@/lib/video-utils';
+import { normalizeRoomId, parseVideoUrl } from '@/lib/video-utils';
 import { useVoiceChat } from '@/hooks/use-voice-chat';
+import { useVideoQueue } from '@/hooks/use-video-queue';
+import { useVideoSuggestions } from '@/hooks/use-video-suggestions';
+import { usePlaybackVotes } from '@/hooks/use-playback-votes';
+import { useBufferingWait } from '@/hooks/use-buffering-wait';
+import { useSyncHealth } from '@/hooks/use-sync-health';
+import { useLobby } from '@/hooks/use-lobby';
+import { useRoomBans } from '@/hooks/use-room-bans';
+import { useHostSuccession } from '@/hooks/use-host-succession';
+import { canControlPlayback, hasPermission, isHost } from '@/lib/permissions';
+import { toast } from 'sonner';
 
 export default function RoomPage() {
   const params = useParams();
   const router = useRouter();
-  const roomId = params.roomId as string;
+  const roomId = normalizeRoomId(params.roomId as string);
   const { socket } = useSocket();
 
   // Player refs
@@ -40,14 +61,22 @@ export default function RoomPage() {
     typingUsers,
     error,
     syncError,
+    isWaitingInLobby,
     showGuestInfoBanner,
     showHostDialog,
     showCopied,
+    shouldRestoreVoice,
     setShowGuestInfoBanner,
+    setShouldRestoreVoice,
     setShowHostDialog,
     handlePromoteUser,
+    handleSetUserRole,
+    handleDemoteUser,
+    handleTransferOwnership,
     handleKickUser,
+    handleSetRoomPassword,
     handleSendMessage,
+    handleDeleteMessage,
     handleTypingStart,
     handleTypingStop,
     markMessagesAsRead,
@@ -97,9 +126,12 @@ export default function RoomPage() {
     syncVideo,
     startSyncCheck,
     stopSyncCheck,
+    applyPlaybackRate,
+    handleSetPlaybackRate,
     handleVideoPlay,
     handleVideoPause,
     handleVideoSeek,
+    handleVideoEnded,
     handleYouTubeStateChange,
     handleSetVideo,
   } = useVideoSync({
@@ -111,16 +143,68 @@ export default function RoomPage() {
     hlsPlayerRef,
   });
 
+  // Video queue actions
+  const { handleEnqueueVideo, handleRemoveQueueItem, handleMoveQueueItem, handleSkipVideo } = useVideoQueue({
+    roomId,
+    currentUser,
+  });
+
+  // Guest suggestions and host review
+  const { handleSuggestVideo, handleAcceptSuggestion, handleRejectSuggestion } = useVideoSuggestions({
+    roomId,
+    currentUser,
+  });
+
+  // Room control mode and playback votes
+  const { activeVotes, handleCastVote, handleSetControlMode } = usePlaybackVotes({ roomId, currentUser });
+  const { handleBufferingChange, handleSetWaitForBuffering } = useBufferingWait({ roomId, currentUser });
+  const { syncHealth, handleForceResync } = useSyncHealth({ roomId, currentUser });
+  const { lobbyRequests, handleSetLobbyEnabled, handleRespondToLobbyRequest } = useLobby({ roomId, currentUser });
+  const { bans, handleUnbanUser } = useRoomBans({ roomId, currentUser });
+  const { handleSetHostSuccession, handleCastHostVote } = useHostSuccession({ roomId, currentUser });
+  const canControl = !!room && canControlPlayback(room, currentUser);
+  const canManageRoom = isHost(currentUser);
+  const canSetVideo = hasPermission(currentUser, 'set-video');
+  const canUseVoice = hasPermission(currentUser, 'use-voice');
+
   // Voice chat hook (must be before any early returns)
   const voice = useVoiceChat({ roomId, currentUser });
+
+  // Pick the call back up if we were in it before a refresh or dropped connection
+  useEffect(() => {
+    if (!shouldRestoreVoice || !currentUser) return;
+    setShouldRestoreVoice(false);
+
+    const restoreVoice = async () => {
+      // Peers from the old connection are stale, so start the call over
+      if (voice.isEnabled) await voice.disable();
+      await voice.enable();
+    };
+    restoreVoice();
+  }, [shouldRestoreVoice, currentUser, voice, setShouldRestoreVoice]);
+
+  // A role change can take voice away mid-call
+  useEffect(() => {
+    if (!canUseVoice && voice.isEnabled) {
+      voice.disable();
+    }
+  }, [canUseVoice, voice]);
   const overCap = (room?.users.length ?? 0) > 5;
 
   // Handle video control attempts by guests
   const handleVideoControlAttempt = () => {
-    if (!currentUser?.isHost) {
-      setShowHostDialog(true);
+    if (canControl) return;
+
+    if (room?.controlMode === 'vote') {
+      toast.info('This room votes on playback', {
+        description: 'Use the Playback Control panel to start or join a vote.',
+      });
       setShowGuestInfoBanner(false);
+      return;
     }
+
+    setShowHostDialog(true);
+    setShowGuestInfoBanner(false);
   };
 
   // Use fullscreen chat overlay hook
@@ -130,7 +214,7 @@ export default function RoomPage() {
   // Use keyboard shortcuts hook
   useKeyboardShortcuts({
     hasVideo: !!room?.videoUrl,
-    isHost: currentUser?.isHost || false,
+    isHost: canControl,
     onControlAttempt: handleVideoControlAttempt,
   });
 
@@ -159,7 +243,7 @@ export default function RoomPage() {
       isPlaying: boolean;
       timestamp: number;
     }) => {
-      if (currentUser?.isHost) {
+      if (hasPermission(currentUser, 'control-playback')) {
         // Hosts don't sync to sync-updates to avoid conflicts
         return;
       }
@@ -167,33 +251,63 @@ export default function RoomPage() {
       syncVideo(currentTime, isPlaying, timestamp);
     };
 
+    const handlePlaybackRateUpdated = ({
+      playbackRate,
+      currentTime,
+      timestamp,
+    }: {
+      playbackRate: number;
+      currentTime: number;
+      timestamp: number;
+    }) => {
+      console.log(`⏩ Playback speed changed to ${playbackRate}x`);
+      applyPlaybackRate(playbackRate, currentTime, timestamp);
+    };
+
+    const handleResyncRequested = ({
+      currentTime,
+      isPlaying,
+      timestamp,
+    }: {
+      currentTime: number;
+      isPlaying: boolean;
+      timestamp: number;
+    }) => {
+      console.log('📡 Host requested a resync');
+      syncVideo(currentTime, isPlaying, timestamp, true);
+    };
+
     socket.on('video-played', handleVideoPlayed);
     socket.on('video-paused', handleVideoPaused);
     socket.on('video-seeked', handleVideoSeeked);
     socket.on('sync-update', handleSyncUpdate);
+    socket.on('resync-requested', handleResyncRequested);
+    socket.on('playback-rate-updated', handlePlaybackRateUpdated);
 
     return () => {
       socket.off('video-played', handleVideoPlayed);
       socket.off('video-paused', handleVideoPaused);
       socket.off('video-seeked', handleVideoSeeked);
       socket.off('sync-update', handleSyncUpdate);
+      socket.off('resync-requested', handleResyncRequested);
+      socket.off('playback-rate-updated', handlePlaybackRateUpdated);
     };
-  }, [socket, syncVideo, currentUser?.isHost]);
+  }, [socket, syncVideo, applyPlaybackRate, currentUser]);
 
   // Start/stop sync check based on host status
   useEffect(() => {
-    if (currentUser?.isHost && room?.videoUrl) {
-      console.log('🎯 Starting sync check - user is host');
+    if (currentUser && room?.videoUrl) {
+      console.log('🎯 Starting sync check');
       startSyncCheck();
     } else {
-      console.log('🛑 Stopping sync check - user is not host or no video');
+      console.log('🛑 Stopping sync check - no video');
       stopSyncCheck();
     }
 
     return () => {
       stopSyncCheck();
     };
-  }, [currentUser?.isHost, room?.videoUrl, startSyncCheck, stopSyncCheck]);
+  }, [currentUser, room?.videoUrl, startSyncCheck, stopSyncCheck]);
 
   // Handle errors
   if (error) {
@@ -202,32 +316,54 @@ export default function RoomPage() {
 
   // Handle loading state
   if (!room || !currentUser) {
-    return <LoadingDisplay roomId={roomId} />;
+    return <LoadingDisplay roomId={roomId} isWaitingInLobby={isWaitingInLobby} />;
   }
 
   const parsedVideo = room?.videoUrl ? parseVideoUrl(room.videoUrl) : null;
 
+  // Viewers only watch, so they don't get the voice controls at all
+  const voiceConfig = canUseVoice
+    ? {
+        isEnabled: voice.isEnabled,
+        isMuted: voice.isMuted,
+        isConnecting: voice.isConnecting,
+        participantCount: voice.activePeerIds.length + (voice.isEnabled ? 1 : 0),
+        overCap,
+        onEnable: voice.enable,
+        onDisable: voice.disable,
+        onToggleMute: voice.toggleMute,
+      }
+    : undefined;
+
   return (
     <div className="space-y-6">
       {/* Room Header */}
       <RoomHeader
         roomId={roomId}
         hostName={room.hostName}
-        hostCount={room.users.filter(u => u.isHost).length}
-        isHost={currentUser.isHost}
+        hostCount={room.users.filter(isHost).length}
+        isHost={canManageRoom}
+        isPersistent={room.isPersistent}
+        hasPassword={room.hasPassword}
         showCopied={showCopied}
         onCopyRoomId={copyRoomId}
         onShareRoom={shareRoom}
+        onSetPassword={handleSetRoomPassword}
       />
 
       {/* Sync Error */}
       {syncError && <SyncError error={syncError} />}
 
       {/* Guest Info Banner */}
-      {showGuestInfoBanner && !currentUser.isHost && room.videoUrl && (
+      {showGuestInfoBanner && !canControl && room.videoUrl && (
         <GuestInfoBanner onLearnMore={() => setShowHostDialog(true)} onDismiss={() => setShowGuestInfoBanner(false)} />
       )}
 
+      {/* Buffering Banner */}
+      {room.waitForBuffering && room.bufferingUserIds.length > 0 && (
+        <BufferingBanner userNames={room.users.filter(u => room.bufferingUserIds.includes(u.id)).map(u => u.name)} />
+      )}
+
       <div className="grid gap-6 lg:grid-cols-4">
         {/* Main Content */}
         <div className="space-y-6 lg:col-span-3">
@@ -237,17 +373,19 @@ export default function RoomPage() {
               videoUrl={room.videoUrl}
               videoType={room.videoType}
               videoId={parsedVideo.embedUrl.split('/embed/')[1]?.split('?')[0]}
-              isHost={currentUser.isHost}
+              isHost={canControl}
               onPlay={handleVideoPlay}
               onPause={handleVideoPause}
               onSeeked={handleVideoSeek}
+              onEnded={handleVideoEnded}
+              onBufferingChange={handleBufferingChange}
               onYouTubeStateChange={handleYouTubeStateChange}
               onControlAttempt={handleVideoControlAttempt}
-              onVideoChange={handleSetVideo}
+              onVideoChange={canSetVideo ? handleSetVideo : undefined}
               onShowChatOverlay={showChatOverlayManually}
               subtitleTracks={subtitleTracks}
               activeSubtitleTrack={activeSubtitleTrack}
-              onAddSubtitleTracks={addSubtitleTracks}
+              onAddSubtitleTracks={hasPermission(currentUser, 'upload-subtitles') ? addSubtitleTracks : undefined}
               onRemoveSubtitleTrack={removeSubtitleTrack}
               onActiveSubtitleTrackChange={setActiveSubtitleTrack}
               currentVideoTitle={undefined}
@@ -258,21 +396,82 @@ export default function RoomPage() {
           ) : (
             <VideoSetup
               onVideoSet={handleSetVideo}
-              isHost={currentUser.isHost}
+              isHost={canSetVideo}
               hasVideo={!!room.videoUrl}
               videoUrl={room.videoUrl}
             />
           )}
+
+          {/* Playback Control */}
+          <PlaybackControlPanel
+            controlMode={room.controlMode}
+            voteSettings={room.voteSettings}
+            isHost={canManageRoom}
+            currentUserId={currentUser.id}
+            activeVotes={activeVotes}
+            hasVideo={!!room.videoUrl}
+            hasQueue={room.queue.length > 0}
+            waitForBuffering={room.waitForBuffering}
+            playbackRate={room.videoState.playbackRate}
+            onSetControlMode={handleSetControlMode}
+            onCastVote={handleCastVote}
+            onSetWaitForBuffering={handleSetWaitForBuffering}
+            onSetPlaybackRate={handleSetPlaybackRate}
+          />
+
+          {/* Video Queue */}
+          <VideoQueue
+            queue={room.queue}
+            isHost={canSetVideo}
+            onEnqueue={handleEnqueueVideo}
+            onRemove={handleRemoveQueueItem}
+            onMove={handleMoveQueueItem}
+            onSkip={handleSkipVideo}
+          />
         </div>
 
         {/* Sidebar */}
         <div className="space-y-6">
+          <LobbyPanel
+            lobbyEnabled={room.lobbyEnabled}
+            requests={lobbyRequests}
+            isHost={canManageRoom}
+            onSetLobbyEnabled={handleSetLobbyEnabled}
+            onRespond={handleRespondToLobbyRequest}
+          />
+
+          <HostSuccessionPanel
+            hostSuccession={room.hostSuccession}
+            designatedSuccessorId={room.designatedSuccessorId}
+            hostElection={room.hostElection}
+            users={room.users}
+            currentUserId={currentUser.id}
+            isHost={canManageRoom}
+            onSetHostSuccession={handleSetHostSuccession}
+            onCastHostVote={handleCastHostVote}
+          />
+
+          <VideoSuggestions
+            suggestions={room.suggestions}
+            currentUserId={currentUser.id}
+            isHost={canSetVideo}
+            onSuggest={handleSuggestVideo}
+            onAccept={handleAcceptSuggestion}
+            onReject={handleRejectSuggestion}
+          />
+
           <UserList
             users={room.users}
             currentUserId={currentUser.id}
-            currentUserIsHost={currentUser.isHost}
             onPromoteUser={handlePromoteUser}
+            onSetUserRole={handleSetUserRole}
+            onDemoteUser={handleDemoteUser}
+            onTransferOwnership={handleTransferOwnership}
             onKickUser={handleKickUser}
+            bans={bans}
+            onUnbanUser={handleUnbanUser}
+            syncHealth={syncHealth}
+            onForceResync={handleForceResync}
             speakingUserIds={voice.speakingUserIds}
           />
 
@@ -281,19 +480,11 @@ export default function RoomPage() {
             messages={messages}
             currentUserId={currentUser.id}
             onSendMessage={handleSendMessage}
+            onDeleteMessage={hasPermission(currentUser, 'manage-chat') ? handleDeleteMessage : undefined}
             onTypingStart={handleTypingStart}
             onTypingStop={handleTypingStop}
             typingUsers={typingUsers}
-            voice={{
-              isEnabled: voice.isEnabled,
-              isMuted: voice.isMuted,
-              isConnecting: voice.isConnecting,
-              participantCount: voice.activePeerIds.length + (voice.isEnabled ? 1 : 0),
-              overCap,
-              onEnable: voice.enable,
-              onDisable: voice.disable,
-              onToggleMute: voice.toggleMute,
-            }}
+            voice={voiceConfig}
           />
         </div>
       </div>
@@ -313,16 +504,7 @@ export default function RoomPage() {
         onToggleMinimize={toggleChatMinimize}
         onClose={closeChatOverlay}
         onMarkMessagesAsRead={markMessagesAsRead}
-        voice={{
-          isEnabled: voice.isEnabled,
-          isMuted: voice.isMuted,
-          isConnecting: voice.isConnecting,
-          participantCount: voice.activePeerIds.length + (voice.isEnabled ? 1 : 0),
-          overCap,
-          onEnable: voice.enable,
-          onDisable: voice.disable,
-          onToggleMute: voice.toggleMute,
-        }}
+        voice={voiceConfig}
       />
     </div>
   );
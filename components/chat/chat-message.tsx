@@ -1,15 +1,18 @@
 'use client';
 
 import { Avatar, AvatarFallback } from '@/components/ui/avatar';
+import { Button } from '@/components/ui/button';
+import { Trash2 } from 'lucide-react';
 import { ChatMessage } from '@/types';
 
 interface ChatMessageItemProps {
   message: ChatMessage;
   currentUserId: string;
   mode?: 'sidebar' | 'overlay';
+  onDelete?: (messageId: string) => void;
 }
 
-export function ChatMessageItem({ message, currentUserId, mode = 'sidebar' }: ChatMessageItemProps) {
+export function ChatMessageItem({ message, currentUserId, mode = 'sidebar', onDelete }: ChatMessageItemProps) {
   const getInitials = (name: string) => {
     return name
       .split(' ')
@@ -41,6 +44,17 @@ export function ChatMessageItem({ message, currentUserId, mode = 'sidebar' }: Ch
         <div className={`flex items-center ${isOwnMessage && 'flex-row-reverse gap-2'} space-x-2`}>
           <span className={`${textSize} font-medium`}>{!isOwnMessage ? message.userName : 'you!'}</span>
           <span className="text-xs text-muted-foreground">{formatMessageTime(message.timestamp)}</span>
+          {onDelete && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => onDelete(message.id)}
+              className="h-5 w-5 p-0 text-muted-foreground hover:text-destructive"
+              title="Delete message for everyone"
+            >
+              <Trash2 className="h-3 w-3" />
+            </Button>
+          )}
         </div>
 
         <div
@@ -31,6 +31,8 @@ export interface ChatProps {
   typingUsers?: TypingUser[];
   className?: string;
   voice?: VoiceConfig;
+  // Only passed to those allowed to moderate the chat
+  onDeleteMessage?: (messageId: string) => void;
   // Mode props
   mode?: 'sidebar' | 'overlay';
   unreadCount?: number;
@@ -47,6 +49,7 @@ export function Chat({
   typingUsers = [],
   className,
   voice,
+  onDeleteMessage,
   mode = 'sidebar',
   unreadCount = 0,
   onToggleMinimize,
@@ -189,7 +192,13 @@ export function Chat({
                 <EmptyState />
               ) : (
                 messages.map(message => (
-                  <ChatMessageItem key={message.id} message={message} currentUserId={currentUserId} mode="sidebar" />
+                  <ChatMessageItem
+                    key={message.id}
+                    message={message}
+                    currentUserId={currentUserId}
+                    mode="sidebar"
+                    onDelete={onDeleteMessage}
+                  />
                 ))
               )}
 
@@ -232,7 +241,13 @@ export function Chat({
           </div>
         ) : (
           messages.map(message => (
-            <ChatMessageItem key={message.id} message={message} currentUserId={currentUserId} mode="overlay" />
+            <ChatMessageItem
+              key={message.id}
+              message={message}
+              currentUserId={currentUserId}
+              mode="overlay"
+              onDelete={onDeleteMessage}
+            />
           ))
         )}
 
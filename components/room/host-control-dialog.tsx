@@ -53,6 +53,7 @@ export function HostControlDialog({ open, onOpenChange }: HostControlDialogProps
                 <li>• Watch videos in perfect sync</li>
                 <li>• Chat with other viewers</li>
                 <li>• See who&apos;s watching</li>
+                <li>• Suggest videos for the host to play</li>
                 <li>• Request host promotion</li>
               </ul>
             </div>
@@ -65,6 +66,7 @@ export function HostControlDialog({ open, onOpenChange }: HostControlDialogProps
               <ul className="mt-2 space-y-1 text-xs text-green-700 dark:text-green-300 sm:text-sm">
                 <li>• Control video playback</li>
                 <li>• Set or change video URL</li>
+                <li>• Accept or reject video suggestions</li>
                 <li>• Promote other users to host</li>
                 <li>• All guest permissions</li>
               </ul>
@@ -73,7 +75,8 @@ export function HostControlDialog({ open, onOpenChange }: HostControlDialogProps
             <div className="rounded-lg bg-amber-50 p-3 dark:bg-amber-950 sm:p-4">
               <h4 className="text-sm font-medium text-amber-900 dark:text-amber-100 sm:text-base">Need Controls?</h4>
               <p className="mt-1 text-xs text-amber-700 dark:text-amber-300 sm:text-sm">
-                Ask any host to promote you using the crown button (👑) next to your name.
+                Ask any host to promote you using the crown button (👑) next to your name, or use Suggest a Video to
+                send them something to watch.
               </p>
             </div>
           </div>
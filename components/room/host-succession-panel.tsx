@@ -0,0 +1,153 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Crown, DoorClosed, Clock, UserCheck, Vote } from 'lucide-react';
+import { HostElection, HostSuccession, User } from '@/types';
+import { hasPermission } from '@/lib/permissions';
+
+interface HostSuccessionPanelProps {
+  hostSuccession: HostSuccession;
+  designatedSuccessorId?: string;
+  hostElection: HostElection | null;
+  users: User[];
+  currentUserId: string;
+  isHost: boolean;
+  onSetHostSuccession: (hostSuccession: HostSuccession, designatedSuccessorId?: string) => void;
+  onCastHostVote: (candidateId: string) => void;
+  className?: string;
+}
+
+const SUCCESSION_LABELS: Record<HostSuccession, string> = {
+  close: 'Close the room',
+  'longest-present': 'Longest-present guest',
+  designated: 'Chosen guest',
+  vote: 'Guests vote',
+};
+
+export function HostSuccessionPanel({
+  hostSuccession,
+  designatedSuccessorId,
+  hostElection,
+  users,
+  currentUserId,
+  isHost,
+  onSetHostSuccession,
+  onCastHostVote,
+  className,
+}: HostSuccessionPanelProps) {
+  const [now, setNow] = useState(() => Date.now());
+
+  // Keep the countdown moving while a vote is running
+  useEffect(() => {
+    if (!hostElection) return;
+
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [hostElection]);
+
+  const guests = users.filter(u => !hasPermission(u, 'manage-room'));
+  const candidates = guests.filter(u => !u.awayUntil);
+
+  if (!hostElection && !isHost) {
+    return null;
+  }
+
+  const getVoteCount = (userId: string) =>
+    hostElection ? Object.values(hostElection.votes).filter(candidateId => candidateId === userId).length : 0;
+
+  return (
+    <Card className={className}>
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center space-x-2">
+          <Crown className="h-5 w-5" />
+          <span>{hostElection ? 'Pick a New Host' : 'When Hosts Leave'}</span>
+          {hostElection && (
+            <Badge variant="secondary" className="ml-auto">
+              {Math.max(0, Math.ceil((hostElection.endsAt - now) / 1000))}s
+            </Badge>
+          )}
+        </CardTitle>
+      </CardHeader>
+
+      <CardContent className="space-y-3">
+        {hostElection ? (
+          <>
+            <p className="text-xs text-muted-foreground">
+              Every host has left. Ties and unanswered votes go to whoever has been here longest.
+            </p>
+            {candidates.map(candidate => {
+              const votedFor = hostElection.votes[currentUserId] === candidate.id;
+              return (
+                <div key={candidate.id} className="flex items-center space-x-2 rounded-lg bg-muted p-2">
+                  <span className="min-w-0 flex-1 truncate text-sm font-medium">
+                    {candidate.name}
+                    {candidate.id === currentUserId && <span className="ml-1 text-muted-foreground">(You)</span>}
+                  </span>
+                  <Badge variant="outline">{getVoteCount(candidate.id)}</Badge>
+                  <Button
+                    size="sm"
+                    variant={votedFor ? 'default' : 'outline'}
+                    onClick={() => onCastHostVote(candidate.id)}
+                    disabled={votedFor}
+                    className="h-6 px-2 text-xs"
+                  >
+                    <Vote className="mr-1 h-3 w-3" />
+                    {votedFor ? 'Voted' : 'Vote'}
+                  </Button>
+                </div>
+              );
+            })}
+          </>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 gap-2">
+              {(['close', 'longest-present', 'designated', 'vote'] as const).map(policy => (
+                <Button
+                  key={policy}
+                  size="sm"
+                  variant={hostSuccession === policy ? 'default' : 'outline'}
+                  onClick={() =>
+                    onSetHostSuccession(policy, policy === 'designated' ? designatedSuccessorId : undefined)
+                  }
+                  className="h-7 text-xs"
+                >
+                  {policy === 'close' && <DoorClosed className="mr-1 h-3 w-3" />}
+                  {policy === 'longest-present' && <Clock className="mr-1 h-3 w-3" />}
+                  {policy === 'designated' && <UserCheck className="mr-1 h-3 w-3" />}
+                  {policy === 'vote' && <Vote className="mr-1 h-3 w-3" />}
+                  {SUCCESSION_LABELS[policy]}
+                </Button>
+              ))}
+            </div>
+
+            {hostSuccession === 'designated' && (
+              <div className="space-y-2">
+                <div className="text-xs text-muted-foreground">
+                  Takes over if every host leaves, otherwise the longest-present guest does
+                </div>
+                {guests.length === 0 && (
+                  <p className="text-center text-sm text-muted-foreground">No guests to choose from yet</p>
+                )}
+                {guests.map(guest => (
+                  <Button
+                    key={guest.id}
+                    size="sm"
+                    variant={designatedSuccessorId === guest.id ? 'default' : 'outline'}
+                    onClick={() => onSetHostSuccession('designated', guest.id)}
+                    className="h-7 w-full justify-start text-xs"
+                  >
+                    <UserCheck className="mr-1 h-3 w-3" />
+                    <span className="truncate">{guest.name}</span>
+                  </Button>
+                ))}
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
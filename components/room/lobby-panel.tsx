@@ -0,0 +1,83 @@
+'use client';
+
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { DoorOpen, Check, X } from 'lucide-react';
+import { LobbyRequest } from '@/types';
+
+interface LobbyPanelProps {
+  lobbyEnabled: boolean;
+  requests: LobbyRequest[];
+  isHost: boolean;
+  onSetLobbyEnabled: (enabled: boolean) => void;
+  onRespond: (requestId: string, approve: boolean) => void;
+  className?: string;
+}
+
+export function LobbyPanel({
+  lobbyEnabled,
+  requests,
+  isHost,
+  onSetLobbyEnabled,
+  onRespond,
+  className,
+}: LobbyPanelProps) {
+  if (!isHost) return null;
+
+  return (
+    <Card className={className}>
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center space-x-2">
+          <DoorOpen className="h-5 w-5" />
+          <span>Lobby</span>
+          {requests.length > 0 && (
+            <Badge variant="default" className="ml-auto">
+              {requests.length}
+            </Badge>
+          )}
+        </CardTitle>
+      </CardHeader>
+
+      <CardContent className="space-y-3">
+        <Button
+          size="sm"
+          variant={lobbyEnabled ? 'default' : 'outline'}
+          onClick={() => onSetLobbyEnabled(!lobbyEnabled)}
+          className="h-7 w-full text-xs"
+          title="New guests wait here until a host lets them in"
+        >
+          {lobbyEnabled ? 'Guests must be let in' : 'Anyone with the link can join'}
+        </Button>
+
+        {lobbyEnabled && requests.length === 0 && (
+          <p className="text-center text-sm text-muted-foreground">Nobody is waiting right now</p>
+        )}
+
+        {requests.map(request => (
+          <div key={request.id} className="flex items-center space-x-2 rounded-lg bg-muted p-2">
+            <span className="min-w-0 flex-1 truncate text-sm font-medium">{request.userName}</span>
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => onRespond(request.id, true)}
+              className="h-6 px-2 text-xs"
+            >
+              <Check className="mr-1 h-3 w-3" />
+              Admit
+            </Button>
+            <Button
+              size="sm"
+              variant="ghost"
+              onClick={() => onRespond(request.id, false)}
+              className="h-6 w-6 p-0"
+              title="Deny"
+            >
+              <X className="h-3 w-3" />
+            </Button>
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,287 @@
+'use client';
+
+import { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Vote, Pause, SkipForward, FastForward, Crown, Users, Hourglass } from 'lucide-react';
+import { ControlMode, PlaybackVote, VoteAction, VoteSettings } from '@/types';
+
+interface PlaybackControlPanelProps {
+  controlMode: ControlMode;
+  voteSettings: VoteSettings;
+  isHost: boolean;
+  currentUserId: string;
+  activeVotes: PlaybackVote[];
+  hasVideo: boolean;
+  hasQueue: boolean;
+  waitForBuffering: boolean;
+  playbackRate: number;
+  onSetControlMode: (controlMode: ControlMode, voteSettings?: VoteSettings) => void;
+  onCastVote: (action: VoteAction, targetTime?: number) => void;
+  onSetWaitForBuffering: (enabled: boolean) => void;
+  onSetPlaybackRate: (playbackRate: number) => void;
+  className?: string;
+}
+
+const MODE_LABELS: Record<ControlMode, string> = {
+  host: 'Hosts only',
+  everyone: 'Everyone',
+  vote: 'Vote',
+};
+
+const THRESHOLD_OPTIONS = [0.25, 0.5, 0.75, 1];
+const WINDOW_OPTIONS = [15, 30, 60];
+const PLAYBACK_RATE_OPTIONS = [0.75, 1, 1.25, 1.5, 2];
+
+export function PlaybackControlPanel({
+  controlMode,
+  voteSettings,
+  isHost,
+  currentUserId,
+  activeVotes,
+  hasVideo,
+  hasQueue,
+  waitForBuffering,
+  playbackRate,
+  onSetControlMode,
+  onCastVote,
+  onSetWaitForBuffering,
+  onSetPlaybackRate,
+  className,
+}: PlaybackControlPanelProps) {
+  const [seekInput, setSeekInput] = useState('');
+  const [seekError, setSeekError] = useState('');
+
+  const formatTime = (time: number) => {
+    const minutes = Math.floor(time / 60);
+    const seconds = Math.floor(time % 60);
+    return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+  };
+
+  // Accepts "90", "1:30" or "1:01:30"
+  const parseTime = (value: string): number | null => {
+    const parts = value.trim().split(':');
+    if (parts.length === 0 || parts.length > 3 || parts.some(part => !/^\d+$/.test(part))) return null;
+    return parts.reduce((total, part) => total * 60 + parseInt(part, 10), 0);
+  };
+
+  const handleSeekVote = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const targetTime = parseTime(seekInput);
+    if (targetTime === null) {
+      setSeekError('Enter a time like 1:30');
+      return;
+    }
+
+    onCastVote('seek', targetTime);
+    setSeekInput('');
+    setSeekError('');
+  };
+
+  const getVoteLabel = (vote: PlaybackVote) => {
+    switch (vote.action) {
+      case 'pause':
+        return 'Pause the video';
+      case 'skip':
+        return 'Skip to the next video';
+      case 'seek':
+        return `Seek to ${formatTime(vote.targetTime ?? 0)}`;
+    }
+  };
+
+  // Guests in a host-controlled room have nothing to do here
+  if (!isHost && controlMode === 'host') {
+    return null;
+  }
+
+  return (
+    <Card className={className}>
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center space-x-2">
+          <Vote className="h-5 w-5" />
+          <span>Playback Control</span>
+          <Badge variant="secondary" className="ml-auto">
+            {MODE_LABELS[controlMode]}
+          </Badge>
+        </CardTitle>
+      </CardHeader>
+
+      <CardContent className="space-y-4">
+        {isHost && (
+          <div className="space-y-2">
+            <div className="text-xs font-medium text-muted-foreground">Who can control playback</div>
+            <div className="grid grid-cols-3 gap-2">
+              {(['host', 'everyone', 'vote'] as const).map(mode => (
+                <Button
+                  key={mode}
+                  size="sm"
+                  variant={controlMode === mode ? 'default' : 'outline'}
+                  onClick={() => onSetControlMode(mode)}
+                  className="h-7 text-xs"
+                >
+                  {mode === 'host' && <Crown className="mr-1 h-3 w-3" />}
+                  {mode === 'everyone' && <Users className="mr-1 h-3 w-3" />}
+                  {mode === 'vote' && <Vote className="mr-1 h-3 w-3" />}
+                  {MODE_LABELS[mode]}
+                </Button>
+              ))}
+            </div>
+
+            {controlMode === 'vote' && (
+              <div className="space-y-2">
+                <div className="text-xs text-muted-foreground">Share of the room needed</div>
+                <div className="grid grid-cols-4 gap-2">
+                  {THRESHOLD_OPTIONS.map(threshold => (
+                    <Button
+                      key={threshold}
+                      size="sm"
+                      variant={voteSettings.threshold === threshold ? 'default' : 'outline'}
+                      onClick={() => onSetControlMode('vote', { ...voteSettings, threshold })}
+                      className="h-6 text-xs"
+                    >
+                      {Math.round(threshold * 100)}%
+                    </Button>
+                  ))}
+                </div>
+                <div className="text-xs text-muted-foreground">Voting window</div>
+                <div className="grid grid-cols-3 gap-2">
+                  {WINDOW_OPTIONS.map(windowSeconds => (
+                    <Button
+                      key={windowSeconds}
+                      size="sm"
+                      variant={voteSettings.windowSeconds === windowSeconds ? 'default' : 'outline'}
+                      onClick={() => onSetControlMode('vote', { ...voteSettings, windowSeconds })}
+                      className="h-6 text-xs"
+                    >
+                      {windowSeconds}s
+                    </Button>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            <div className="text-xs font-medium text-muted-foreground">Playback speed</div>
+            <div className="grid grid-cols-5 gap-2">
+              {PLAYBACK_RATE_OPTIONS.map(rate => (
+                <Button
+                  key={rate}
+                  size="sm"
+                  variant={playbackRate === rate ? 'default' : 'outline'}
+                  onClick={() => onSetPlaybackRate(rate)}
+                  disabled={!hasVideo}
+                  className="h-6 px-0 text-xs"
+                >
+                  {rate}x
+                </Button>
+              ))}
+            </div>
+
+            <Button
+              size="sm"
+              variant={waitForBuffering ? 'default' : 'outline'}
+              onClick={() => onSetWaitForBuffering(!waitForBuffering)}
+              className="h-7 w-full text-xs"
+              title="Pause for everyone while someone is buffering"
+            >
+              <Hourglass className="mr-1 h-3 w-3" />
+              {waitForBuffering ? 'Waiting for everyone to buffer' : 'Wait for everyone to buffer'}
+            </Button>
+          </div>
+        )}
+
+        {!isHost && controlMode === 'everyone' && (
+          <p className="text-sm text-muted-foreground">Everyone in this room can play, pause and seek the video.</p>
+        )}
+
+        {controlMode === 'vote' && (
+          <div className="space-y-3">
+            {activeVotes.map(vote => {
+              const hasVoted = vote.voterIds.includes(currentUserId);
+              return (
+                <div key={vote.id} className="space-y-2 rounded-lg bg-muted p-2">
+                  <div className="flex items-center justify-between">
+                    <span className="text-sm font-medium">{getVoteLabel(vote)}</span>
+                    <Badge variant="outline">
+                      {vote.voterIds.length}/{vote.required}
+                    </Badge>
+                  </div>
+                  <div className="h-1.5 overflow-hidden rounded-full bg-background">
+                    <div
+                      className="h-full bg-primary transition-all"
+                      style={{ width: `${Math.min(100, (vote.voterIds.length / vote.required) * 100)}%` }}
+                    />
+                  </div>
+                  <div className="flex items-center justify-between">
+                    <span className="text-xs text-muted-foreground">Started by {vote.startedByName}</span>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => onCastVote(vote.action, vote.targetTime)}
+                      disabled={hasVoted}
+                      className="h-6 px-2 text-xs"
+                    >
+                      {hasVoted ? 'Voted' : 'Vote'}
+                    </Button>
+                  </div>
+                </div>
+              );
+            })}
+
+            {hasVideo && (
+              <>
+                <div className="grid grid-cols-2 gap-2">
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => onCastVote('pause')}
+                    disabled={activeVotes.some(v => v.action === 'pause')}
+                    className="h-7 text-xs"
+                  >
+                    <Pause className="mr-1 h-3 w-3" />
+                    Vote to pause
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => onCastVote('skip')}
+                    disabled={!hasQueue || activeVotes.some(v => v.action === 'skip')}
+                    className="h-7 text-xs"
+                  >
+                    <SkipForward className="mr-1 h-3 w-3" />
+                    Vote to skip
+                  </Button>
+                </div>
+
+                <form onSubmit={handleSeekVote} className="space-y-2">
+                  <div className="flex space-x-2">
+                    <Input
+                      placeholder="Seek to (e.g. 1:30)"
+                      value={seekInput}
+                      onChange={e => setSeekInput(e.target.value)}
+                      disabled={activeVotes.some(v => v.action === 'seek')}
+                      className="h-8 text-xs"
+                    />
+                    <Button
+                      type="submit"
+                      size="sm"
+                      variant="outline"
+                      disabled={activeVotes.some(v => v.action === 'seek')}
+                      className="h-8 px-2 text-xs"
+                    >
+                      <FastForward className="mr-1 h-3 w-3" />
+                      Vote
+                    </Button>
+                  </div>
+                  {seekError && <div className="text-xs text-destructive">{seekError}</div>}
+                </form>
+              </>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -3,16 +3,19 @@
 import { Card, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
-import { Users, Copy, Share2, Check } from 'lucide-react';
+import { Users, Copy, Share2, Check, Lock, LockOpen } from 'lucide-react';
 
 interface RoomHeaderProps {
   roomId: string;
   hostName: string;
   hostCount: number;
   isHost: boolean;
+  isPersistent: boolean;
+  hasPassword: boolean;
   showCopied: boolean;
   onCopyRoomId: () => void;
   onShareRoom: () => void;
+  onSetPassword: () => void;
 }
 
 export function RoomHeader({
@@ -20,9 +23,12 @@ export function RoomHeader({
   hostName,
   hostCount,
   isHost,
+  isPersistent,
+  hasPassword,
   showCopied,
   onCopyRoomId,
   onShareRoom,
+  onSetPassword,
 }: RoomHeaderProps) {
   return (
     <Card>
@@ -33,6 +39,8 @@ export function RoomHeader({
               <Users className="h-5 w-5 flex-shrink-0" />
               <span className="break-all sm:break-normal">Room {roomId}</span>
               {isHost && <Badge variant="default">Host</Badge>}
+              {isPersistent && <Badge variant="secondary">Saved</Badge>}
+              {hasPassword && <Lock className="h-4 w-4 text-muted-foreground" aria-label="Password protected" />}
             </CardTitle>
             <p className="text-sm text-muted-foreground">
               Created by {hostName} • {hostCount} host{hostCount !== 1 ? 's' : ''}
@@ -40,6 +48,12 @@ export function RoomHeader({
           </div>
 
           <div className="flex flex-col gap-2 sm:flex-row">
+            {isHost && (
+              <Button variant="outline" size="sm" onClick={onSetPassword}>
+                {hasPassword ? <Lock className="mr-2 h-4 w-4" /> : <LockOpen className="mr-2 h-4 w-4" />}
+                {hasPassword ? 'Change Password' : 'Set Password'}
+              </Button>
+            )}
             <Button variant="outline" size="sm" onClick={onCopyRoomId} className="relative overflow-hidden">
               {showCopied ? <Check className="mr-2 h-4 w-4" /> : <Copy className="mr-2 h-4 w-4" />}
               {showCopied ? 'Copied!' : 'Copy ID'}
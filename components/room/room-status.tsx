@@ -2,7 +2,7 @@
 
 import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { AlertCircle, Video } from 'lucide-react';
+import { AlertCircle, Video, Loader2 } from 'lucide-react';
 
 interface ErrorDisplayProps {
   error: string;
@@ -26,16 +26,21 @@ export function ErrorDisplay({ error, onRetry }: ErrorDisplayProps) {
 
 interface LoadingDisplayProps {
   roomId: string;
+  isWaitingInLobby?: boolean;
 }
 
-export function LoadingDisplay({ roomId }: LoadingDisplayProps) {
+export function LoadingDisplay({ roomId, isWaitingInLobby = false }: LoadingDisplayProps) {
   return (
     <div className="mx-auto mt-16 max-w-md">
       <Card>
         <CardContent className="flex flex-col items-center space-y-4 p-6 text-center">
           <div className="h-8 w-8 animate-spin rounded-full border-b-2 border-primary" />
-          <h2 className="text-xl font-semibold">Joining Room</h2>
-          <p className="text-muted-foreground">Connecting to room {roomId}...</p>
+          <h2 className="text-xl font-semibold">{isWaitingInLobby ? 'Waiting to Be Let In' : 'Joining Room'}</h2>
+          <p className="text-muted-foreground">
+            {isWaitingInLobby
+              ? `A host of room ${roomId} will let you in shortly...`
+              : `Connecting to room ${roomId}...`}
+          </p>
         </CardContent>
       </Card>
     </div>
@@ -98,3 +103,25 @@ export function GuestInfoBanner({ onLearnMore, onDismiss }: GuestInfoBannerProps
     </Card>
   );
 }
+
+interface BufferingBannerProps {
+  userNames: string[];
+}
+
+export function BufferingBanner({ userNames }: BufferingBannerProps) {
+  const names =
+    userNames.length > 2
+      ? `${userNames.slice(0, 2).join(', ')} and ${userNames.length - 2} more`
+      : userNames.join(' and ');
+
+  return (
+    <Card className="border-amber-200 bg-amber-50 dark:border-amber-800 dark:bg-amber-950">
+      <CardContent>
+        <div className="flex items-center space-x-2 text-amber-700 dark:text-amber-300">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          <span className="text-sm font-medium">Waiting for {names} to finish buffering</span>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -4,25 +4,62 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Avatar, AvatarFallback } from '@/components/ui/avatar';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
-import { Users, Crown, User, UserX } from 'lucide-react';
-import { User as UserType } from '@/types';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Users, Crown, User, UserX, UserMinus, RefreshCw, Clock, Ban, Shield, KeyRound } from 'lucide-react';
+import { User as UserType, SyncHealth, SyncStatus, RoomBan, KickOptions, AssignableRole } from '@/types';
+import {
+  ASSIGNABLE_ROLES,
+  ROLE_LABELS,
+  canAssignRole,
+  compareByRole,
+  hasPermission,
+  isHost,
+  outranks,
+} from '@/lib/permissions';
 
 interface UserListProps {
   users: UserType[];
   currentUserId: string;
-  currentUserIsHost?: boolean;
   onPromoteUser?: (userId: string) => void;
-  onKickUser?: (userId: string) => void;
+  onSetUserRole?: (userId: string, role: AssignableRole) => void;
+  onDemoteUser?: (userId: string) => void;
+  onTransferOwnership?: (userId: string) => void;
+  onKickUser?: (userId: string, options?: KickOptions) => void;
+  bans?: RoomBan[];
+  onUnbanUser?: (banId: string) => void;
+  syncHealth?: Record<string, SyncHealth>;
+  onForceResync?: (userId: string) => void;
   className?: string;
   speakingUserIds?: Set<string>;
 }
 
+const KICK_COOLDOWN_MINUTES = 10;
+
+const SYNC_STATUS_STYLES: Record<SyncStatus, { label: string; className: string }> = {
+  'in-sync': { label: 'In sync', className: 'text-green-600 dark:text-green-400' },
+  drifting: { label: 'Drifting', className: 'text-yellow-600 dark:text-yellow-400' },
+  buffering: { label: 'Buffering', className: 'text-blue-600 dark:text-blue-400' },
+  stalled: { label: 'Stalled', className: 'text-destructive' },
+};
+
 export function UserList({
   users,
   currentUserId,
-  currentUserIsHost,
   onPromoteUser,
+  onSetUserRole,
+  onDemoteUser,
+  onTransferOwnership,
   onKickUser,
+  bans = [],
+  onUnbanUser,
+  syncHealth = {},
+  onForceResync,
   className,
   speakingUserIds,
 }: UserListProps) {
@@ -40,12 +77,25 @@ export function UserList({
       .slice(0, 2);
   };
 
+  const formatBanExpiry = (ban: RoomBan) => {
+    if (ban.expiresAt === null) return 'Permanent';
+    const minutesLeft = Math.max(1, Math.ceil((ban.expiresAt - Date.now()) / 60000));
+    return `${minutesLeft} min left`;
+  };
+
+  const currentUser = users.find(u => u.id === currentUserId);
+  const canKick = hasPermission(currentUser, 'kick');
+  const canResync = hasPermission(currentUser, 'control-playback');
+
+  // Roles this user could hand the other one, leaving out the one they already have
+  const getAssignableRoles = (user: UserType) =>
+    currentUser ? ASSIGNABLE_ROLES.filter(role => role !== user.role && canAssignRole(currentUser, user, role)) : [];
+
+  const canTransferTo = (user: UserType) => currentUser?.role === 'owner' && user.id !== currentUser.id;
+
   const sortedUsers = [...users].sort((a, b) => {
-    // Host first, then alphabetical
-    if (a.isHost !== b.isHost) {
-      return a.isHost ? -1 : 1;
-    }
-    return a.name.localeCompare(b.name);
+    // Highest role first, then alphabetical
+    return compareByRole(a, b) || a.name.localeCompare(b.name);
   });
 
   return (
@@ -81,43 +131,127 @@ export function UserList({
                     {user.name}
                     {user.id === currentUserId && <span className="ml-1 text-muted-foreground">(You)</span>}
                   </span>
-                  {user.isHost && <Crown className="h-3 w-3 flex-shrink-0 text-yellow-500" />}
+                  {isHost(user) && <Crown className="h-3 w-3 flex-shrink-0 text-yellow-500" />}
                 </div>
 
                 <div className="mt-1 flex items-center space-x-1">
                   <User className="h-3 w-3 text-muted-foreground" />
-                  <span className="text-xs text-muted-foreground">{user.isHost ? 'Host' : 'Guest'}</span>
+                  <span className="text-xs text-muted-foreground">{ROLE_LABELS[user.role]}</span>
+                  {user.awayUntil && <span className="text-xs text-muted-foreground">· Away</span>}
+                  {syncHealth[user.id] && (
+                    <span
+                      className={`text-xs ${SYNC_STATUS_STYLES[syncHealth[user.id].status].className}`}
+                      title={`${syncHealth[user.id].drift >= 0 ? 'Behind' : 'Ahead'} by ${Math.abs(syncHealth[user.id].drift).toFixed(1)}s, ${syncHealth[user.id].bufferedAhead.toFixed(0)}s buffered`}
+                    >
+                      · {SYNC_STATUS_STYLES[syncHealth[user.id].status].label}
+                    </span>
+                  )}
                 </div>
               </div>
 
               <div className="flex items-center space-x-2">
-                {/* Promote button for hosts to promote guests */}
-                {currentUserIsHost && !user.isHost && user.id !== currentUserId && onPromoteUser && (
+                {/* Resync button for hosts and moderators to snap a user back to the room clock */}
+                {canResync && user.id !== currentUserId && syncHealth[user.id] && onForceResync && (
                   <Button
                     size="sm"
                     variant="outline"
-                    onClick={() => onPromoteUser(user.id)}
+                    onClick={() => onForceResync(user.id)}
                     className="h-6 px-2 text-xs"
-                    title={`Promote ${user.name} to host`}
+                    title={`Resync ${user.name}`}
                   >
-                    <Crown className="h-3 w-3" />
+                    <RefreshCw className="h-3 w-3" />
                   </Button>
                 )}
 
-                {/* Kick button for hosts to kick guests */}
-                {currentUserIsHost && !user.isHost && user.id !== currentUserId && onKickUser && (
+                {/* Promote button for hosts to promote guests */}
+                {currentUser && !isHost(user) && canAssignRole(currentUser, user, 'host') && onPromoteUser && (
                   <Button
                     size="sm"
-                    variant="destructive"
-                    onClick={() => onKickUser(user.id)}
+                    variant="outline"
+                    onClick={() => onPromoteUser(user.id)}
                     className="h-6 px-2 text-xs"
-                    title={`Kick ${user.name} from room`}
+                    title={`Promote ${user.name} to host`}
                   >
-                    <UserX className="h-3 w-3" />
+                    <Crown className="h-3 w-3" />
                   </Button>
                 )}
 
-                <div className="h-2 w-2 rounded-full bg-green-500" title="Online" />
+                {/* Role menu for hosts to hand out roles below their own, and for the owner to hand over the room */}
+                {(getAssignableRoles(user).length > 0 || canTransferTo(user)) && onSetUserRole && (
+                  <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        className="h-6 px-2 text-xs"
+                        title={`Change ${user.name}'s role`}
+                      >
+                        <Shield className="h-3 w-3" />
+                      </Button>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent align="end">
+                      {getAssignableRoles(user).map(role =>
+                        // Taking host away has its own event, so everyone is told it was a demotion
+                        user.role === 'host' && role === 'member' && onDemoteUser ? (
+                          <DropdownMenuItem key={role} onClick={() => onDemoteUser(user.id)}>
+                            <UserMinus className="h-4 w-4" />
+                            Demote to member
+                          </DropdownMenuItem>
+                        ) : (
+                          <DropdownMenuItem key={role} onClick={() => onSetUserRole(user.id, role)}>
+                            Make {ROLE_LABELS[role].toLowerCase()}
+                          </DropdownMenuItem>
+                        )
+                      )}
+                      {canTransferTo(user) && onTransferOwnership && (
+                        <>
+                          <DropdownMenuSeparator />
+                          <DropdownMenuItem onClick={() => onTransferOwnership(user.id)}>
+                            <KeyRound className="h-4 w-4" />
+                            Transfer ownership
+                          </DropdownMenuItem>
+                        </>
+                      )}
+                    </DropdownMenuContent>
+                  </DropdownMenu>
+                )}
+
+                {/* Kick menu for hosts and moderators to kick or ban anyone below them */}
+                {canKick && currentUser && outranks(currentUser, user) && onKickUser && (
+                  <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                      <Button
+                        size="sm"
+                        variant="destructive"
+                        className="h-6 px-2 text-xs"
+                        title={`Remove ${user.name} from room`}
+                      >
+                        <UserX className="h-3 w-3" />
+                      </Button>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent align="end">
+                      <DropdownMenuItem onClick={() => onKickUser(user.id)}>
+                        <UserX className="h-4 w-4" />
+                        Kick
+                      </DropdownMenuItem>
+                      <DropdownMenuItem onClick={() => onKickUser(user.id, { cooldownMinutes: KICK_COOLDOWN_MINUTES })}>
+                        <Clock className="h-4 w-4" />
+                        Kick for {KICK_COOLDOWN_MINUTES} minutes
+                      </DropdownMenuItem>
+                      <DropdownMenuSeparator />
+                      <DropdownMenuItem variant="destructive" onClick={() => onKickUser(user.id, { ban: true })}>
+                        <Ban className="h-4 w-4" />
+                        Ban
+                      </DropdownMenuItem>
+                    </DropdownMenuContent>
+                  </DropdownMenu>
+                )}
+
+                {user.awayUntil ? (
+                  <div className="h-2 w-2 rounded-full bg-muted-foreground" title="Away, reconnecting" />
+                ) : (
+                  <div className="h-2 w-2 rounded-full bg-green-500" title="Online" />
+                )}
               </div>
             </div>
           ))}
@@ -129,6 +263,35 @@ export function UserList({
             </div>
           )}
         </div>
+
+        {/* Ban list, only ever sent to those who can kick */}
+        {canKick && bans.length > 0 && (
+          <div className="mt-4 space-y-2 border-t pt-4">
+            <div className="text-xs font-medium text-muted-foreground">Banned</div>
+            {bans.map(ban => (
+              <div key={ban.id} className="flex items-center space-x-3 rounded-lg bg-muted p-2">
+                <Ban className="h-4 w-4 flex-shrink-0 text-destructive" />
+                <div className="min-w-0 flex-1">
+                  <div className="truncate text-sm font-medium">{ban.userName}</div>
+                  <div className="text-xs text-muted-foreground">
+                    {formatBanExpiry(ban)} · by {ban.bannedByName}
+                  </div>
+                </div>
+                {onUnbanUser && (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => onUnbanUser(ban.id)}
+                    className="h-6 px-2 text-xs"
+                    title={`Unban ${ban.userName}`}
+                  >
+                    Unban
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
       </CardContent>
     </Card>
   );
@@ -30,6 +30,8 @@ interface VideoPlayerContainerProps {
   onPlay: () => void;
   onPause: () => void;
   onSeeked: () => void;
+  onEnded?: () => void;
+  onBufferingChange?: (isBuffering: boolean) => void;
   onYouTubeStateChange: (state: number) => void;
   onControlAttempt: () => void;
   onVideoChange?: (url: string) => void;
@@ -53,6 +55,8 @@ export function VideoPlayerContainer({
   onPlay,
   onPause,
   onSeeked,
+  onEnded,
+  onBufferingChange,
   onYouTubeStateChange,
   onControlAttempt,
   onVideoChange,
@@ -231,6 +235,7 @@ export function VideoPlayerContainer({
             ref={youtubePlayerRef}
             videoId={videoId || ''}
             onStateChange={onYouTubeStateChange}
+            onBufferingChange={onBufferingChange}
             className="h-full w-full"
           />
         );
@@ -242,6 +247,8 @@ export function VideoPlayerContainer({
             onPlay={onPlay}
             onPause={onPause}
             onSeeked={onSeeked}
+            onEnded={onEnded}
+            onBufferingChange={onBufferingChange}
             isHost={isHost}
             className="h-full w-full"
           />
@@ -254,6 +261,8 @@ export function VideoPlayerContainer({
             onPlay={onPlay}
             onPause={onPause}
             onSeeked={onSeeked}
+            onEnded={onEnded}
+            onBufferingChange={onBufferingChange}
             isHost={isHost}
             subtitleTracks={subtitleTracks}
             activeSubtitleTrack={activeSubtitleTrack}
@@ -0,0 +1,153 @@
+'use client';
+
+import { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { ListVideo, ArrowUp, ArrowDown, X, SkipForward, Plus, Youtube, FileVideo, Video } from 'lucide-react';
+import { parseVideoUrl } from '@/lib/video-utils';
+import { QueueItem } from '@/types';
+
+interface VideoQueueProps {
+  queue: QueueItem[];
+  isHost: boolean;
+  onEnqueue: (videoUrl: string) => void;
+  onRemove: (itemId: string) => void;
+  onMove: (itemId: string, toIndex: number) => void;
+  onSkip: () => void;
+  className?: string;
+}
+
+export function VideoQueue({ queue, isHost, onEnqueue, onRemove, onMove, onSkip, className }: VideoQueueProps) {
+  const [url, setUrl] = useState('');
+  const [error, setError] = useState('');
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!url.trim()) {
+      setError('Please enter a video URL');
+      return;
+    }
+
+    const parsed = parseVideoUrl(url.trim());
+    if (!parsed) {
+      setError('Please enter a valid YouTube, MP4, or M3U8 video URL');
+      return;
+    }
+
+    onEnqueue(url.trim());
+    setUrl('');
+    setError('');
+  };
+
+  const getVideoIcon = (videoType: QueueItem['videoType']) => {
+    switch (videoType) {
+      case 'youtube':
+        return <Youtube className="h-4 w-4 flex-shrink-0 text-red-500" />;
+      case 'm3u8':
+        return <Video className="h-4 w-4 flex-shrink-0 text-green-500" />;
+      default:
+        return <FileVideo className="h-4 w-4 flex-shrink-0 text-blue-500" />;
+    }
+  };
+
+  // Guests only need to see the queue once something is in it
+  if (!isHost && queue.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card className={className}>
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center space-x-2">
+          <ListVideo className="h-5 w-5" />
+          <span>Up Next</span>
+          <Badge variant="secondary" className="ml-auto">
+            {queue.length}
+          </Badge>
+          {isHost && (
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={onSkip}
+              disabled={queue.length === 0}
+              className="h-7 px-2 text-xs"
+              title="Skip to the next video"
+            >
+              <SkipForward className="mr-1 h-3 w-3" />
+              Skip
+            </Button>
+          )}
+        </CardTitle>
+      </CardHeader>
+
+      <CardContent className="space-y-3">
+        {queue.map((item, index) => (
+          <div key={item.id} className="flex items-center space-x-3 rounded-lg bg-muted p-2">
+            <span className="w-5 text-center text-xs text-muted-foreground">{index + 1}</span>
+            {getVideoIcon(item.videoType)}
+            <div className="min-w-0 flex-1">
+              <div className="truncate text-sm">{item.videoUrl}</div>
+              <div className="text-xs text-muted-foreground">Added by {item.addedByName}</div>
+            </div>
+
+            {isHost && (
+              <div className="flex items-center space-x-1">
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => onMove(item.id, index - 1)}
+                  disabled={index === 0}
+                  className="h-6 w-6 p-0"
+                  title="Move up"
+                >
+                  <ArrowUp className="h-3 w-3" />
+                </Button>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => onMove(item.id, index + 1)}
+                  disabled={index === queue.length - 1}
+                  className="h-6 w-6 p-0"
+                  title="Move down"
+                >
+                  <ArrowDown className="h-3 w-3" />
+                </Button>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => onRemove(item.id)}
+                  className="h-6 w-6 p-0"
+                  title="Remove from queue"
+                >
+                  <X className="h-3 w-3" />
+                </Button>
+              </div>
+            )}
+          </div>
+        ))}
+
+        {queue.length === 0 && (
+          <p className="py-2 text-center text-sm text-muted-foreground">
+            The queue is empty. Videos added here play automatically when the current one ends.
+          </p>
+        )}
+
+        {isHost && (
+          <form onSubmit={handleSubmit} className="space-y-2">
+            <div className="flex space-x-2">
+              <Input placeholder="Add a YouTube, MP4, or M3U8 URL" value={url} onChange={e => setUrl(e.target.value)} />
+              <Button type="submit" size="sm" className="h-9">
+                <Plus className="h-4 w-4" />
+              </Button>
+            </div>
+
+            {error && <div className="rounded-md bg-destructive/10 p-3 text-sm text-destructive">{error}</div>}
+          </form>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
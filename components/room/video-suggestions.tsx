@@ -0,0 +1,191 @@
+'use client';
+
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Inbox, Lightbulb, Play, ListPlus, X, Send } from 'lucide-react';
+import { parseVideoUrl } from '@/lib/video-utils';
+import { VideoSuggestion } from '@/types';
+
+interface VideoSuggestionsProps {
+  suggestions: VideoSuggestion[];
+  currentUserId: string;
+  isHost: boolean;
+  onSuggest: (videoUrl: string) => void;
+  onAccept: (suggestionId: string, mode: 'play' | 'queue') => void;
+  onReject: (suggestionId: string, reason?: string) => void;
+  className?: string;
+}
+
+export function VideoSuggestions({
+  suggestions,
+  currentUserId,
+  isHost,
+  onSuggest,
+  onAccept,
+  onReject,
+  className,
+}: VideoSuggestionsProps) {
+  const [url, setUrl] = useState('');
+  const [error, setError] = useState('');
+  const [rejectingId, setRejectingId] = useState<string | null>(null);
+  const [rejectReason, setRejectReason] = useState('');
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!url.trim()) {
+      setError('Please enter a video URL');
+      return;
+    }
+
+    const parsed = parseVideoUrl(url.trim());
+    if (!parsed) {
+      setError('Please enter a valid YouTube, MP4, or M3U8 video URL');
+      return;
+    }
+
+    onSuggest(url.trim());
+    setUrl('');
+    setError('');
+  };
+
+  const handleConfirmReject = (suggestionId: string) => {
+    onReject(suggestionId, rejectReason);
+    setRejectingId(null);
+    setRejectReason('');
+  };
+
+  if (isHost) {
+    // Hosts only see the inbox when there is something to review
+    if (suggestions.length === 0) return null;
+
+    return (
+      <Card className={className}>
+        <CardHeader className="pb-3">
+          <CardTitle className="flex items-center space-x-2">
+            <Inbox className="h-5 w-5" />
+            <span>Suggestions</span>
+            <Badge variant="default" className="ml-auto">
+              {suggestions.length}
+            </Badge>
+          </CardTitle>
+        </CardHeader>
+
+        <CardContent className="space-y-3">
+          {suggestions.map(suggestion => (
+            <div key={suggestion.id} className="space-y-2 rounded-lg bg-muted p-2">
+              <div className="min-w-0">
+                <div className="truncate text-sm">{suggestion.videoUrl}</div>
+                <div className="text-xs text-muted-foreground">Suggested by {suggestion.suggestedByName}</div>
+              </div>
+
+              {rejectingId === suggestion.id ? (
+                <div className="flex space-x-2">
+                  <Input
+                    placeholder="Reason (optional)"
+                    value={rejectReason}
+                    onChange={e => setRejectReason(e.target.value)}
+                    maxLength={200}
+                    className="h-8 text-xs"
+                  />
+                  <Button
+                    size="sm"
+                    variant="destructive"
+                    onClick={() => handleConfirmReject(suggestion.id)}
+                    className="h-8 px-2 text-xs"
+                  >
+                    Reject
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => {
+                      setRejectingId(null);
+                      setRejectReason('');
+                    }}
+                    className="h-8 px-2 text-xs"
+                  >
+                    Cancel
+                  </Button>
+                </div>
+              ) : (
+                <div className="flex items-center space-x-2">
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => onAccept(suggestion.id, 'play')}
+                    className="h-6 px-2 text-xs"
+                    title="Play this video now"
+                  >
+                    <Play className="mr-1 h-3 w-3" />
+                    Play now
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => onAccept(suggestion.id, 'queue')}
+                    className="h-6 px-2 text-xs"
+                    title="Add this video to the queue"
+                  >
+                    <ListPlus className="mr-1 h-3 w-3" />
+                    Queue
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => setRejectingId(suggestion.id)}
+                    className="ml-auto h-6 w-6 p-0"
+                    title="Reject suggestion"
+                  >
+                    <X className="h-3 w-3" />
+                  </Button>
+                </div>
+              )}
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const ownSuggestions = suggestions.filter(s => s.suggestedBy === currentUserId);
+
+  return (
+    <Card className={className}>
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center space-x-2">
+          <Lightbulb className="h-5 w-5" />
+          <span>Suggest a Video</span>
+        </CardTitle>
+        <CardDescription>Send a video to the host. They can play it right away or add it to the queue.</CardDescription>
+      </CardHeader>
+
+      <CardContent className="space-y-3">
+        <form onSubmit={handleSubmit} className="space-y-2">
+          <div className="flex space-x-2">
+            <Input placeholder="YouTube, MP4, or M3U8 URL" value={url} onChange={e => setUrl(e.target.value)} />
+            <Button type="submit" size="sm" className="h-9" title="Send suggestion">
+              <Send className="h-4 w-4" />
+            </Button>
+          </div>
+
+          {error && <div className="rounded-md bg-destructive/10 p-3 text-sm text-destructive">{error}</div>}
+        </form>
+
+        {ownSuggestions.length > 0 && (
+          <div className="space-y-2">
+            <div className="text-xs font-medium text-muted-foreground">Waiting for the host</div>
+            {ownSuggestions.map(suggestion => (
+              <div key={suggestion.id} className="truncate rounded-lg bg-muted p-2 text-sm">
+                {suggestion.videoUrl}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -9,6 +9,8 @@ export interface HLSPlayerRef {
   seekTo: (time: number) => void;
   isPaused: () => boolean;
   getDuration: () => number;
+  setPlaybackRate: (rate: number) => void;
+  getBufferedAhead: () => number;
   getVideoElement: () => HTMLVideoElement | null;
 }
 
@@ -17,6 +19,8 @@ interface HLSPlayerProps {
   onPlay?: () => void;
   onPause?: () => void;
   onSeeked?: () => void;
+  onEnded?: () => void;
+  onBufferingChange?: (isBuffering: boolean) => void;
   onLoadedMetadata?: () => void;
   onTimeUpdate?: () => void;
   className?: string;
@@ -24,7 +28,21 @@ interface HLSPlayerProps {
 }
 
 const HLSPlayer = forwardRef<HLSPlayerRef, HLSPlayerProps>(
-  ({ src, onPlay, onPause, onSeeked, onLoadedMetadata, onTimeUpdate, className = '', isHost = false }, ref) => {
+  (
+    {
+      src,
+      onPlay,
+      onPause,
+      onSeeked,
+      onEnded,
+      onBufferingChange,
+      onLoadedMetadata,
+      onTimeUpdate,
+      className = '',
+      isHost = false,
+    },
+    ref
+  ) => {
     const videoRef = useRef<HTMLVideoElement>(null);
     const hlsRef = useRef<{ destroy: () => void } | null>(null);
     const programmaticActionRef = useRef(false);
@@ -61,6 +79,22 @@ const HLSPlayer = forwardRef<HLSPlayerRef, HLSPlayerProps>(
       getDuration: () => {
         return videoRef.current?.duration || 0;
       },
+      setPlaybackRate: (rate: number) => {
+        if (videoRef.current) {
+          videoRef.current.playbackRate = rate;
+        }
+      },
+      getBufferedAhead: () => {
+        const video = videoRef.current;
+        if (!video) return 0;
+
+        for (let i = 0; i < video.buffered.length; i++) {
+          if (video.buffered.start(i) <= video.currentTime && video.currentTime <= video.buffered.end(i)) {
+            return video.buffered.end(i) - video.currentTime;
+          }
+        }
+        return 0;
+      },
       getVideoElement: () => {
         return videoRef.current;
       },
@@ -167,6 +201,22 @@ const HLSPlayer = forwardRef<HLSPlayerRef, HLSPlayerProps>(
       programmaticActionRef.current = false;
     };
 
+    const handleEnded = () => {
+      console.log('🏁 HLS video ended', { isHost });
+      if (isHost) {
+        onEnded?.();
+      }
+    };
+
+    const handleWaiting = () => {
+      console.log('⏳ HLS video waiting for data');
+      onBufferingChange?.(true);
+    };
+
+    const handleReady = () => {
+      onBufferingChange?.(false);
+    };
+
     const handleLoadedMetadata = () => {
       console.log('📊 HLS video metadata loaded');
       onLoadedMetadata?.();
@@ -184,6 +234,10 @@ const HLSPlayer = forwardRef<HLSPlayerRef, HLSPlayerProps>(
         onPlay={handlePlay}
         onPause={handlePause}
         onSeeked={handleSeeked}
+        onEnded={handleEnded}
+        onWaiting={handleWaiting}
+        onCanPlay={handleReady}
+        onPlaying={handleReady}
         onLoadedMetadata={handleLoadedMetadata}
         onTimeUpdate={handleTimeUpdate}
         playsInline
@@ -17,7 +17,8 @@ import type { SubtitleTrack } from '@/types/schemas';
 interface SubtitleManagerProps {
   subtitleTracks: SubtitleTrack[];
   activeTrackId?: string;
-  onAddTracks: (tracks: SubtitleTrack[]) => void;
+  // Left out for roles that can't upload, which hides the upload option
+  onAddTracks?: (tracks: SubtitleTrack[]) => void;
   onRemoveTrack: (trackId: string) => void;
   onActiveTrackChange: (trackId?: string) => void;
   currentVideoTitle?: string;
@@ -43,7 +44,7 @@ export function SubtitleManager({
   }, []);
 
   const handleAddSubtitles = (newTracks: SubtitleTrack[]) => {
-    onAddTracks(newTracks);
+    onAddTracks?.(newTracks);
   };
 
   const handleRemoveTrack = (trackId: string) => {
@@ -77,7 +78,7 @@ export function SubtitleManager({
           activeTrackId={activeTrackId}
           onTrackSelect={handleTrackSelect}
           onRemoveTrack={handleRemoveTrack}
-          onUploadClick={handleUploadClick}
+          onUploadClick={onAddTracks ? handleUploadClick : undefined}
           isHost={isHost}
           isFullscreen={isFullscreen}
         />
@@ -133,22 +134,28 @@ export function SubtitleManager({
               </div>
             ))}
 
-            {/* Upload subtitles - now available to all users since subtitles are local */}
-            <DropdownMenuSeparator />
-            <DropdownMenuItem onClick={handleUploadClick} className="text-primary">
-              <Plus className="mr-2 h-4 w-4" />
-              Upload Subtitles
-            </DropdownMenuItem>
+            {/* Upload subtitles - available to every role with the upload permission */}
+            {onAddTracks && (
+              <>
+                <DropdownMenuSeparator />
+                <DropdownMenuItem onClick={handleUploadClick} className="text-primary">
+                  <Plus className="mr-2 h-4 w-4" />
+                  Upload Subtitles
+                </DropdownMenuItem>
+              </>
+            )}
           </DropdownMenuContent>
         </DropdownMenu>
       )}
 
-      {/* Subtitle upload dialog - now available to all users since subtitles are local */}
-      <SubtitleUploadDialog
-        open={showSearchDialog}
-        onOpenChange={setShowSearchDialog}
-        onSubtitleSelected={handleAddSubtitles}
-      />
+      {/* Subtitle upload dialog - available to every role with the upload permission */}
+      {onAddTracks && (
+        <SubtitleUploadDialog
+          open={showSearchDialog}
+          onOpenChange={setShowSearchDialog}
+          onSubtitleSelected={handleAddSubtitles}
+        />
+      )}
     </>
   );
 }
@@ -159,7 +166,7 @@ interface FullscreenSubtitleDropdownProps {
   activeTrackId?: string;
   onTrackSelect: (trackId?: string) => void;
   onRemoveTrack: (trackId: string) => void;
-  onUploadClick: (e: React.MouseEvent) => void;
+  onUploadClick?: (e: React.MouseEvent) => void;
   isHost: boolean;
   isFullscreen: boolean;
 }
@@ -234,15 +241,19 @@ function FullscreenSubtitleDropdown({
         </div>
       ))}
 
-      {/* Upload subtitles - now available to all users since subtitles are local */}
-      <div className="my-1 h-px bg-border" />
-      <div
-        className="cursor-pointer rounded-sm px-2 py-1.5 text-sm text-primary outline-none transition-colors hover:bg-accent hover:text-accent-foreground"
-        onClick={onUploadClick}
-      >
-        <Plus className="mr-2 inline h-4 w-4" />
-        Upload Subtitles
-      </div>
+      {/* Upload subtitles - available to every role with the upload permission */}
+      {onUploadClick && (
+        <>
+          <div className="my-1 h-px bg-border" />
+          <div
+            className="cursor-pointer rounded-sm px-2 py-1.5 text-sm text-primary outline-none transition-colors hover:bg-accent hover:text-accent-foreground"
+            onClick={onUploadClick}
+          >
+            <Plus className="mr-2 inline h-4 w-4" />
+            Upload Subtitles
+          </div>
+        </>
+      )}
     </div>
   ) : null;
 
@@ -500,7 +500,7 @@ export function VideoControls({
             </Button>
 
             {/* Subtitle Controls */}
-            {onAddSubtitleTracks && onActiveSubtitleTrackChange && (
+            {onActiveSubtitleTrackChange && (
               <SubtitleManager
                 subtitleTracks={subtitleTracks}
                 activeTrackId={activeSubtitleTrack}
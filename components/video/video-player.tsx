@@ -11,6 +11,8 @@ interface VideoPlayerProps {
   onPause?: () => void;
   onTimeUpdate?: (currentTime: number, duration: number) => void;
   onSeeked?: () => void;
+  onEnded?: () => void;
+  onBufferingChange?: (isBuffering: boolean) => void;
   className?: string;
   isHost?: boolean;
   subtitleTracks?: SubtitleTrack[];
@@ -24,6 +26,8 @@ export interface VideoPlayerRef {
   getCurrentTime: () => number;
   getDuration: () => number;
   isPaused: () => boolean;
+  setPlaybackRate: (rate: number) => void;
+  getBufferedAhead: () => number;
   getVideoElement: () => HTMLVideoElement | null;
   debugSubtitles: () => void;
 }
@@ -37,6 +41,8 @@ export const VideoPlayer = forwardRef<VideoPlayerRef, VideoPlayerProps>(
       onPause,
       onTimeUpdate,
       onSeeked,
+      onEnded,
+      onBufferingChange,
       className,
       isHost = false,
       subtitleTracks = [],
@@ -82,6 +88,22 @@ export const VideoPlayer = forwardRef<VideoPlayerRef, VideoPlayerProps>(
       isPaused: () => {
         return videoRef.current?.paused ?? true;
       },
+      setPlaybackRate: (rate: number) => {
+        if (videoRef.current) {
+          videoRef.current.playbackRate = rate;
+        }
+      },
+      getBufferedAhead: () => {
+        const video = videoRef.current;
+        if (!video) return 0;
+
+        for (let i = 0; i < video.buffered.length; i++) {
+          if (video.buffered.start(i) <= video.currentTime && video.currentTime <= video.buffered.end(i)) {
+            return video.buffered.end(i) - video.currentTime;
+          }
+        }
+        return 0;
+      },
       getVideoElement: () => {
         return videoRef.current;
       },
@@ -130,6 +152,13 @@ export const VideoPlayer = forwardRef<VideoPlayerRef, VideoPlayerProps>(
         programmaticActionRef.current = false;
       };
 
+      const handleEnded = () => {
+        console.log('Video ended', { isHost });
+        if (isHost) {
+          onEnded?.();
+        }
+      };
+
       const handleError = () => {
         console.error('Video error:', video.error);
         console.error('Error details:', {
@@ -141,6 +170,16 @@ export const VideoPlayer = forwardRef<VideoPlayerRef, VideoPlayerProps>(
 
       const handleCanPlay = () => {
         console.log('Video can start playing');
+        onBufferingChange?.(false);
+      };
+
+      const handleWaiting = () => {
+        console.log('Video waiting for data');
+        onBufferingChange?.(true);
+      };
+
+      const handlePlaying = () => {
+        onBufferingChange?.(false);
       };
 
       const handleLoadStart = () => {
@@ -152,8 +191,11 @@ export const VideoPlayer = forwardRef<VideoPlayerRef, VideoPlayerProps>(
       video.addEventListener('pause', handlePause);
       video.addEventListener('timeupdate', handleTimeUpdate);
       video.addEventListener('seeked', handleSeeked);
+      video.addEventListener('ended', handleEnded);
       video.addEventListener('error', handleError);
       video.addEventListener('canplay', handleCanPlay);
+      video.addEventListener('waiting', handleWaiting);
+      video.addEventListener('playing', handlePlaying);
       video.addEventListener('loadstart', handleLoadStart);
 
       return () => {
@@ -162,11 +204,14 @@ export const VideoPlayer = forwardRef<VideoPlayerRef, VideoPlayerProps>(
         video.removeEventListener('pause', handlePause);
         video.removeEventListener('timeupdate', handleTimeUpdate);
         video.removeEventListener('seeked', handleSeeked);
+        video.removeEventListener('ended', handleEnded);
         video.removeEventListener('error', handleError);
         video.removeEventListener('canplay', handleCanPlay);
+        video.removeEventListener('waiting', handleWaiting);
+        video.removeEventListener('playing', handlePlaying);
         video.removeEventListener('loadstart', handleLoadStart);
       };
-    }, [onReady, onPlay, onPause, onTimeUpdate, onSeeked, isHost]);
+    }, [onReady, onPlay, onPause, onTimeUpdate, onSeeked, onEnded, onBufferingChange, isHost]);
 
     return (
       <video
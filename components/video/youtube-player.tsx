@@ -6,6 +6,7 @@ interface YouTubePlayerProps {
   videoId: string;
   onReady?: () => void;
   onStateChange?: (state: number) => void;
+  onBufferingChange?: (isBuffering: boolean) => void;
   onTimeUpdate?: (currentTime: number, duration: number) => void;
   className?: string;
 }
@@ -17,6 +18,9 @@ export interface YouTubePlayerRef {
   getCurrentTime: () => number;
   getDuration: () => number;
   getPlayerState: () => number;
+  setPlaybackRate: (rate: number) => void;
+  getAvailablePlaybackRates: () => number[];
+  getBufferedAhead: () => number;
 }
 
 // YouTube IFrame Player API states
@@ -53,11 +57,14 @@ interface YTPlayer {
   getCurrentTime(): number;
   getDuration(): number;
   getPlayerState(): number;
+  setPlaybackRate(suggestedRate: number): void;
+  getAvailablePlaybackRates(): number[];
+  getVideoLoadedFraction(): number;
   destroy(): void;
 }
 
 export const YouTubePlayer = forwardRef<YouTubePlayerRef, YouTubePlayerProps>(
-  ({ videoId, onReady, onStateChange, onTimeUpdate, className }, ref) => {
+  ({ videoId, onReady, onStateChange, onBufferingChange, onTimeUpdate, className }, ref) => {
     const containerRef = useRef<HTMLDivElement>(null);
     const playerRef = useRef<YTPlayer | null>(null);
     const intervalRef = useRef<NodeJS.Timeout | null>(null);
@@ -96,6 +103,24 @@ export const YouTubePlayer = forwardRef<YouTubePlayerRef, YouTubePlayerProps>(
         }
         return YT_STATES.UNSTARTED;
       },
+      setPlaybackRate: (rate: number) => {
+        if (playerRef.current && playerRef.current.setPlaybackRate) {
+          playerRef.current.setPlaybackRate(rate);
+        }
+      },
+      getAvailablePlaybackRates: () => {
+        if (playerRef.current && playerRef.current.getAvailablePlaybackRates) {
+          return playerRef.current.getAvailablePlaybackRates();
+        }
+        return [1];
+      },
+      getBufferedAhead: () => {
+        if (playerRef.current && playerRef.current.getVideoLoadedFraction) {
+          const loaded = playerRef.current.getVideoLoadedFraction() * playerRef.current.getDuration();
+          return Math.max(0, loaded - playerRef.current.getCurrentTime());
+        }
+        return 0;
+      },
     }));
 
     useEffect(() => {
@@ -145,6 +170,7 @@ export const YouTubePlayer = forwardRef<YouTubePlayerRef, YouTubePlayerProps>(
             },
             onStateChange: (event: { data: number; target: YTPlayer }) => {
               onStateChange?.(event.data);
+              onBufferingChange?.(event.data === YT_STATES.BUFFERING);
 
               if (event.data === YT_STATES.PLAYING) {
                 startTimeTracking();
@@ -182,7 +208,7 @@ export const YouTubePlayer = forwardRef<YouTubePlayerRef, YouTubePlayerProps>(
           playerRef.current.destroy();
         }
       };
-    }, [videoId, onReady, onStateChange, onTimeUpdate]);
+    }, [videoId, onReady, onStateChange, onBufferingChange, onTimeUpdate]);
 
     return (
       <div className={className}>
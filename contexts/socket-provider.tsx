@@ -2,7 +2,8 @@
 
 import { createContext, useContext, useEffect, useState, ReactNode } from 'react';
 import { io, Socket } from 'socket.io-client';
-import { SocketEvents } from '@/types';
+import { ServerDrainingResponse, SocketEvents } from '@/types';
+import { getClientId } from '@/lib/client-identity';
 
 interface SocketContextType {
   socket: Socket<SocketEvents, SocketEvents> | null;
@@ -47,10 +48,13 @@ export const SocketProvider: React.FC<SocketProviderProps> = ({ children }) => {
       path: '/api/socket/io',
       transports: ['websocket', 'polling'],
       autoConnect: true,
+      auth: { clientId: getClientId() },
     });
 
     setSocket(socketInstance);
 
+    let drainTimeout: ReturnType<typeof setTimeout> | undefined;
+
     const handleConnect = () => {
       console.log('✅ Socket connected:', socketInstance.id);
       setIsConnected(true);
@@ -66,10 +70,20 @@ export const SocketProvider: React.FC<SocketProviderProps> = ({ children }) => {
       setIsConnected(false);
     };
 
+    // The server is going away. Dropping the transport (rather than disconnecting) hands over to the
+    // usual reconnect and its backoff, and a random wait keeps everyone from arriving at once
+    const handleServerDraining = ({ reconnectWithinMs }: ServerDrainingResponse) => {
+      const delay = Math.random() * reconnectWithinMs;
+      console.log(`🔄 Server is restarting, reconnecting in ${Math.round(delay)}ms`);
+      clearTimeout(drainTimeout);
+      drainTimeout = setTimeout(() => socketInstance.io.engine?.close(), delay);
+    };
+
     // Attach listeners
     socketInstance.on('connect', handleConnect);
     socketInstance.on('disconnect', handleDisconnect);
     socketInstance.on('connect_error', handleConnectError);
+    socketInstance.on('server-draining', handleServerDraining);
 
     // Cleanup function
     return () => {
@@ -77,6 +91,8 @@ export const SocketProvider: React.FC<SocketProviderProps> = ({ children }) => {
       socketInstance.off('connect', handleConnect);
       socketInstance.off('disconnect', handleDisconnect);
       socketInstance.off('connect_error', handleConnectError);
+      socketInstance.off('server-draining', handleServerDraining);
+      clearTimeout(drainTimeout);
       socketInstance.disconnect();
     };
   }, []); // Empty dependency array - run once
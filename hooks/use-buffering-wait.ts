@@ -0,0 +1,90 @@
+'use client';
+
+import { useCallback, useEffect, useRef } from 'react';
+import { useSocket } from '@/hooks/use-socket';
+import { User } from '@/types';
+import { isHost } from '@/lib/permissions';
+
+interface UseBufferingWaitOptions {
+  roomId: string;
+  currentUser: User | null;
+}
+
+interface UseBufferingWaitReturn {
+  handleBufferingChange: (isBuffering: boolean) => void;
+  handleSetWaitForBuffering: (enabled: boolean) => void;
+}
+
+// Seeks and play starts buffer briefly, so only report stalls that last
+const BUFFERING_REPORT_DELAY_MS = 1000;
+
+export function useBufferingWait({ roomId, currentUser }: UseBufferingWaitOptions): UseBufferingWaitReturn {
+  const { socket } = useSocket();
+  const canManageRoom = isHost(currentUser);
+  const reportedBufferingRef = useRef(false);
+  const reportTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+
+  useEffect(() => {
+    if (!socket) return;
+
+    // The server forgets buffering reports when the video changes, so start over too
+    const handleVideoSet = () => {
+      if (reportTimeoutRef.current) {
+        clearTimeout(reportTimeoutRef.current);
+        reportTimeoutRef.current = null;
+      }
+      reportedBufferingRef.current = false;
+    };
+
+    socket.on('video-set', handleVideoSet);
+
+    return () => {
+      socket.off('video-set', handleVideoSet);
+      if (reportTimeoutRef.current) {
+        clearTimeout(reportTimeoutRef.current);
+        reportTimeoutRef.current = null;
+      }
+    };
+  }, [socket]);
+
+  const handleBufferingChange = useCallback(
+    (isBuffering: boolean) => {
+      if (!socket) return;
+
+      if (isBuffering) {
+        if (reportedBufferingRef.current || reportTimeoutRef.current) return;
+
+        reportTimeoutRef.current = setTimeout(() => {
+          reportTimeoutRef.current = null;
+          reportedBufferingRef.current = true;
+          socket.emit('buffering-state', { roomId, isBuffering: true });
+        }, BUFFERING_REPORT_DELAY_MS);
+        return;
+      }
+
+      if (reportTimeoutRef.current) {
+        clearTimeout(reportTimeoutRef.current);
+        reportTimeoutRef.current = null;
+      }
+
+      if (reportedBufferingRef.current) {
+        reportedBufferingRef.current = false;
+        socket.emit('buffering-state', { roomId, isBuffering: false });
+      }
+    },
+    [socket, roomId]
+  );
+
+  const handleSetWaitForBuffering = useCallback(
+    (enabled: boolean) => {
+      if (!socket || !canManageRoom) return;
+      socket.emit('set-wait-for-buffering', { roomId, enabled });
+    },
+    [socket, canManageRoom, roomId]
+  );
+
+  return {
+    handleBufferingChange,
+    handleSetWaitForBuffering,
+  };
+}
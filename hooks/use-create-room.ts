@@ -6,10 +6,17 @@ import { useSocket } from '@/hooks/use-socket';
 import { CreateRoomDataSchema } from '@/types';
 import { z } from 'zod';
 import { roomSessionStorage } from '@/lib/session-storage';
+import { savedRoomsStorage } from '@/lib/saved-rooms';
 
 interface UseCreateRoomReturn {
   hostName: string;
   setHostName: (name: string) => void;
+  isPersistent: boolean;
+  setIsPersistent: (persistent: boolean) => void;
+  slug: string;
+  setSlug: (slug: string) => void;
+  password: string;
+  setPassword: (password: string) => void;
   isLoading: boolean;
   error: string;
   isConnected: boolean;
@@ -19,6 +26,9 @@ interface UseCreateRoomReturn {
 
 export function useCreateRoom(): UseCreateRoomReturn {
   const [hostName, setHostName] = useState('');
+  const [isPersistent, setIsPersistent] = useState(false);
+  const [slug, setSlug] = useState('');
+  const [password, setPassword] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState('');
   const { socket, isConnected, isInitialized } = useSocket();
@@ -33,6 +43,9 @@ export function useCreateRoom(): UseCreateRoomReturn {
         // Validate with Zod schema
         const validatedData = CreateRoomDataSchema.parse({
           hostName: hostName.trim(),
+          persistent: isPersistent,
+          slug: slug.trim().toLowerCase() || undefined,
+          password: password || undefined,
         });
 
         if (!socket || !isConnected) {
@@ -51,10 +64,21 @@ export function useCreateRoom(): UseCreateRoomReturn {
             hostName: validatedData.hostName,
             hostToken,
           });
+          // Persistent rooms outlive the session, so keep the owner credentials around
+          if (validatedData.persistent) {
+            savedRoomsStorage.saveRoom({ roomId, hostName: validatedData.hostName, hostToken });
+          }
           // Navigate immediately - the room page will handle the room-created event
           router.push(`/room/${roomId}`);
         });
 
+        // The room page may not be listening yet when the owner is let in
+        socket.once('room-joined', ({ room, user, rejoinToken }) => {
+          if (rejoinToken) {
+            roomSessionStorage.setRejoinData({ roomId: room.id, userName: user.name, rejoinToken });
+          }
+        });
+
         socket.once('room-error', ({ error }) => {
           setIsLoading(false);
           setError(error);
@@ -70,12 +94,18 @@ export function useCreateRoom(): UseCreateRoomReturn {
         }
       }
     },
-    [hostName, socket, isConnected, router]
+    [hostName, isPersistent, slug, password, socket, isConnected, router]
   );
 
   return {
     hostName,
     setHostName,
+    isPersistent,
+    setIsPersistent,
+    slug,
+    setSlug,
+    password,
+    setPassword,
     isLoading,
     error,
     isConnected,
@@ -0,0 +1,62 @@
+'use client';
+
+import { useCallback, useEffect, useRef } from 'react';
+import { useSocket } from '@/hooks/use-socket';
+import { HostElectionUpdatedResponse, HostSuccession, User } from '@/types';
+import { isHost } from '@/lib/permissions';
+import { toast } from 'sonner';
+
+interface UseHostSuccessionOptions {
+  roomId: string;
+  currentUser: User | null;
+}
+
+interface UseHostSuccessionReturn {
+  handleSetHostSuccession: (hostSuccession: HostSuccession, designatedSuccessorId?: string) => void;
+  handleCastHostVote: (candidateId: string) => void;
+}
+
+export function useHostSuccession({ roomId, currentUser }: UseHostSuccessionOptions): UseHostSuccessionReturn {
+  const { socket } = useSocket();
+  const canManageRoom = isHost(currentUser);
+  const isElectionRunningRef = useRef(false);
+
+  // Let everyone know when the room needs them to pick a new host
+  useEffect(() => {
+    if (!socket) return;
+
+    const handleHostElectionUpdated = ({ hostElection }: HostElectionUpdatedResponse) => {
+      if (hostElection && !isElectionRunningRef.current) {
+        toast.info('All hosts have left', { description: 'Vote for who should take over the room.' });
+      }
+      isElectionRunningRef.current = hostElection !== null;
+    };
+
+    socket.on('host-election-updated', handleHostElectionUpdated);
+
+    return () => {
+      socket.off('host-election-updated', handleHostElectionUpdated);
+    };
+  }, [socket]);
+
+  const handleSetHostSuccession = useCallback(
+    (hostSuccession: HostSuccession, designatedSuccessorId?: string) => {
+      if (!socket || !canManageRoom) return;
+      socket.emit('set-host-succession', { roomId, hostSuccession, designatedSuccessorId });
+    },
+    [socket, canManageRoom, roomId]
+  );
+
+  const handleCastHostVote = useCallback(
+    (candidateId: string) => {
+      if (!socket || !currentUser) return;
+      socket.emit('cast-host-vote', { roomId, candidateId });
+    },
+    [socket, currentUser, roomId]
+  );
+
+  return {
+    handleSetHostSuccession,
+    handleCastHostVote,
+  };
+}
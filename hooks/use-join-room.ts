@@ -3,15 +3,27 @@
 import { useState, useCallback } from 'react';
 import { useRouter } from 'next/navigation';
 import { useSocket } from '@/hooks/use-socket';
-import { JoinRoomDataSchema, RoomIdSchema, UserNameSchema } from '@/types';
+import {
+  JoinRoomDataSchema,
+  LobbyAdmittedResponse,
+  RoomIdSchema,
+  RoomJoinedResponse,
+  RoomPasswordRequiredResponse,
+  UserNameSchema,
+} from '@/types';
 import { z } from 'zod';
 import { roomSessionStorage } from '@/lib/session-storage';
+import { normalizeRoomId } from '@/lib/video-utils';
 
 interface UseJoinRoomReturn {
   roomId: string;
   setRoomId: (id: string) => void;
   userName: string;
   setUserName: (name: string) => void;
+  password: string;
+  setPassword: (password: string) => void;
+  needsPassword: boolean;
+  isWaitingInLobby: boolean;
   isLoading: boolean;
   error: string;
   isConnected: boolean;
@@ -23,6 +35,9 @@ interface UseJoinRoomReturn {
 export function useJoinRoom(): UseJoinRoomReturn {
   const [roomId, setRoomId] = useState('');
   const [userName, setUserName] = useState('');
+  const [password, setPassword] = useState('');
+  const [needsPassword, setNeedsPassword] = useState(false);
+  const [isWaitingInLobby, setIsWaitingInLobby] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState('');
   const { socket, isConnected, isInitialized } = useSocket();
@@ -35,7 +50,7 @@ export function useJoinRoom(): UseJoinRoomReturn {
 
       try {
         // Validate with Zod schemas
-        const roomIdResult = RoomIdSchema.safeParse(roomId.trim().toUpperCase());
+        const roomIdResult = RoomIdSchema.safeParse(normalizeRoomId(roomId));
         if (!roomIdResult.success) {
           setError(roomIdResult.error.issues[0].message);
           return;
@@ -50,6 +65,7 @@ export function useJoinRoom(): UseJoinRoomReturn {
         const joinData = {
           roomId: roomIdResult.data,
           userName: userNameResult.data,
+          password: needsPassword ? password : undefined,
         };
 
         // Validate the complete join data
@@ -62,21 +78,59 @@ export function useJoinRoom(): UseJoinRoomReturn {
 
         setIsLoading(true);
 
-        // Listen for room join response
-        socket.once('room-joined', () => {
+        // Only one of these will fire, so each one clears out the others
+        const handleRoomJoined = ({ room, user, rejoinToken }: RoomJoinedResponse) => {
+          removeListeners();
           setIsLoading(false);
+          setIsWaitingInLobby(false);
           // Store the join data for the room page
           roomSessionStorage.setJoinData({
             roomId: validatedData.roomId,
             userName: validatedData.userName,
           });
+          // Lets a refresh of the room page come back as this same user
+          if (rejoinToken) {
+            roomSessionStorage.setRejoinData({ roomId: room.id, userName: user.name, rejoinToken });
+          }
           router.push(`/room/${validatedData.roomId}`);
-        });
+        };
 
-        socket.once('room-error', ({ error }) => {
+        const handleRoomError = ({ error }: { error: string }) => {
+          removeListeners();
           setIsLoading(false);
+          setIsWaitingInLobby(false);
           setError(error);
-        });
+        };
+
+        const handlePasswordRequired = ({ incorrect }: RoomPasswordRequiredResponse) => {
+          removeListeners();
+          setIsLoading(false);
+          setNeedsPassword(true);
+          setError(incorrect ? 'Incorrect password. Please try again.' : 'This room is password protected.');
+        };
+
+        // The lobby only delays things, we keep listening until a host answers
+        const handleLobbyWaiting = () => {
+          setIsWaitingInLobby(true);
+        };
+
+        const handleLobbyAdmitted = ({ requestId }: LobbyAdmittedResponse) => {
+          socket.emit('join-room', { ...validatedData, admissionId: requestId });
+        };
+
+        const removeListeners = () => {
+          socket.off('room-joined', handleRoomJoined);
+          socket.off('room-error', handleRoomError);
+          socket.off('room-password-required', handlePasswordRequired);
+          socket.off('lobby-waiting', handleLobbyWaiting);
+          socket.off('lobby-admitted', handleLobbyAdmitted);
+        };
+
+        socket.on('room-joined', handleRoomJoined);
+        socket.on('room-error', handleRoomError);
+        socket.on('room-password-required', handlePasswordRequired);
+        socket.on('lobby-waiting', handleLobbyWaiting);
+        socket.on('lobby-admitted', handleLobbyAdmitted);
 
         // Join the room
         socket.emit('join-room', validatedData);
@@ -88,13 +142,17 @@ export function useJoinRoom(): UseJoinRoomReturn {
         }
       }
     },
-    [roomId, userName, socket, isConnected, router]
+    [roomId, userName, password, needsPassword, socket, isConnected, router]
   );
 
   const handleRoomIdChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
-    const value = e.target.value.toUpperCase().replace(/[^A-Z0-9]/g, '');
-    if (value.length <= 6) {
+    // Accepts both generated codes and vanity room names, case is sorted out on submit
+    const value = e.target.value.replace(/[^a-zA-Z0-9-]/g, '');
+    if (value.length <= 32) {
       setRoomId(value);
+      // A password prompt was for the room we asked about before
+      setNeedsPassword(false);
+      setPassword('');
     }
   }, []);
 
@@ -103,6 +161,10 @@ export function useJoinRoom(): UseJoinRoomReturn {
     setRoomId,
     userName,
     setUserName,
+    password,
+    setPassword,
+    needsPassword,
+    isWaitingInLobby,
     isLoading,
     error,
     isConnected,
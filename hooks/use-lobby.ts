@@ -0,0 +1,71 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useSocket } from '@/hooks/use-socket';
+import { LobbyRequest, LobbyUpdatedResponse, User } from '@/types';
+import { isHost } from '@/lib/permissions';
+import { toast } from 'sonner';
+
+interface UseLobbyOptions {
+  roomId: string;
+  currentUser: User | null;
+}
+
+interface UseLobbyReturn {
+  lobbyRequests: LobbyRequest[];
+  handleSetLobbyEnabled: (enabled: boolean) => void;
+  handleRespondToLobbyRequest: (requestId: string, approve: boolean) => void;
+}
+
+export function useLobby({ roomId, currentUser }: UseLobbyOptions): UseLobbyReturn {
+  const { socket } = useSocket();
+  const canManageRoom = isHost(currentUser);
+  const [lobbyRequests, setLobbyRequests] = useState<LobbyRequest[]>([]);
+  // So hosts are only pinged about people who just arrived
+  const knownRequestIdsRef = useRef<Set<string>>(new Set());
+
+  // Only hosts are told who is waiting
+  useEffect(() => {
+    if (!socket || !canManageRoom) return;
+
+    const handleLobbyUpdated = ({ requests }: LobbyUpdatedResponse) => {
+      const newcomers = requests.filter(request => !knownRequestIdsRef.current.has(request.id));
+      if (newcomers.length > 0) {
+        toast.info('Someone is waiting to join', {
+          description: `${newcomers.map(request => request.userName).join(', ')} is in the lobby`,
+        });
+      }
+
+      knownRequestIdsRef.current = new Set(requests.map(request => request.id));
+      setLobbyRequests(requests);
+    };
+
+    socket.on('lobby-updated', handleLobbyUpdated);
+
+    return () => {
+      socket.off('lobby-updated', handleLobbyUpdated);
+    };
+  }, [socket, canManageRoom]);
+
+  const handleSetLobbyEnabled = useCallback(
+    (enabled: boolean) => {
+      if (!socket || !canManageRoom) return;
+      socket.emit('set-lobby-enabled', { roomId, enabled });
+    },
+    [socket, canManageRoom, roomId]
+  );
+
+  const handleRespondToLobbyRequest = useCallback(
+    (requestId: string, approve: boolean) => {
+      if (!socket || !canManageRoom) return;
+      socket.emit('respond-to-lobby-request', { roomId, requestId, approve });
+    },
+    [socket, canManageRoom, roomId]
+  );
+
+  return {
+    lobbyRequests: canManageRoom ? lobbyRequests : [],
+    handleSetLobbyEnabled,
+    handleRespondToLobbyRequest,
+  };
+}
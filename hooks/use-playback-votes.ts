@@ -0,0 +1,78 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { useSocket } from '@/hooks/use-socket';
+import { ControlMode, PlaybackVote, User, VoteAction, VoteEndedResponse, VoteSettings } from '@/types';
+import { isHost } from '@/lib/permissions';
+import { toast } from 'sonner';
+
+interface UsePlaybackVotesOptions {
+  roomId: string;
+  currentUser: User | null;
+}
+
+interface UsePlaybackVotesReturn {
+  activeVotes: PlaybackVote[];
+  handleCastVote: (action: VoteAction, targetTime?: number) => void;
+  handleSetControlMode: (controlMode: ControlMode, voteSettings?: VoteSettings) => void;
+}
+
+const VOTE_LABELS: Record<VoteAction, string> = {
+  pause: 'pause',
+  skip: 'skip the video',
+  seek: 'seek',
+};
+
+export function usePlaybackVotes({ roomId, currentUser }: UsePlaybackVotesOptions): UsePlaybackVotesReturn {
+  const { socket } = useSocket();
+  const canManageRoom = isHost(currentUser);
+  const [activeVotes, setActiveVotes] = useState<PlaybackVote[]>([]);
+
+  useEffect(() => {
+    if (!socket) return;
+
+    const handleVoteUpdated = ({ vote }: { vote: PlaybackVote }) => {
+      setActiveVotes(prev => [...prev.filter(v => v.action !== vote.action), vote]);
+    };
+
+    const handleVoteEnded = ({ voteId, action, passed }: VoteEndedResponse) => {
+      setActiveVotes(prev => prev.filter(v => v.id !== voteId));
+
+      if (passed) {
+        toast.success('Vote passed', { description: `The room voted to ${VOTE_LABELS[action]}.` });
+      } else {
+        toast.info('Vote ended', { description: `Not enough votes to ${VOTE_LABELS[action]}.` });
+      }
+    };
+
+    socket.on('vote-updated', handleVoteUpdated);
+    socket.on('vote-ended', handleVoteEnded);
+
+    return () => {
+      socket.off('vote-updated', handleVoteUpdated);
+      socket.off('vote-ended', handleVoteEnded);
+    };
+  }, [socket]);
+
+  const handleCastVote = useCallback(
+    (action: VoteAction, targetTime?: number) => {
+      if (!socket || !currentUser) return;
+      socket.emit('cast-vote', { roomId, action, targetTime });
+    },
+    [socket, currentUser, roomId]
+  );
+
+  const handleSetControlMode = useCallback(
+    (controlMode: ControlMode, voteSettings?: VoteSettings) => {
+      if (!socket || !canManageRoom) return;
+      socket.emit('set-control-mode', { roomId, controlMode, voteSettings });
+    },
+    [socket, canManageRoom, roomId]
+  );
+
+  return {
+    activeVotes,
+    handleCastVote,
+    handleSetControlMode,
+  };
+}
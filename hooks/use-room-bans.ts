@@ -0,0 +1,63 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { useSocket } from '@/hooks/use-socket';
+import { BansUpdatedResponse, RoomBan, User } from '@/types';
+import { hasPermission } from '@/lib/permissions';
+
+interface UseRoomBansOptions {
+  roomId: string;
+  currentUser: User | null;
+}
+
+interface UseRoomBansReturn {
+  bans: RoomBan[];
+  handleUnbanUser: (banId: string) => void;
+}
+
+export function useRoomBans({ roomId, currentUser }: UseRoomBansOptions): UseRoomBansReturn {
+  const { socket } = useSocket();
+  const canKick = hasPermission(currentUser, 'kick');
+  const [bans, setBans] = useState<RoomBan[]>([]);
+
+  // Only hosts receive the ban list
+  useEffect(() => {
+    if (!socket || !canKick) return;
+
+    const handleBansUpdated = ({ bans }: BansUpdatedResponse) => {
+      setBans(bans);
+    };
+
+    socket.on('bans-updated', handleBansUpdated);
+
+    return () => {
+      socket.off('bans-updated', handleBansUpdated);
+    };
+  }, [socket, canKick]);
+
+  // Cooldowns run out on their own, so drop them from the list when they do
+  useEffect(() => {
+    const nextExpiry = Math.min(...bans.map(ban => ban.expiresAt ?? Infinity));
+    if (nextExpiry === Infinity) return;
+
+    const timeout = setTimeout(
+      () => setBans(prev => prev.filter(ban => ban.expiresAt === null || ban.expiresAt > Date.now())),
+      Math.max(0, nextExpiry - Date.now())
+    );
+
+    return () => clearTimeout(timeout);
+  }, [bans]);
+
+  const handleUnbanUser = useCallback(
+    (banId: string) => {
+      if (!socket || !canKick) return;
+      socket.emit('unban-user', { roomId, banId });
+    },
+    [socket, canKick, roomId]
+  );
+
+  return {
+    bans: canKick ? bans : [],
+    handleUnbanUser,
+  };
+}
@@ -3,9 +3,39 @@
 import { useState, useEffect, useRef, useCallback } from 'react';
 import { useRouter } from 'next/navigation';
 import { useSocket } from '@/hooks/use-socket';
-import { Room, User, ChatMessage, TypingUser } from '@/types';
+import {
+  PublicRoom,
+  User,
+  ChatMessage,
+  TypingUser,
+  QueueItem,
+  VideoSuggestion,
+  ControlModeUpdatedResponse,
+  PlaybackRateUpdatedResponse,
+  RoomJoinedResponse,
+  RoomPasswordRequiredResponse,
+  RoomPasswordSchema,
+  RoomPasswordUpdatedResponse,
+  LobbyAdmittedResponse,
+  LobbyEnabledUpdatedResponse,
+  WaitForBufferingUpdatedResponse,
+  BufferingUpdatedResponse,
+  KickOptions,
+  UserUpdatedResponse,
+  HostSuccessionUpdatedResponse,
+  HostElectionUpdatedResponse,
+  UserRoleUpdatedResponse,
+  UserDemotedResponse,
+  OwnershipTransferredResponse,
+  MessageDeletedResponse,
+  RateLimitedResponse,
+  VideoSetResponse,
+  AssignableRole,
+} from '@/types';
 import { toast } from 'sonner';
 import { roomSessionStorage } from '@/lib/session-storage';
+import { savedRoomsStorage } from '@/lib/saved-rooms';
+import { hasPermission, isHost } from '@/lib/permissions';
 
 interface UseRoomOptions {
   roomId: string;
@@ -13,24 +43,32 @@ interface UseRoomOptions {
 
 interface UseRoomReturn {
   // State
-  room: Room | null;
+  room: PublicRoom | null;
   currentUser: User | null;
   messages: ChatMessage[];
   typingUsers: TypingUser[];
   error: string;
   syncError: string;
   isJoining: boolean;
+  isWaitingInLobby: boolean;
   showGuestInfoBanner: boolean;
   showHostDialog: boolean;
   showCopied: boolean;
+  shouldRestoreVoice: boolean;
 
   // Actions
   setShowGuestInfoBanner: (show: boolean) => void;
+  setShouldRestoreVoice: (restore: boolean) => void;
   setShowHostDialog: (show: boolean) => void;
   setShowCopied: (show: boolean) => void;
   handlePromoteUser: (userId: string) => void;
-  handleKickUser: (userId: string) => void;
+  handleDemoteUser: (userId: string) => void;
+  handleTransferOwnership: (userId: string) => void;
+  handleSetUserRole: (userId: string, role: AssignableRole) => void;
+  handleKickUser: (userId: string, options?: KickOptions) => void;
+  handleSetRoomPassword: () => void;
   handleSendMessage: (message: string) => void;
+  handleDeleteMessage: (messageId: string) => void;
   handleTypingStart: () => void;
   handleTypingStop: () => void;
   markMessagesAsRead: () => void;
@@ -42,25 +80,30 @@ export function useRoom({ roomId }: UseRoomOptions): UseRoomReturn {
   const router = useRouter();
   const { socket, isConnected } = useSocket();
 
-  const [room, setRoom] = useState<Room | null>(null);
+  const [room, setRoom] = useState<PublicRoom | null>(null);
   const [currentUser, setCurrentUser] = useState<User | null>(null);
   const [messages, setMessages] = useState<ChatMessage[]>([]);
   const [typingUsers, setTypingUsers] = useState<TypingUser[]>([]);
   const [error, setError] = useState('');
   const [syncError, setSyncError] = useState('');
   const [isJoining, setIsJoining] = useState(false);
+  const [isWaitingInLobby, setIsWaitingInLobby] = useState(false);
   const [showGuestInfoBanner, setShowGuestInfoBanner] = useState(false);
   const [showHostDialog, setShowHostDialog] = useState(false);
   const [showCopied, setShowCopied] = useState(false);
+  const [shouldRestoreVoice, setShouldRestoreVoice] = useState(false);
   const [lastJoinAttempt, setLastJoinAttempt] = useState<number>(0);
+  const canManageRoom = isHost(currentUser);
 
   const hasAttemptedJoinRef = useRef<boolean>(false);
+  // Remembers who we tried to join as, in case the room asks for a password
+  const pendingJoinNameRef = useRef<string | null>(null);
   const hasShownClosureToastRef = useRef<boolean>(false);
   const cleanupDataRef = useRef<{
     socket: typeof socket;
     isConnected: boolean;
     roomId: string;
-    room: Room | null;
+    room: PublicRoom | null;
     currentUser: User | null;
   }>({
     socket: null,
@@ -74,20 +117,39 @@ export function useRoom({ roomId }: UseRoomOptions): UseRoomReturn {
   useEffect(() => {
     if (!socket || !isConnected) return;
 
-    const handleRoomJoined = ({ room: joinedRoom, user }: { room: Room; user: User }) => {
+    const handleRoomJoined = ({
+      room: joinedRoom,
+      user,
+      messages: history,
+      rejoinToken,
+      restoreVoice,
+    }: RoomJoinedResponse) => {
       console.log('✅ Room joined successfully:', {
         room: joinedRoom.id,
         user: user.name,
-        isHost: user.isHost,
+        role: user.role,
       });
       setRoom(joinedRoom);
       setCurrentUser(user);
+      setIsWaitingInLobby(false);
+      // Persistent rooms bring back the chat from last time
+      if (history) {
+        setMessages(history.map(message => ({ ...message, isRead: true })));
+      }
       setError('');
       setIsJoining(false);
       hasAttemptedJoinRef.current = false;
 
+      // Lets a refresh or dropped connection come back as this same user
+      if (rejoinToken) {
+        roomSessionStorage.setRejoinData({ roomId: joinedRoom.id, userName: user.name, rejoinToken });
+      }
+      if (restoreVoice) {
+        setShouldRestoreVoice(true);
+      }
+
       // Show info banner for guests when joining a room with video
-      if (!user.isHost && joinedRoom.videoUrl) {
+      if (!isHost(user) && joinedRoom.videoUrl) {
         setShowGuestInfoBanner(true);
         setTimeout(() => setShowGuestInfoBanner(false), 5000);
       }
@@ -108,6 +170,14 @@ export function useRoom({ roomId }: UseRoomOptions): UseRoomReturn {
       });
     };
 
+    // Someone dropped out and is holding their seat, or came back to it
+    const handleUserUpdated = ({ user }: UserUpdatedResponse) => {
+      setRoom(prev => {
+        if (!prev) return null;
+        return { ...prev, users: prev.users.map(u => (u.id === user.id ? user : u)) };
+      });
+    };
+
     const handleUserLeft = ({ userId }: { userId: string }) => {
       setTypingUsers(prev => prev.filter(user => user.userId !== userId));
       setRoom(prev => {
@@ -120,14 +190,14 @@ export function useRoom({ roomId }: UseRoomOptions): UseRoomReturn {
     const handleUserPromoted = ({ userId, userName }: { userId: string; userName: string }) => {
       setRoom(prev => {
         if (!prev) return null;
-        const updatedUsers = prev.users.map(user => (user.id === userId ? { ...user, isHost: true } : user));
+        const updatedUsers = prev.users.map(user => (user.id === userId ? { ...user, role: 'host' as const } : user));
         return { ...prev, users: updatedUsers };
       });
 
       setCurrentUser(prev => {
         if (prev && prev.id === userId) {
           console.log('🎉 You have been promoted to host!');
-          return { ...prev, isHost: true };
+          return { ...prev, role: 'host' };
         }
         return prev;
       });
@@ -135,6 +205,61 @@ export function useRoom({ roomId }: UseRoomOptions): UseRoomReturn {
       console.log(`👑 ${userName} has been promoted to host`);
     };
 
+    const handleUserRoleUpdated = ({ userId, userName, role }: UserRoleUpdatedResponse) => {
+      setRoom(prev => {
+        if (!prev) return null;
+        return { ...prev, users: prev.users.map(user => (user.id === userId ? { ...user, role } : user)) };
+      });
+
+      setCurrentUser(prev => (prev && prev.id === userId ? { ...prev, role } : prev));
+
+      console.log(`🎭 ${userName} is now a ${role}`);
+    };
+
+    const handleUserDemoted = ({ userId, userName }: UserDemotedResponse) => {
+      setRoom(prev => {
+        if (!prev) return null;
+        const updatedUsers = prev.users.map(user => (user.id === userId ? { ...user, role: 'member' as const } : user));
+        return { ...prev, users: updatedUsers };
+      });
+
+      setCurrentUser(prev => (prev && prev.id === userId ? { ...prev, role: 'member' } : prev));
+
+      if (userId === currentUser?.id) {
+        toast.info('You are no longer a host');
+      }
+      console.log(`⬇️ ${userName} has been demoted from host`);
+    };
+
+    const handleOwnershipTransferred = ({
+      previousOwnerId,
+      userId,
+      userName,
+      hostToken,
+    }: OwnershipTransferredResponse) => {
+      const getRole = (user: User) => (user.id === userId ? 'owner' : user.id === previousOwnerId ? 'host' : user.role);
+
+      setRoom(prev => {
+        if (!prev) return null;
+        const updatedUsers = prev.users.map(user => ({ ...user, role: getRole(user) }));
+        return { ...prev, hostId: userId, hostName: userName, users: updatedUsers };
+      });
+
+      setCurrentUser(prev => (prev ? { ...prev, role: getRole(prev) } : prev));
+
+      // Owner credentials for persistent rooms move with the ownership
+      if (userId === currentUser?.id) {
+        if (hostToken && room?.isPersistent) {
+          savedRoomsStorage.saveRoom({ roomId, hostName: userName, hostToken });
+        }
+        toast.success('You are now the owner of this room');
+      } else if (previousOwnerId === currentUser?.id) {
+        savedRoomsStorage.removeRoom(roomId);
+        toast.info(`${userName} is now the owner of this room`);
+      }
+      console.log(`🔑 ${userName} is now the owner of the room`);
+    };
+
     const handleUserKicked = ({
       userId,
       userName,
@@ -166,29 +291,109 @@ export function useRoom({ roomId }: UseRoomOptions): UseRoomReturn {
       });
     };
 
-    const handleVideoSet = ({ videoUrl, videoType }: { videoUrl: string; videoType: 'youtube' | 'mp4' | 'm3u8' }) => {
+    const handleVideoSet = ({ videoUrl, videoId, videoType }: VideoSetResponse) => {
       setRoom(prev =>
         prev
           ? {
               ...prev,
               videoUrl,
+              videoId,
               videoType,
               videoState: {
                 isPlaying: false,
                 currentTime: 0,
                 duration: 0,
                 lastUpdateTime: Date.now(),
+                playbackRate: prev.videoState.playbackRate,
               },
+              bufferingUserIds: [],
+              pausedForBuffering: false,
             }
           : null
       );
 
-      if (currentUser && !currentUser.isHost) {
+      if (currentUser && !isHost(currentUser)) {
         setShowGuestInfoBanner(true);
         setTimeout(() => setShowGuestInfoBanner(false), 5000);
       }
     };
 
+    const handleQueueUpdated = ({ queue }: { queue: QueueItem[] }) => {
+      setRoom(prev => (prev ? { ...prev, queue } : null));
+    };
+
+    const handleSuggestionsUpdated = ({ suggestions }: { suggestions: VideoSuggestion[] }) => {
+      setRoom(prev => (prev ? { ...prev, suggestions } : null));
+    };
+
+    const handleControlModeUpdated = ({ controlMode, voteSettings }: ControlModeUpdatedResponse) => {
+      setRoom(prev => (prev ? { ...prev, controlMode, voteSettings } : null));
+    };
+
+    const handlePlaybackRateUpdated = ({ playbackRate, currentTime, timestamp }: PlaybackRateUpdatedResponse) => {
+      setRoom(prev =>
+        prev
+          ? { ...prev, videoState: { ...prev.videoState, playbackRate, currentTime, lastUpdateTime: timestamp } }
+          : null
+      );
+    };
+
+    const handleWaitForBufferingUpdated = ({ enabled }: WaitForBufferingUpdatedResponse) => {
+      setRoom(prev => (prev ? { ...prev, waitForBuffering: enabled } : null));
+    };
+
+    const handleBufferingUpdated = ({ bufferingUserIds }: BufferingUpdatedResponse) => {
+      setRoom(prev => (prev ? { ...prev, bufferingUserIds } : null));
+    };
+
+    const handleRoomPasswordUpdated = ({ hasPassword }: RoomPasswordUpdatedResponse) => {
+      setRoom(prev => (prev ? { ...prev, hasPassword } : null));
+    };
+
+    const handleRoomPasswordRequired = ({ incorrect }: RoomPasswordRequiredResponse) => {
+      const userName = pendingJoinNameRef.current;
+      const password =
+        userName &&
+        prompt(
+          incorrect ? 'Incorrect password. Please try again:' : 'This room is password protected. Enter the password:'
+        );
+
+      if (!userName || !password) {
+        console.log('❌ No password provided, redirecting to join page');
+        setIsJoining(false);
+        hasAttemptedJoinRef.current = false;
+        router.push('/join');
+        return;
+      }
+
+      socket.emit('join-room', { roomId, userName, password });
+    };
+
+    const handleLobbyEnabledUpdated = ({ enabled }: LobbyEnabledUpdatedResponse) => {
+      setRoom(prev => (prev ? { ...prev, lobbyEnabled: enabled } : null));
+    };
+
+    const handleHostSuccessionUpdated = ({ hostSuccession, designatedSuccessorId }: HostSuccessionUpdatedResponse) => {
+      setRoom(prev => (prev ? { ...prev, hostSuccession, designatedSuccessorId } : null));
+    };
+
+    const handleHostElectionUpdated = ({ hostElection }: HostElectionUpdatedResponse) => {
+      setRoom(prev => (prev ? { ...prev, hostElection } : null));
+    };
+
+    const handleLobbyWaiting = () => {
+      console.log('🚪 Waiting in the lobby for a host to let us in');
+      setIsWaitingInLobby(true);
+    };
+
+    const handleLobbyAdmitted = ({ requestId }: LobbyAdmittedResponse) => {
+      const userName = pendingJoinNameRef.current;
+      if (!userName) return;
+
+      console.log('✅ Admitted from the lobby, joining room');
+      socket.emit('join-room', { roomId, userName, admissionId: requestId });
+    };
+
     const handleNewMessage = ({ message }: { message: ChatMessage }) => {
       // Mark messages as read if they're from the current user, unread otherwise
       const messageWithReadStatus = {
@@ -198,6 +403,10 @@ export function useRoom({ roomId }: UseRoomOptions): UseRoomReturn {
       setMessages(prev => [...prev, messageWithReadStatus]);
     };
 
+    const handleMessageDeleted = ({ messageId }: MessageDeletedResponse) => {
+      setMessages(prev => prev.filter(message => message.id !== messageId));
+    };
+
     const handleUserTyping = ({ userId, userName }: { userId: string; userName: string }) => {
       if (userId === currentUser?.id) return;
 
@@ -226,6 +435,7 @@ export function useRoom({ roomId }: UseRoomOptions): UseRoomReturn {
           return;
         }
         hasShownClosureToastRef.current = true;
+        roomSessionStorage.clearRejoinData();
 
         toast.error('Room Closed', {
           description: 'All hosts have left the room. You will be redirected to the home page.',
@@ -241,6 +451,7 @@ export function useRoom({ roomId }: UseRoomOptions): UseRoomReturn {
       // Handle kick messages - should always redirect regardless of room state
       if (error.includes('You have been kicked from the room')) {
         console.log('🚪 User has been kicked, redirecting to home...');
+        roomSessionStorage.clearRejoinData();
 
         toast.error('Kicked from Room', {
           description: error,
@@ -277,32 +488,82 @@ export function useRoom({ roomId }: UseRoomOptions): UseRoomReturn {
       }
     };
 
+    // One toast at a time, however many events got dropped
+    const handleRateLimited = ({ event, retryAfterMs }: RateLimitedResponse) => {
+      const seconds = Math.max(1, Math.ceil(retryAfterMs / 1000));
+      toast.warning('Slow down', {
+        id: 'rate-limited',
+        description:
+          event === 'send-message'
+            ? `You're sending messages too quickly. Try again in ${seconds}s.`
+            : `You're doing that too often. Try again in ${seconds}s.`,
+      });
+    };
+
     socket.on('room-joined', handleRoomJoined);
     socket.on('user-joined', handleUserJoined);
+    socket.on('user-updated', handleUserUpdated);
     socket.on('user-left', handleUserLeft);
     socket.on('user-promoted', handleUserPromoted);
+    socket.on('user-role-updated', handleUserRoleUpdated);
+    socket.on('user-demoted', handleUserDemoted);
+    socket.on('ownership-transferred', handleOwnershipTransferred);
     socket.on('user-kicked', handleUserKicked);
     socket.on('video-set', handleVideoSet);
+    socket.on('queue-updated', handleQueueUpdated);
+    socket.on('suggestions-updated', handleSuggestionsUpdated);
+    socket.on('control-mode-updated', handleControlModeUpdated);
+    socket.on('playback-rate-updated', handlePlaybackRateUpdated);
+    socket.on('wait-for-buffering-updated', handleWaitForBufferingUpdated);
+    socket.on('buffering-updated', handleBufferingUpdated);
+    socket.on('room-password-updated', handleRoomPasswordUpdated);
+    socket.on('room-password-required', handleRoomPasswordRequired);
+    socket.on('lobby-enabled-updated', handleLobbyEnabledUpdated);
+    socket.on('host-succession-updated', handleHostSuccessionUpdated);
+    socket.on('host-election-updated', handleHostElectionUpdated);
+    socket.on('lobby-waiting', handleLobbyWaiting);
+    socket.on('lobby-admitted', handleLobbyAdmitted);
     socket.on('new-message', handleNewMessage);
+    socket.on('message-deleted', handleMessageDeleted);
     socket.on('user-typing', handleUserTyping);
     socket.on('user-stopped-typing', handleUserStoppedTyping);
     socket.on('room-error', handleRoomError);
     socket.on('error', handleSocketError);
+    socket.on('rate-limited', handleRateLimited);
 
     return () => {
       socket.off('room-joined', handleRoomJoined);
       socket.off('user-joined', handleUserJoined);
+      socket.off('user-updated', handleUserUpdated);
       socket.off('user-left', handleUserLeft);
       socket.off('user-promoted', handleUserPromoted);
+      socket.off('user-role-updated', handleUserRoleUpdated);
+      socket.off('user-demoted', handleUserDemoted);
+      socket.off('ownership-transferred', handleOwnershipTransferred);
       socket.off('user-kicked', handleUserKicked);
       socket.off('video-set', handleVideoSet);
+      socket.off('queue-updated', handleQueueUpdated);
+      socket.off('suggestions-updated', handleSuggestionsUpdated);
+      socket.off('control-mode-updated', handleControlModeUpdated);
+      socket.off('playback-rate-updated', handlePlaybackRateUpdated);
+      socket.off('wait-for-buffering-updated', handleWaitForBufferingUpdated);
+      socket.off('buffering-updated', handleBufferingUpdated);
+      socket.off('room-password-updated', handleRoomPasswordUpdated);
+      socket.off('room-password-required', handleRoomPasswordRequired);
+      socket.off('lobby-enabled-updated', handleLobbyEnabledUpdated);
+      socket.off('host-succession-updated', handleHostSuccessionUpdated);
+      socket.off('host-election-updated', handleHostElectionUpdated);
+      socket.off('lobby-waiting', handleLobbyWaiting);
+      socket.off('lobby-admitted', handleLobbyAdmitted);
       socket.off('new-message', handleNewMessage);
+      socket.off('message-deleted', handleMessageDeleted);
       socket.off('user-typing', handleUserTyping);
       socket.off('user-stopped-typing', handleUserStoppedTyping);
       socket.off('room-error', handleRoomError);
       socket.off('error', handleSocketError);
+      socket.off('rate-limited', handleRateLimited);
     };
-  }, [socket, isConnected, router, currentUser, room]);
+  }, [socket, isConnected, router, currentUser, room, roomId]);
 
   // Join room logic
   useEffect(() => {
@@ -338,6 +599,15 @@ export function useRoom({ roomId }: UseRoomOptions): UseRoomReturn {
     setLastJoinAttempt(now);
     hasAttemptedJoinRef.current = true;
 
+    // Coming back after a refresh, so pick up as the same user
+    const rejoinData = roomSessionStorage.getRejoinData(roomId);
+    if (rejoinData) {
+      console.log('🔁 Rejoining with saved session:', rejoinData.userName);
+      pendingJoinNameRef.current = rejoinData.userName;
+      socket.emit('join-room', getRejoinRequest(roomId, rejoinData));
+      return;
+    }
+
     // Check if this user is the room creator first
     const creatorData = roomSessionStorage.getRoomCreator(roomId);
     if (creatorData) {
@@ -351,11 +621,24 @@ export function useRoom({ roomId }: UseRoomOptions): UseRoomReturn {
       return;
     }
 
+    // Owners of persistent rooms keep their credentials between visits
+    const savedRoom = savedRoomsStorage.getRoom(roomId);
+    if (savedRoom) {
+      console.log('👑 Saved room owner detected, joining as host:', savedRoom.hostName);
+      socket.emit('join-room', {
+        roomId,
+        userName: savedRoom.hostName,
+        hostToken: savedRoom.hostToken,
+      });
+      return;
+    }
+
     // Check if user came from join page
     const joinData = roomSessionStorage.getJoinData(roomId);
     if (joinData) {
       roomSessionStorage.clearJoinData();
       console.log('👤 Joining with stored data:', joinData.userName);
+      pendingJoinNameRef.current = joinData.userName;
       socket.emit('join-room', { roomId, userName: joinData.userName });
       return;
     }
@@ -397,9 +680,29 @@ export function useRoom({ roomId }: UseRoomOptions): UseRoomReturn {
     }
 
     console.log('📝 Joining room with prompted name:', trimmedName);
+    pendingJoinNameRef.current = trimmedName;
     socket.emit('join-room', { roomId, userName: trimmedName });
   }, [socket, isConnected, roomId, router, room, currentUser, isJoining, lastJoinAttempt]);
 
+  // Socket.IO reconnects on its own after a network blip, but the server has to be told who we are again
+  useEffect(() => {
+    if (!socket) return;
+
+    const handleReconnect = () => {
+      const rejoinData = roomSessionStorage.getRejoinData(roomId);
+      if (!rejoinData || !cleanupDataRef.current.currentUser) return;
+
+      console.log('🔁 Reconnected, rejoining room as:', rejoinData.userName);
+      socket.emit('join-room', getRejoinRequest(roomId, rejoinData));
+    };
+
+    socket.io.on('reconnect', handleReconnect);
+
+    return () => {
+      socket.io.off('reconnect', handleReconnect);
+    };
+  }, [socket, roomId]);
+
   // Update cleanup data ref
   useEffect(() => {
     cleanupDataRef.current = {
@@ -418,6 +721,7 @@ export function useRoom({ roomId }: UseRoomOptions): UseRoomReturn {
       if (socket && isConnected && room && currentUser) {
         console.log('🚪 Component unmounting, leaving room...');
         socket.emit('leave-room', { roomId });
+        roomSessionStorage.clearRejoinData();
       }
     };
   }, []);
@@ -425,25 +729,84 @@ export function useRoom({ roomId }: UseRoomOptions): UseRoomReturn {
   // Actions
   const handlePromoteUser = useCallback(
     (userId: string) => {
-      if (!socket || !currentUser?.isHost) return;
+      if (!socket || !canManageRoom) return;
       socket.emit('promote-host', { roomId, userId });
     },
-    [socket, currentUser?.isHost, roomId]
+    [socket, canManageRoom, roomId]
   );
 
-  const handleKickUser = useCallback(
+  const handleDemoteUser = useCallback(
+    (userId: string) => {
+      if (!socket || !canManageRoom) return;
+      socket.emit('demote-host', { roomId, userId });
+    },
+    [socket, canManageRoom, roomId]
+  );
+
+  const handleTransferOwnership = useCallback(
     (userId: string) => {
-      if (!socket || !currentUser?.isHost) return;
+      if (!socket || currentUser?.role !== 'owner') return;
+
+      const targetUser = room?.users.find(u => u.id === userId);
+      if (!targetUser || !confirm(`Make ${targetUser.name} the owner of this room? You will stay on as a host.`))
+        return;
+
+      socket.emit('transfer-ownership', { roomId, userId });
+    },
+    [socket, currentUser?.role, roomId, room?.users]
+  );
+
+  const handleSetUserRole = useCallback(
+    (userId: string, role: AssignableRole) => {
+      if (!socket || !canManageRoom) return;
+      socket.emit('set-user-role', { roomId, userId, role });
+    },
+    [socket, canManageRoom, roomId]
+  );
+
+  const handleKickUser = useCallback(
+    (userId: string, options: KickOptions = {}) => {
+      if (!socket || !hasPermission(currentUser, 'kick')) return;
 
       const targetUser = room?.users.find(u => u.id === userId);
       if (targetUser) {
-        socket.emit('kick-user', { roomId, userId });
-        toast.success(`${targetUser.name} has been kicked from the room`);
+        socket.emit('kick-user', { roomId, userId, ...options });
+        toast.success(
+          options.ban
+            ? `${targetUser.name} has been banned from the room`
+            : `${targetUser.name} has been kicked from the room`
+        );
       }
     },
-    [socket, currentUser?.isHost, roomId, room?.users]
+    [socket, currentUser, roomId, room?.users]
   );
 
+  const handleSetRoomPassword = useCallback(() => {
+    if (!socket || !canManageRoom) return;
+
+    const input = prompt(
+      room?.hasPassword
+        ? 'Enter a new room password, or leave blank to remove it:'
+        : 'Enter a password guests will need to join:'
+    );
+    if (input === null) return;
+
+    if (!input) {
+      socket.emit('set-room-password', { roomId, password: null });
+      toast.success('Room password removed');
+      return;
+    }
+
+    const result = RoomPasswordSchema.safeParse(input);
+    if (!result.success) {
+      toast.error('Invalid password', { description: result.error.issues[0].message });
+      return;
+    }
+
+    socket.emit('set-room-password', { roomId, password: result.data });
+    toast.success('Room password updated');
+  }, [socket, canManageRoom, room?.hasPassword, roomId]);
+
   const handleSendMessage = useCallback(
     (message: string) => {
       if (!socket) return;
@@ -452,6 +815,14 @@ export function useRoom({ roomId }: UseRoomOptions): UseRoomReturn {
     [socket, roomId]
   );
 
+  const handleDeleteMessage = useCallback(
+    (messageId: string) => {
+      if (!socket || !hasPermission(currentUser, 'manage-chat')) return;
+      socket.emit('delete-message', { roomId, messageId });
+    },
+    [socket, currentUser, roomId]
+  );
+
   const handleTypingStart = useCallback(() => {
     if (!socket) return;
     socket.emit('typing-start', { roomId });
@@ -494,17 +865,25 @@ export function useRoom({ roomId }: UseRoomOptions): UseRoomReturn {
     error,
     syncError,
     isJoining,
+    isWaitingInLobby,
     showGuestInfoBanner,
     showHostDialog,
     showCopied,
+    shouldRestoreVoice,
 
     // Actions
     setShowGuestInfoBanner,
+    setShouldRestoreVoice,
     setShowHostDialog,
     setShowCopied,
     handlePromoteUser,
+    handleDemoteUser,
+    handleTransferOwnership,
+    handleSetUserRole,
     handleKickUser,
+    handleSetRoomPassword,
     handleSendMessage,
+    handleDeleteMessage,
     handleTypingStart,
     handleTypingStop,
     markMessagesAsRead,
@@ -512,3 +891,14 @@ export function useRoom({ roomId }: UseRoomOptions): UseRoomReturn {
     shareRoom,
   };
 }
+
+// Owners of persistent rooms still send their host token, in case the rejoin token has run out
+function getRejoinRequest(roomId: string, rejoinData: { userName: string; rejoinToken: string }) {
+  const savedRoom = savedRoomsStorage.getRoom(roomId);
+  return {
+    roomId,
+    userName: rejoinData.userName,
+    rejoinToken: rejoinData.rejoinToken,
+    hostToken: savedRoom?.hostName === rejoinData.userName ? savedRoom.hostToken : undefined,
+  };
+}
@@ -0,0 +1,79 @@
+'use client';
+
+import { useCallback, useEffect, useRef } from 'react';
+import { useSocket } from '@/hooks/use-socket';
+import { ClockPongResponse } from '@/types';
+
+interface ClockSample {
+  offset: number;
+  rtt: number;
+}
+
+interface UseServerClockReturn {
+  getServerTime: () => number;
+  getRoundTripTime: () => number | null;
+}
+
+// A quick burst on connect gets a usable estimate fast, then we keep it fresh
+const BURST_PINGS = 5;
+const BURST_SPACING_MS = 250;
+const PING_INTERVAL_MS = 15000;
+const MAX_SAMPLES = 10;
+// Samples this much slower than the best recent round trip are likely queued somewhere, so skip them
+const RTT_TOLERANCE_MS = 50;
+const SMOOTHING_FACTOR = 0.2;
+
+export function useServerClock(): UseServerClockReturn {
+  const { socket, isConnected } = useSocket();
+  const samplesRef = useRef<ClockSample[]>([]);
+  const offsetRef = useRef<number | null>(null);
+  const rttRef = useRef<number | null>(null);
+
+  useEffect(() => {
+    if (!socket || !isConnected) return;
+
+    // A new connection may take a different route, so start over
+    samplesRef.current = [];
+
+    const handleClockPong = ({ clientTime, serverTime }: ClockPongResponse) => {
+      const rtt = Date.now() - clientTime;
+      if (rtt < 0) return;
+
+      // NTP-style estimate: the server stamped its time halfway through the round trip
+      const sample = { offset: serverTime - (clientTime + rtt / 2), rtt };
+      samplesRef.current = [...samplesRef.current, sample].slice(-MAX_SAMPLES);
+
+      const bestRtt = Math.min(...samplesRef.current.map(s => s.rtt));
+      if (sample.rtt > bestRtt + RTT_TOLERANCE_MS) return;
+
+      offsetRef.current =
+        offsetRef.current === null
+          ? sample.offset
+          : offsetRef.current + SMOOTHING_FACTOR * (sample.offset - offsetRef.current);
+      rttRef.current =
+        rttRef.current === null ? sample.rtt : rttRef.current + SMOOTHING_FACTOR * (sample.rtt - rttRef.current);
+    };
+
+    const sendPing = () => {
+      socket.emit('clock-ping', { clientTime: Date.now() });
+    };
+
+    socket.on('clock-pong', handleClockPong);
+
+    const burstTimeouts = Array.from({ length: BURST_PINGS }, (_, i) => setTimeout(sendPing, i * BURST_SPACING_MS));
+    const interval = setInterval(sendPing, PING_INTERVAL_MS);
+
+    return () => {
+      burstTimeouts.forEach(clearTimeout);
+      clearInterval(interval);
+      socket.off('clock-pong', handleClockPong);
+    };
+  }, [socket, isConnected]);
+
+  // Until the first pong arrives the local clock is the best guess we have
+  const getServerTime = useCallback(() => Date.now() + (offsetRef.current ?? 0), []);
+
+  const getRoundTripTime = useCallback(() => rttRef.current, []);
+
+  return { getServerTime, getRoundTripTime };
+}
@@ -0,0 +1,50 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { useSocket } from '@/hooks/use-socket';
+import { SyncHealth, SyncHealthUpdatedResponse, User } from '@/types';
+import { hasPermission } from '@/lib/permissions';
+
+interface UseSyncHealthOptions {
+  roomId: string;
+  currentUser: User | null;
+}
+
+interface UseSyncHealthReturn {
+  syncHealth: Record<string, SyncHealth>;
+  handleForceResync: (userId: string) => void;
+}
+
+export function useSyncHealth({ roomId, currentUser }: UseSyncHealthOptions): UseSyncHealthReturn {
+  const { socket } = useSocket();
+  const canResync = hasPermission(currentUser, 'control-playback');
+  const [syncHealth, setSyncHealth] = useState<Record<string, SyncHealth>>({});
+
+  // Only hosts receive the room overview
+  useEffect(() => {
+    if (!socket || !canResync) return;
+
+    const handleSyncHealthUpdated = ({ reports }: SyncHealthUpdatedResponse) => {
+      setSyncHealth(Object.fromEntries(reports.map(report => [report.userId, report])));
+    };
+
+    socket.on('sync-health-updated', handleSyncHealthUpdated);
+
+    return () => {
+      socket.off('sync-health-updated', handleSyncHealthUpdated);
+    };
+  }, [socket, canResync]);
+
+  const handleForceResync = useCallback(
+    (userId: string) => {
+      if (!socket || !canResync) return;
+      socket.emit('force-resync', { roomId, userId });
+    },
+    [socket, canResync, roomId]
+  );
+
+  return {
+    syncHealth: canResync ? syncHealth : {},
+    handleForceResync,
+  };
+}
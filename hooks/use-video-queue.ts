@@ -0,0 +1,59 @@
+'use client';
+
+import { useCallback } from 'react';
+import { useSocket } from '@/hooks/use-socket';
+import { User } from '@/types';
+import { hasPermission } from '@/lib/permissions';
+
+interface UseVideoQueueOptions {
+  roomId: string;
+  currentUser: User | null;
+}
+
+interface UseVideoQueueReturn {
+  handleEnqueueVideo: (videoUrl: string) => void;
+  handleRemoveQueueItem: (itemId: string) => void;
+  handleMoveQueueItem: (itemId: string, toIndex: number) => void;
+  handleSkipVideo: () => void;
+}
+
+export function useVideoQueue({ roomId, currentUser }: UseVideoQueueOptions): UseVideoQueueReturn {
+  const { socket } = useSocket();
+  const canSetVideo = hasPermission(currentUser, 'set-video');
+
+  const handleEnqueueVideo = useCallback(
+    (videoUrl: string) => {
+      if (!socket || !canSetVideo) return;
+      socket.emit('enqueue-video', { roomId, videoUrl });
+    },
+    [socket, canSetVideo, roomId]
+  );
+
+  const handleRemoveQueueItem = useCallback(
+    (itemId: string) => {
+      if (!socket || !canSetVideo) return;
+      socket.emit('dequeue-video', { roomId, itemId });
+    },
+    [socket, canSetVideo, roomId]
+  );
+
+  const handleMoveQueueItem = useCallback(
+    (itemId: string, toIndex: number) => {
+      if (!socket || !canSetVideo) return;
+      socket.emit('reorder-queue', { roomId, itemId, toIndex });
+    },
+    [socket, canSetVideo, roomId]
+  );
+
+  const handleSkipVideo = useCallback(() => {
+    if (!socket || !canSetVideo) return;
+    socket.emit('skip-video', { roomId });
+  }, [socket, canSetVideo, roomId]);
+
+  return {
+    handleEnqueueVideo,
+    handleRemoveQueueItem,
+    handleMoveQueueItem,
+    handleSkipVideo,
+  };
+}
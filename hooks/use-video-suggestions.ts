@@ -0,0 +1,79 @@
+'use client';
+
+import { useCallback, useEffect } from 'react';
+import { useSocket } from '@/hooks/use-socket';
+import { SuggestionResolvedResponse, User } from '@/types';
+import { hasPermission } from '@/lib/permissions';
+import { toast } from 'sonner';
+
+interface UseVideoSuggestionsOptions {
+  roomId: string;
+  currentUser: User | null;
+}
+
+interface UseVideoSuggestionsReturn {
+  handleSuggestVideo: (videoUrl: string) => void;
+  handleAcceptSuggestion: (suggestionId: string, mode: 'play' | 'queue') => void;
+  handleRejectSuggestion: (suggestionId: string, reason?: string) => void;
+}
+
+export function useVideoSuggestions({ roomId, currentUser }: UseVideoSuggestionsOptions): UseVideoSuggestionsReturn {
+  const { socket } = useSocket();
+  const canSetVideo = hasPermission(currentUser, 'set-video');
+
+  // Let guests know what happened to their suggestions
+  useEffect(() => {
+    if (!socket || !currentUser) return;
+
+    const handleSuggestionResolved = ({ suggestion, status, mode, reason, resolvedBy }: SuggestionResolvedResponse) => {
+      if (suggestion.suggestedBy !== currentUser.id) return;
+
+      if (status === 'accepted') {
+        toast.success('Suggestion accepted', {
+          description:
+            mode === 'play' ? `${resolvedBy} is playing your video now` : `${resolvedBy} added your video to the queue`,
+        });
+      } else {
+        toast.error('Suggestion declined', {
+          description: reason ? `${resolvedBy}: ${reason}` : `${resolvedBy} declined your suggestion`,
+        });
+      }
+    };
+
+    socket.on('suggestion-resolved', handleSuggestionResolved);
+
+    return () => {
+      socket.off('suggestion-resolved', handleSuggestionResolved);
+    };
+  }, [socket, currentUser]);
+
+  const handleSuggestVideo = useCallback(
+    (videoUrl: string) => {
+      if (!socket || !currentUser || canSetVideo) return;
+      socket.emit('suggest-video', { roomId, videoUrl });
+    },
+    [socket, currentUser, canSetVideo, roomId]
+  );
+
+  const handleAcceptSuggestion = useCallback(
+    (suggestionId: string, mode: 'play' | 'queue') => {
+      if (!socket || !canSetVideo) return;
+      socket.emit('accept-suggestion', { roomId, suggestionId, mode });
+    },
+    [socket, canSetVideo, roomId]
+  );
+
+  const handleRejectSuggestion = useCallback(
+    (suggestionId: string, reason?: string) => {
+      if (!socket || !canSetVideo) return;
+      socket.emit('reject-suggestion', { roomId, suggestionId, reason: reason?.trim() || undefined });
+    },
+    [socket, canSetVideo, roomId]
+  );
+
+  return {
+    handleSuggestVideo,
+    handleAcceptSuggestion,
+    handleRejectSuggestion,
+  };
+}
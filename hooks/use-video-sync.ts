@@ -1,15 +1,17 @@
 'use client';
 
-import { useRef, useCallback } from 'react';
+import { useRef, useCallback, useEffect } from 'react';
 import { useSocket } from '@/hooks/use-socket';
+import { useServerClock } from '@/hooks/use-server-clock';
 import { YouTubePlayerRef, YT_STATES } from '@/components/video/youtube-player';
 import { VideoPlayerRef } from '@/components/video/video-player';
 import { HLSPlayerRef } from '@/components/video/hls-player';
 import { calculateCurrentTime } from '@/lib/video-utils';
-import { Room, User } from '@/types';
+import { canControlPlayback, hasPermission } from '@/lib/permissions';
+import { PlayerState, PublicRoom, User, VideoState } from '@/types';
 
 interface UseVideoSyncOptions {
-  room: Room | null;
+  room: PublicRoom | null;
   currentUser: User | null;
   roomId: string;
   youtubePlayerRef: React.RefObject<YouTubePlayerRef | null>;
@@ -18,17 +20,27 @@ interface UseVideoSyncOptions {
 }
 
 interface UseVideoSyncReturn {
-  syncVideo: (targetTime: number, isPlaying: boolean | null, timestamp: number) => void;
+  syncVideo: (targetTime: number, isPlaying: boolean | null, timestamp: number, forceSeek?: boolean) => void;
   startSyncCheck: () => void;
   stopSyncCheck: () => void;
+  applyPlaybackRate: (playbackRate: number, currentTime: number, timestamp: number) => void;
+  handleSetPlaybackRate: (playbackRate: number) => void;
   handleVideoPlay: () => void;
   handleVideoPause: () => void;
   handleVideoSeek: () => void;
+  handleVideoEnded: () => void;
   handleYouTubeStateChange: (state: number) => void;
   handleSetVideo: (videoUrl: string) => void;
   handleVideoControlAttempt: () => void;
 }
 
+// Drift beyond this is corrected with a seek, anything smaller by adjusting playback speed
+const DRIFT_SEEK_THRESHOLD = 1.5;
+const DRIFT_NUDGE_THRESHOLD = 0.2;
+const MAX_RATE_NUDGE = 0.1;
+// Aim to absorb small drift within one sync-check interval
+const DRIFT_CATCH_UP_SECONDS = 5;
+
 export function useVideoSync({
   room,
   currentUser,
@@ -38,6 +50,7 @@ export function useVideoSync({
   hlsPlayerRef,
 }: UseVideoSyncOptions): UseVideoSyncReturn {
   const { socket } = useSocket();
+  const { getServerTime } = useServerClock();
 
   const lastSyncTimeRef = useRef<number>(0);
   const lastControlActionRef = useRef<{ timestamp: number; type: string; userId: string | null }>({
@@ -47,6 +60,19 @@ export function useVideoSync({
   });
   const lastPlayerTimeRef = useRef<number>(0);
   const syncCheckIntervalRef = useRef<NodeJS.Timeout | null>(null);
+  const rateNudgeTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  // Our best knowledge of the room clock, used to measure how far this client has drifted
+  const roomClockRef = useRef<Omit<VideoState, 'duration'>>({
+    currentTime: 0,
+    isPlaying: false,
+    lastUpdateTime: 0,
+    playbackRate: 1,
+  });
+
+  // Guests may drive playback directly when the room is open to everyone
+  const canControl = !!room && canControlPlayback(room, currentUser);
+  const canSetVideo = hasPermission(currentUser, 'set-video');
+  const canSetPlaybackRate = hasPermission(currentUser, 'control-playback');
 
   // Get current player based on video type
   const getCurrentPlayer = useCallback(() => {
@@ -59,15 +85,104 @@ export function useVideoSync({
         : videoPlayerRef.current;
   }, [room, youtubePlayerRef, videoPlayerRef, hlsPlayerRef]);
 
+  // Start from the room's stored state whenever the video changes
+  useEffect(() => {
+    if (!room) return;
+    roomClockRef.current = {
+      currentTime: room.videoState.currentTime,
+      isPlaying: room.videoState.isPlaying,
+      lastUpdateTime: room.videoState.lastUpdateTime,
+      playbackRate: room.videoState.playbackRate,
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [room?.videoUrl]);
+
+  const updateRoomClock = useCallback((currentTime: number, isPlaying: boolean | null, timestamp: number) => {
+    roomClockRef.current = {
+      ...roomClockRef.current,
+      currentTime,
+      isPlaying: isPlaying ?? roomClockRef.current.isPlaying,
+      lastUpdateTime: timestamp,
+    };
+  }, []);
+
+  const getPlayerState = useCallback((): PlayerState => {
+    if (!room) return 'idle';
+
+    if (room.videoType === 'youtube') {
+      const state = youtubePlayerRef.current?.getPlayerState();
+      if (state === undefined) return 'idle';
+      if (state === YT_STATES.BUFFERING) return 'buffering';
+      return state === YT_STATES.PLAYING ? 'playing' : 'paused';
+    }
+
+    const video = (room.videoType === 'm3u8' ? hlsPlayerRef.current : videoPlayerRef.current)?.getVideoElement();
+    if (!video) return 'idle';
+    if (video.paused) return 'paused';
+    return video.readyState < HTMLMediaElement.HAVE_FUTURE_DATA ? 'buffering' : 'playing';
+  }, [room, youtubePlayerRef, videoPlayerRef, hlsPlayerRef]);
+
+  // Drop any drift correction and play at the room's speed
+  const resetPlaybackRate = useCallback((player: YouTubePlayerRef | VideoPlayerRef | HLSPlayerRef) => {
+    if (rateNudgeTimeoutRef.current) {
+      clearTimeout(rateNudgeTimeoutRef.current);
+      rateNudgeTimeoutRef.current = null;
+    }
+    player.setPlaybackRate(roomClockRef.current.playbackRate);
+  }, []);
+
+  // Speed up or slow down briefly so small drift closes without a visible jump
+  const nudgePlaybackRate = useCallback(
+    (player: YouTubePlayerRef | VideoPlayerRef | HLSPlayerRef, drift: number) => {
+      if (!room) return;
+
+      const baseRate = roomClockRef.current.playbackRate;
+      const nudge = Math.min(MAX_RATE_NUDGE, Math.abs(drift) / DRIFT_CATCH_UP_SECONDS);
+      let rate = baseRate * (1 + Math.sign(drift) * nudge);
+
+      // YouTube only accepts the rates it advertises, usually in steps too coarse to nudge with
+      if (room.videoType === 'youtube') {
+        const availableRates = (player as YouTubePlayerRef).getAvailablePlaybackRates();
+        const closest = availableRates.reduce((a, b) => (Math.abs(b - rate) < Math.abs(a - rate) ? b : a), baseRate);
+        if (closest === baseRate || Math.abs(closest / baseRate - 1) > MAX_RATE_NUDGE) return;
+        rate = closest;
+      }
+
+      if (rateNudgeTimeoutRef.current) {
+        clearTimeout(rateNudgeTimeoutRef.current);
+      }
+
+      console.log(`🐢 Correcting ${drift.toFixed(2)}s drift at ${rate.toFixed(2)}x`);
+      player.setPlaybackRate(rate);
+
+      const duration = (Math.abs(drift) / Math.abs(rate - baseRate)) * 1000;
+      rateNudgeTimeoutRef.current = setTimeout(() => {
+        rateNudgeTimeoutRef.current = null;
+        player.setPlaybackRate(roomClockRef.current.playbackRate);
+      }, duration);
+    },
+    [room]
+  );
+
+  useEffect(() => {
+    return () => {
+      if (rateNudgeTimeoutRef.current) {
+        clearTimeout(rateNudgeTimeoutRef.current);
+      }
+    };
+  }, []);
+
   // Sync video playback
   const syncVideo = useCallback(
-    (targetTime: number, isPlaying: boolean | null, timestamp: number) => {
+    (targetTime: number, isPlaying: boolean | null, timestamp: number, forceSeek = false) => {
       if (!room || !currentUser) return;
 
+      updateRoomClock(targetTime, isPlaying, timestamp);
+
       // Don't sync if this user just performed the action (prevent feedback loop)
-      const now = Date.now();
+      const now = getServerTime();
       const timeSinceLastAction = now - lastControlActionRef.current.timestamp;
-      if (lastControlActionRef.current.userId === currentUser.id && timeSinceLastAction < 500) {
+      if (!forceSeek && lastControlActionRef.current.userId === currentUser.id && timeSinceLastAction < 500) {
         console.log('🔄 Skipping sync - user just performed this action');
         return;
       }
@@ -75,21 +190,33 @@ export function useVideoSync({
       const player = getCurrentPlayer();
       if (!player) return;
 
-      const adjustedTime = calculateCurrentTime({
-        currentTime: targetTime,
-        isPlaying: isPlaying ?? false,
-        lastUpdateTime: timestamp,
-      });
-
-      // Check if we need to sync
-      const currentTime = player.getCurrentTime();
-      const syncDiff = Math.abs(currentTime - adjustedTime);
-
-      if (syncDiff > 1.5) {
+      // Timestamps are server time, so project the position forward on the server clock
+      const adjustedTime = calculateCurrentTime(
+        {
+          currentTime: targetTime,
+          isPlaying: isPlaying ?? false,
+          lastUpdateTime: timestamp,
+          playbackRate: roomClockRef.current.playbackRate,
+        },
+        getServerTime()
+      );
+
+      // Positive drift means we are behind
+      const drift = adjustedTime - player.getCurrentTime();
+      const syncDiff = Math.abs(drift);
+      // Nothing can be nudged while paused, so line up exactly instead
+      const seekThreshold = isPlaying === false ? DRIFT_NUDGE_THRESHOLD : DRIFT_SEEK_THRESHOLD;
+
+      if (forceSeek || syncDiff > seekThreshold) {
         console.log(`🎬 Syncing video: ${syncDiff.toFixed(2)}s difference, seeking to ${adjustedTime.toFixed(2)}s`);
+        resetPlaybackRate(player);
         player.seekTo(adjustedTime);
         lastSyncTimeRef.current = now;
         lastPlayerTimeRef.current = adjustedTime;
+      } else if (isPlaying && syncDiff > DRIFT_NUDGE_THRESHOLD) {
+        nudgePlaybackRate(player, drift);
+      } else if (isPlaying === false || !rateNudgeTimeoutRef.current) {
+        resetPlaybackRate(player);
       }
 
       // Handle play/pause state
@@ -118,21 +245,26 @@ export function useVideoSync({
         }
       }
     },
-    [room, currentUser, getCurrentPlayer]
+    [room, currentUser, getCurrentPlayer, getServerTime, updateRoomClock, resetPlaybackRate, nudgePlaybackRate]
   );
 
-  // Periodic sync check for hosts
+  // Periodic sync check: hosts publish their position and everyone reports their sync health
   const startSyncCheck = useCallback(() => {
     if (syncCheckIntervalRef.current) {
       clearInterval(syncCheckIntervalRef.current);
     }
 
     syncCheckIntervalRef.current = setInterval(() => {
-      if (!room || !currentUser?.isHost || !socket) return;
+      if (!room || !currentUser || !socket) return;
 
       const player = getCurrentPlayer();
       if (!player) return;
 
+      // Players that loaded after the last speed change still need the room's speed
+      if (!rateNudgeTimeoutRef.current) {
+        resetPlaybackRate(player);
+      }
+
       const currentTime = player.getCurrentTime();
       const isPlaying =
         room.videoType === 'youtube'
@@ -141,15 +273,39 @@ export function useVideoSync({
             ? !hlsPlayerRef.current?.isPaused()
             : !videoPlayerRef.current?.isPaused();
 
-      console.log(`🔄 Periodic sync check: ${currentTime.toFixed(2)}s, playing: ${isPlaying}`);
-      socket.emit('sync-check', {
+      if (hasPermission(currentUser, 'control-playback')) {
+        const timestamp = getServerTime();
+        console.log(`🔄 Periodic sync check: ${currentTime.toFixed(2)}s, playing: ${isPlaying}`);
+        socket.emit('sync-check', {
+          roomId,
+          currentTime,
+          isPlaying,
+          timestamp,
+        });
+        updateRoomClock(currentTime, isPlaying, timestamp);
+      }
+
+      socket.emit('sync-health-report', {
         roomId,
-        currentTime,
-        isPlaying,
-        timestamp: Date.now(),
+        drift: calculateCurrentTime(roomClockRef.current, getServerTime()) - currentTime,
+        bufferedAhead: player.getBufferedAhead(),
+        playerState: getPlayerState(),
       });
     }, 5000);
-  }, [room, currentUser, socket, roomId, getCurrentPlayer, youtubePlayerRef, hlsPlayerRef, videoPlayerRef]);
+  }, [
+    room,
+    currentUser,
+    socket,
+    roomId,
+    getCurrentPlayer,
+    getServerTime,
+    updateRoomClock,
+    getPlayerState,
+    resetPlaybackRate,
+    youtubePlayerRef,
+    hlsPlayerRef,
+    videoPlayerRef,
+  ]);
 
   const stopSyncCheck = useCallback(() => {
     if (syncCheckIntervalRef.current) {
@@ -158,10 +314,33 @@ export function useVideoSync({
     }
   }, []);
 
+  // Switch to a new room speed, starting from the position the server rebased it at
+  const applyPlaybackRate = useCallback(
+    (playbackRate: number, currentTime: number, timestamp: number) => {
+      roomClockRef.current = { ...roomClockRef.current, playbackRate };
+
+      const player = getCurrentPlayer();
+      if (player) {
+        resetPlaybackRate(player);
+      }
+
+      syncVideo(currentTime, null, timestamp);
+    },
+    [getCurrentPlayer, resetPlaybackRate, syncVideo]
+  );
+
+  const handleSetPlaybackRate = useCallback(
+    (playbackRate: number) => {
+      if (!socket || !canSetPlaybackRate) return;
+      socket.emit('set-playback-rate', { roomId, playbackRate });
+    },
+    [socket, canSetPlaybackRate, roomId]
+  );
+
   // Video control handlers for hosts
   const handleVideoPlay = useCallback(() => {
-    console.log('handleVideoPlay called', { hasRoom: !!room, isHost: currentUser?.isHost, hasSocket: !!socket });
-    if (!room || !currentUser?.isHost || !socket) return;
+    console.log('handleVideoPlay called', { hasRoom: !!room, canControl, hasSocket: !!socket });
+    if (!room || !currentUser || !canControl || !socket) return;
 
     const player = getCurrentPlayer();
     if (!player) {
@@ -173,16 +352,17 @@ export function useVideoSync({
     console.log('Emitting play-video', { roomId, currentTime });
 
     lastControlActionRef.current = {
-      timestamp: Date.now(),
+      timestamp: getServerTime(),
       type: 'play',
       userId: currentUser.id,
     };
 
+    updateRoomClock(currentTime, true, getServerTime());
     socket.emit('play-video', { roomId, currentTime });
-  }, [room, currentUser, socket, roomId, getCurrentPlayer]);
+  }, [room, currentUser, canControl, socket, roomId, getCurrentPlayer, getServerTime, updateRoomClock]);
 
   const handleVideoPause = useCallback(() => {
-    if (!room || !currentUser?.isHost || !socket) return;
+    if (!room || !currentUser || !canControl || !socket) return;
 
     const player = getCurrentPlayer();
     if (!player) return;
@@ -190,16 +370,17 @@ export function useVideoSync({
     const currentTime = player.getCurrentTime();
 
     lastControlActionRef.current = {
-      timestamp: Date.now(),
+      timestamp: getServerTime(),
       type: 'pause',
       userId: currentUser.id,
     };
 
+    updateRoomClock(currentTime, false, getServerTime());
     socket.emit('pause-video', { roomId, currentTime });
-  }, [room, currentUser, socket, roomId, getCurrentPlayer]);
+  }, [room, currentUser, canControl, socket, roomId, getCurrentPlayer, getServerTime, updateRoomClock]);
 
   const handleVideoSeek = useCallback(() => {
-    if (!room || !currentUser?.isHost || !socket) return;
+    if (!room || !currentUser || !canControl || !socket) return;
 
     const player = getCurrentPlayer();
     if (!player) return;
@@ -207,17 +388,25 @@ export function useVideoSync({
     const currentTime = player.getCurrentTime();
 
     lastControlActionRef.current = {
-      timestamp: Date.now(),
+      timestamp: getServerTime(),
       type: 'seek',
       userId: currentUser.id,
     };
 
+    updateRoomClock(currentTime, null, getServerTime());
     socket.emit('seek-video', { roomId, currentTime });
-  }, [room, currentUser, socket, roomId, getCurrentPlayer]);
+  }, [room, currentUser, canControl, socket, roomId, getCurrentPlayer, getServerTime, updateRoomClock]);
+
+  // Let the server advance the queue once the current video finishes
+  const handleVideoEnded = useCallback(() => {
+    if (!room?.videoId || !canSetVideo || !socket) return;
+
+    socket.emit('video-ended', { roomId, videoId: room.videoId });
+  }, [room?.videoId, canSetVideo, socket, roomId]);
 
   const handleYouTubeStateChange = useCallback(
     (state: number) => {
-      if (!currentUser?.isHost || !socket) return;
+      if (!currentUser || !canControl || !socket) return;
 
       const player = youtubePlayerRef.current;
       if (!player) return;
@@ -230,52 +419,58 @@ export function useVideoSync({
         if (timeDiff > 1) {
           console.log(`🎯 Detected seek to ${currentTime.toFixed(2)}s before play`);
           lastControlActionRef.current = {
-            timestamp: Date.now(),
+            timestamp: getServerTime(),
             type: 'seek',
             userId: currentUser.id,
           };
+          updateRoomClock(currentTime, null, getServerTime());
           socket.emit('seek-video', { roomId, currentTime });
         }
 
         lastControlActionRef.current = {
-          timestamp: Date.now(),
+          timestamp: getServerTime(),
           type: 'play',
           userId: currentUser.id,
         };
         lastPlayerTimeRef.current = currentTime;
+        updateRoomClock(currentTime, true, getServerTime());
         socket.emit('play-video', { roomId, currentTime });
       } else if (state === YT_STATES.PAUSED) {
         lastControlActionRef.current = {
-          timestamp: Date.now(),
+          timestamp: getServerTime(),
           type: 'pause',
           userId: currentUser.id,
         };
         lastPlayerTimeRef.current = currentTime;
+        updateRoomClock(currentTime, false, getServerTime());
         socket.emit('pause-video', { roomId, currentTime });
+      } else if (state === YT_STATES.ENDED) {
+        handleVideoEnded();
       } else if (state === YT_STATES.BUFFERING) {
         // Check for potential seek during buffering
         const timeDiff = Math.abs(currentTime - lastPlayerTimeRef.current);
         if (timeDiff > 1) {
           console.log(`🎯 Detected seek to ${currentTime.toFixed(2)}s during buffering`);
           lastControlActionRef.current = {
-            timestamp: Date.now(),
+            timestamp: getServerTime(),
             type: 'seek',
             userId: currentUser.id,
           };
           lastPlayerTimeRef.current = currentTime;
+          updateRoomClock(currentTime, null, getServerTime());
           socket.emit('seek-video', { roomId, currentTime });
         }
       }
     },
-    [currentUser, socket, roomId, youtubePlayerRef]
+    [currentUser, canControl, socket, roomId, youtubePlayerRef, handleVideoEnded, getServerTime, updateRoomClock]
   );
 
   const handleSetVideo = useCallback(
     (videoUrl: string) => {
-      if (!socket || !currentUser?.isHost) return;
+      if (!socket || !canSetVideo) return;
       socket.emit('set-video', { roomId, videoUrl });
     },
-    [socket, currentUser?.isHost, roomId]
+    [socket, canSetVideo, roomId]
   );
 
   const handleVideoControlAttempt = useCallback(() => {
@@ -287,9 +482,12 @@ export function useVideoSync({
     syncVideo,
     startSyncCheck,
     stopSyncCheck,
+    applyPlaybackRate,
+    handleSetPlaybackRate,
     handleVideoPlay,
     handleVideoPause,
     handleVideoSeek,
+    handleVideoEnded,
     handleYouTubeStateChange,
     handleSetVideo,
     handleVideoControlAttempt,
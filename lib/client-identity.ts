@@ -0,0 +1,22 @@
+/**
+ * A random ID that identifies this browser to the server across visits and display names
+ */
+
+const STORAGE_KEY = 'client-id';
+
+export function getClientId(): string {
+  if (typeof window === 'undefined') return '';
+
+  try {
+    const existing = window.localStorage.getItem(STORAGE_KEY);
+    if (existing) return existing;
+
+    const clientId = window.crypto.randomUUID();
+    window.localStorage.setItem(STORAGE_KEY, clientId);
+    return clientId;
+  } catch (error) {
+    // Storage can be blocked, the server hands out a one-off ID in that case
+    console.error('Error reading client ID:', error);
+    return '';
+  }
+}
@@ -0,0 +1,77 @@
+import { AssignableRole, PublicRoom, User, UserRole } from '@/types';
+
+/**
+ * What each role in a room is allowed to do, shared by the server (which enforces it)
+ * and the client (which hides what the user can't use)
+ */
+
+export type Permission =
+  | 'manage-room'
+  | 'control-playback'
+  | 'set-video'
+  | 'kick'
+  | 'manage-chat'
+  | 'use-voice'
+  | 'upload-subtitles';
+
+export const ROLE_PERMISSIONS: Record<UserRole, readonly Permission[]> = {
+  owner: ['manage-room', 'control-playback', 'set-video', 'kick', 'manage-chat', 'use-voice', 'upload-subtitles'],
+  host: ['manage-room', 'control-playback', 'set-video', 'kick', 'manage-chat', 'use-voice', 'upload-subtitles'],
+  moderator: ['control-playback', 'kick', 'manage-chat', 'use-voice', 'upload-subtitles'],
+  member: ['use-voice', 'upload-subtitles'],
+  viewer: [],
+};
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  owner: 'Owner',
+  host: 'Host',
+  moderator: 'Moderator',
+  member: 'Member',
+  viewer: 'Viewer',
+};
+
+// Ownership comes from the host token, so it is never handed out
+export const ASSIGNABLE_ROLES: readonly AssignableRole[] = ['host', 'moderator', 'member', 'viewer'];
+
+// Higher outranks lower, nobody can act on someone of their own rank or above
+const ROLE_RANKS: Record<UserRole, number> = {
+  owner: 4,
+  host: 3,
+  moderator: 2,
+  member: 1,
+  viewer: 0,
+};
+
+export function hasPermission(user: User | null | undefined, permission: Permission): boolean {
+  return !!user && ROLE_PERMISSIONS[user.role].includes(permission);
+}
+
+// Owners and hosts run the room, and are the ones the room closes or hands over without
+export function isHost(user: User | null | undefined): boolean {
+  return hasPermission(user, 'manage-room');
+}
+
+export function outranks(user: User, target: User): boolean {
+  return ROLE_RANKS[user.role] > ROLE_RANKS[target.role];
+}
+
+// Sorts the highest role first
+export function compareByRole(a: User, b: User): number {
+  return ROLE_RANKS[b.role] - ROLE_RANKS[a.role];
+}
+
+// Roles can only be handed out up to your own, and only to people below you
+export function canAssignRole(user: User, target: User, role: UserRole): boolean {
+  return (
+    hasPermission(user, 'manage-room') &&
+    role !== 'owner' &&
+    outranks(user, target) &&
+    ROLE_RANKS[role] <= ROLE_RANKS[user.role]
+  );
+}
+
+// The room's control mode can open playback up to members, but viewers only ever watch
+export function canControlPlayback(room: PublicRoom, user: User | null | undefined): user is User {
+  if (!user) return false;
+  return hasPermission(user, 'control-playback') || (room.controlMode === 'everyone' && user.role !== 'viewer');
+}
@@ -0,0 +1,62 @@
+/**
+ * Utility functions for remembering persistent rooms across browser sessions
+ */
+
+export interface SavedRoom {
+  roomId: string;
+  hostName: string;
+  hostToken: string;
+  savedAt: number;
+}
+
+const STORAGE_KEY = 'saved-rooms';
+
+export const savedRoomsStorage = {
+  /**
+   * Get every saved room, most recently saved first
+   */
+  getRooms(): SavedRoom[] {
+    if (typeof window === 'undefined') return [];
+
+    try {
+      const data = window.localStorage.getItem(STORAGE_KEY);
+      if (!data) return [];
+
+      const parsed: SavedRoom[] = JSON.parse(data);
+      return parsed.sort((a, b) => b.savedAt - a.savedAt);
+    } catch (error) {
+      console.error('Error parsing saved rooms:', error);
+      window.localStorage.removeItem(STORAGE_KEY);
+      return [];
+    }
+  },
+
+  /**
+   * Get the saved owner credentials for a room
+   */
+  getRoom(roomId: string): SavedRoom | null {
+    return this.getRooms().find(room => room.roomId === roomId) ?? null;
+  },
+
+  /**
+   * Save owner credentials for a persistent room
+   */
+  saveRoom(data: Omit<SavedRoom, 'savedAt'>) {
+    if (typeof window === 'undefined') return;
+
+    const rooms = this.getRooms().filter(room => room.roomId !== data.roomId);
+    rooms.unshift({ ...data, savedAt: Date.now() });
+
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(rooms));
+  },
+
+  /**
+   * Forget a saved room
+   */
+  removeRoom(roomId: string) {
+    if (typeof window === 'undefined') return;
+
+    const rooms = this.getRooms().filter(room => room.roomId !== roomId);
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(rooms));
+  },
+};
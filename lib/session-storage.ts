@@ -15,6 +15,13 @@ interface JoinData {
   timestamp: number;
 }
 
+// Kept for the life of the tab, the server decides whether the token is still good
+interface RejoinData {
+  roomId: string;
+  userName: string;
+  rejoinToken: string;
+}
+
 const SESSION_TIMEOUT = 300000; // 5 minutes
 
 export const roomSessionStorage = {
@@ -100,6 +107,41 @@ export const roomSessionStorage = {
     }
   },
 
+  /**
+   * Store the token that lets this tab rejoin as the same user
+   */
+  setRejoinData(data: RejoinData) {
+    if (typeof window === 'undefined') return;
+    window.sessionStorage.setItem('rejoin-data', JSON.stringify(data));
+  },
+
+  /**
+   * Get rejoin data for a room
+   */
+  getRejoinData(roomId: string): RejoinData | null {
+    if (typeof window === 'undefined') return null;
+
+    try {
+      const data = window.sessionStorage.getItem('rejoin-data');
+      if (!data) return null;
+
+      const parsed: RejoinData = JSON.parse(data);
+      return parsed.roomId === roomId ? parsed : null;
+    } catch (error) {
+      console.error('Error parsing rejoin data:', error);
+      window.sessionStorage.removeItem('rejoin-data');
+      return null;
+    }
+  },
+
+  /**
+   * Clear rejoin data
+   */
+  clearRejoinData() {
+    if (typeof window === 'undefined') return;
+    window.sessionStorage.removeItem('rejoin-data');
+  },
+
   /**
    * Clear room creator data
    */
@@ -123,5 +165,6 @@ export const roomSessionStorage = {
     if (typeof window === 'undefined') return;
     window.sessionStorage.removeItem('room-creator');
     window.sessionStorage.removeItem('join-data');
+    window.sessionStorage.removeItem('rejoin-data');
   },
 };
@@ -53,19 +53,47 @@ export function parseVideoUrl(url: string): { type: VideoType; embedUrl: string
   }
 }
 
+// No 0/O, 1/I/L so codes survive being read out loud or copied by hand
+const ROOM_ID_ALPHABET = '23456789ABCDEFGHJKMNPQRSTUVWXYZ';
+const ROOM_ID_LENGTH = 6;
+
 export function generateRoomId(): string {
-  return Math.random().toString(36).substring(2, 8).toUpperCase();
+  // Bytes past the last full multiple of the alphabet size are thrown away so every character is equally likely
+  const limit = 256 - (256 % ROOM_ID_ALPHABET.length);
+  let roomId = '';
+
+  while (roomId.length < ROOM_ID_LENGTH) {
+    const bytes = crypto.getRandomValues(new Uint8Array(ROOM_ID_LENGTH * 2));
+    for (const byte of bytes) {
+      if (byte < limit && roomId.length < ROOM_ID_LENGTH) {
+        roomId += ROOM_ID_ALPHABET[byte % ROOM_ID_ALPHABET.length];
+      }
+    }
+  }
+
+  return roomId;
+}
+
+// Generated codes are uppercase and vanity names lowercase, so a typed or pasted ID can be fixed up either way
+export function normalizeRoomId(roomId: string): string {
+  const trimmed = roomId.trim();
+  return /^[a-zA-Z0-9]{6}$/.test(trimmed) ? trimmed.toUpperCase() : trimmed.toLowerCase();
 }
 
-export function calculateCurrentTime(videoState: {
-  currentTime: number;
-  isPlaying: boolean;
-  lastUpdateTime: number;
-}): number {
+// Video state timestamps are server time, so clients should pass their estimate of the server clock as `now`
+export function calculateCurrentTime(
+  videoState: {
+    currentTime: number;
+    isPlaying: boolean;
+    lastUpdateTime: number;
+    playbackRate?: number;
+  },
+  now: number = Date.now()
+): number {
   if (!videoState.isPlaying) {
     return videoState.currentTime;
   }
 
-  const timeDiff = (Date.now() - videoState.lastUpdateTime) / 1000;
-  return videoState.currentTime + timeDiff;
+  const timeDiff = (now - videoState.lastUpdateTime) / 1000;
+  return videoState.currentTime + timeDiff * (videoState.playbackRate ?? 1);
 }
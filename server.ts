@@ -1,11 +1,17 @@
 import { createServer } from 'http';
 import { parse } from 'url';
 import next from 'next';
-import { initSocketIO } from './server/socket';
+import { drainSocketIO, getSocketIOStatus, initSocketIO } from './server/socket';
+import { metricsRegistry } from './server/socket/metrics';
+import { redis } from './server/redis/client';
 
 const dev = process.env.NODE_ENV !== 'production';
 const hostname = 'localhost';
 const port = parseInt(process.env.PORT || '3000');
+// Past this, shutdown gives up on draining and exits anyway
+const SHUTDOWN_TIMEOUT_MS = 30000;
+// A Redis that takes longer than this to answer a ping counts as down
+const READY_PING_TIMEOUT_MS = 2000;
 
 const app = next({ dev, hostname, port });
 const handle = app.getRequestHandler();
@@ -13,7 +19,7 @@ const handle = app.getRequestHandler();
 app.prepare().then(() => {
   const httpServer = createServer(async (req, res) => {
     try {
-      if (req.url && (req.url === '/_health' || req.url.startsWith('/_health?'))) {
+      if (isPath(req.url, '/_health')) {
         res.statusCode = 200;
         res.setHeader('content-type', 'text/plain; charset=utf-8');
         res.setHeader('cache-control', 'no-store');
@@ -21,6 +27,24 @@ app.prepare().then(() => {
         return;
       }
 
+      // Unlike /_health, this fails while Redis is unreachable or the server is draining
+      if (isPath(req.url, '/_ready')) {
+        const readiness = await getReadiness();
+        res.statusCode = readiness.ready ? 200 : 503;
+        res.setHeader('content-type', 'application/json; charset=utf-8');
+        res.setHeader('cache-control', 'no-store');
+        res.end(JSON.stringify(readiness));
+        return;
+      }
+
+      if (isPath(req.url, '/_metrics')) {
+        res.statusCode = 200;
+        res.setHeader('content-type', metricsRegistry.contentType);
+        res.setHeader('cache-control', 'no-store');
+        res.end(await metricsRegistry.metrics());
+        return;
+      }
+
       const parsedUrl = parse(req.url!, true);
       await handle(req, res, parsedUrl);
     } catch (err) {
@@ -42,4 +66,49 @@ app.prepare().then(() => {
       console.log(`> Ready on http://${hostname}:${port}`);
       console.log(`> Socket.IO server running on path: /api/socket/io`);
     });
+
+  let isShuttingDown = false;
+  const shutdown = async (signal: string) => {
+    if (isShuttingDown) return;
+    isShuttingDown = true;
+    console.log(`> ${signal} received, draining connections...`);
+
+    setTimeout(() => {
+      console.error('> Shutdown timed out, exiting');
+      process.exit(1);
+    }, SHUTDOWN_TIMEOUT_MS).unref();
+
+    try {
+      // No new connections, but the ones already open stay up while clients move elsewhere
+      httpServer.close();
+      await drainSocketIO();
+      await redis.quit();
+      console.log('> Shutdown complete');
+      process.exit(0);
+    } catch (err) {
+      console.error('> Error during shutdown', err);
+      process.exit(1);
+    }
+  };
+
+  process.on('SIGTERM', () => shutdown('SIGTERM'));
+  process.on('SIGINT', () => shutdown('SIGINT'));
 });
+
+function isPath(url: string | undefined, path: string): boolean {
+  return url !== undefined && (url === path || url.startsWith(`${path}?`));
+}
+
+async function getReadiness() {
+  const redisReachable = await Promise.race([
+    redis.ping().then(() => true),
+    new Promise<boolean>(resolve => setTimeout(() => resolve(false), READY_PING_TIMEOUT_MS)),
+  ]).catch(() => false);
+  const socketio = getSocketIOStatus();
+
+  return {
+    ready: redisReachable && socketio.initialized && !socketio.draining,
+    redis: redisReachable ? 'ok' : 'unreachable',
+    socketio,
+  };
+}
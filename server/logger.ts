@@ -0,0 +1,83 @@
+import { AsyncLocalStorage } from 'async_hooks';
+
+type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+type LogFields = Record<string, unknown>;
+
+export interface LogContext {
+  requestId: string;
+  event: string;
+  socketId: string;
+  userId?: string;
+  roomId?: string;
+}
+
+export interface Logger {
+  debug: (msg: string, fields?: LogFields) => void;
+  info: (msg: string, fields?: LogFields) => void;
+  warn: (msg: string, fields?: LogFields) => void;
+  error: (msg: string, fields?: LogFields) => void;
+  child: (bindings: LogFields) => Logger;
+}
+
+const LEVELS: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+// LOG_LEVEL sets the quietest level that still gets written, LOG_FORMAT=pretty swaps JSON lines for readable ones
+const MIN_LEVEL: LogLevel =
+  process.env.LOG_LEVEL && process.env.LOG_LEVEL in LEVELS ? (process.env.LOG_LEVEL as LogLevel) : 'info';
+const PRETTY = process.env.LOG_FORMAT === 'pretty';
+
+// Credentials, and what people say in chat, never end up in the logs
+const REDACTED_KEYS = new Set(['hostToken', 'rejoinToken', 'password', 'passwordHash', 'message']);
+
+// Read lazily, since who a socket is can change partway through handling an event (joining a room, for one)
+const logContext = new AsyncLocalStorage<() => LogContext>();
+
+// Everything logged while fn runs, including from timers it starts, is tagged with this context
+export function runWithLogContext<T>(getContext: () => LogContext, fn: () => T): T {
+  return logContext.run(getContext, fn);
+}
+
+export function getLogContext(): LogContext | undefined {
+  return logContext.getStore()?.();
+}
+
+function redact(value: unknown): unknown {
+  if (value instanceof Error) {
+    return { name: value.name, message: value.message, stack: value.stack };
+  }
+  if (Array.isArray(value)) {
+    return value.map(redact);
+  }
+  if (value && typeof value === 'object' && !(value instanceof Date)) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, v]) => [key, REDACTED_KEYS.has(key) && v ? '[redacted]' : redact(v)])
+    );
+  }
+  return value;
+}
+
+function write(level: LogLevel, msg: string, fields: LogFields): void {
+  if (LEVELS[level] < LEVELS[MIN_LEVEL]) return;
+
+  const entry = { time: new Date().toISOString(), level, msg, ...getLogContext(), ...(redact(fields) as LogFields) };
+  const line = PRETTY
+    ? `${entry.time} ${level.toUpperCase().padEnd(5)} ${msg}${Object.entries(entry)
+        .filter(([key, v]) => !['time', 'level', 'msg'].includes(key) && v !== undefined)
+        .map(([key, v]) => ` ${key}=${typeof v === 'string' ? v : JSON.stringify(v)}`)
+        .join('')}`
+    : JSON.stringify(entry);
+
+  (LEVELS[level] >= LEVELS.warn ? process.stderr : process.stdout).write(`${line}\n`);
+}
+
+function createLogger(bindings: LogFields): Logger {
+  return {
+    debug: (msg, fields) => write('debug', msg, { ...bindings, ...fields }),
+    info: (msg, fields) => write('info', msg, { ...bindings, ...fields }),
+    warn: (msg, fields) => write('warn', msg, { ...bindings, ...fields }),
+    error: (msg, fields) => write('error', msg, { ...bindings, ...fields }),
+    child: childBindings => createLogger({ ...bindings, ...childBindings }),
+  };
+}
+
+export const logger = createLogger({});
@@ -1,14 +1,15 @@
 import Redis from 'ioredis';
+import { logger } from '../logger';
 
 // Redis client setup with Upstash support
 const createRedisClient = () => {
   const redisUrl = process.env.REDIS_URL || 'redis://localhost:6379';
 
-  console.log('Initializing Redis connection...');
+  logger.info('Initializing Redis connection');
 
   // For Upstash Redis, we need to configure TLS properly
   if (redisUrl.includes('upstash.io')) {
-    console.log('Detected Upstash Redis, configuring TLS...');
+    logger.info('Detected Upstash Redis, configuring TLS');
     const url = new URL(redisUrl);
     return new Redis({
       host: url.hostname,
@@ -28,7 +29,7 @@ const createRedisClient = () => {
   }
 
   // For local Redis
-  console.log('Using local Redis configuration...');
+  logger.info('Using local Redis configuration');
   return new Redis(redisUrl, {
     lazyConnect: true,
     keepAlive: 30000,
@@ -39,23 +40,23 @@ const redis = createRedisClient();
 
 // Add error handling for connection issues
 redis.on('error', error => {
-  console.error('Redis connection error:', error);
+  logger.error('Redis connection error', { error });
 });
 
 redis.on('connect', () => {
-  console.log('Redis connected successfully');
+  logger.info('Redis connected successfully');
 });
 
 redis.on('ready', () => {
-  console.log('Redis ready for commands');
+  logger.info('Redis ready for commands');
 });
 
 redis.on('close', () => {
-  console.log('Redis connection closed');
+  logger.info('Redis connection closed');
 });
 
 redis.on('reconnecting', () => {
-  console.log('Redis reconnecting...');
+  logger.info('Redis reconnecting');
 });
 
 export { redis };
@@ -0,0 +1,27 @@
+import { redis } from './client';
+
+// Hands back the members of a deadline set whose time has passed and takes them off it in one go,
+// so when several servers sweep at once each one is only dealt with by one of them
+const CLAIM_EXPIRED_SCRIPT = `
+local expired = redis.call('ZRANGEBYSCORE', KEYS[1], '-inf', ARGV[1], 'WITHSCORES', 'LIMIT', 0, tonumber(ARGV[2]))
+for i = 1, #expired, 2 do
+  redis.call('ZREM', KEYS[1], expired[i])
+end
+return expired
+`;
+
+export interface ExpiredDeadline {
+  member: string;
+  deadline: number;
+}
+
+// Deadline sets are sorted sets scored by when each member runs out, shared by every server
+export async function claimExpired(key: string, now: number, limit: number): Promise<ExpiredDeadline[]> {
+  const expired = (await redis.eval(CLAIM_EXPIRED_SCRIPT, 1, key, now, limit)) as string[];
+
+  const deadlines: ExpiredDeadline[] = [];
+  for (let i = 0; i < expired.length; i += 2) {
+    deadlines.push({ member: expired[i], deadline: parseInt(expired[i + 1], 10) });
+  }
+  return deadlines;
+}
@@ -0,0 +1,41 @@
+import { redis } from '../client';
+import { claimExpired } from '../deadlines';
+
+const AWAY_SEATS_KEY = 'away-seats';
+
+export interface AwaySeat {
+  roomId: string;
+  userId: string;
+  awayUntil: number;
+}
+
+// Every seat being held for someone who dropped, across all rooms and servers, ordered by when it runs out
+export class AwaySeatRepository {
+  private static instance: AwaySeatRepository;
+
+  static getInstance(): AwaySeatRepository {
+    if (!AwaySeatRepository.instance) {
+      AwaySeatRepository.instance = new AwaySeatRepository();
+    }
+    return AwaySeatRepository.instance;
+  }
+
+  async holdSeat(roomId: string, userId: string, awayUntil: number): Promise<void> {
+    await redis.zadd(AWAY_SEATS_KEY, awayUntil, `${roomId}:${userId}`);
+  }
+
+  async releaseSeat(roomId: string, userId: string): Promise<void> {
+    await redis.zrem(AWAY_SEATS_KEY, `${roomId}:${userId}`);
+  }
+
+  // Each expired seat is handed to only one caller, however many servers are sweeping
+  async claimExpired(now: number, limit = 100): Promise<AwaySeat[]> {
+    const expired = await claimExpired(AWAY_SEATS_KEY, now, limit);
+
+    // Room IDs can't contain a colon, user IDs are UUIDs
+    return expired.map(({ member, deadline }) => {
+      const separator = member.indexOf(':');
+      return { roomId: member.slice(0, separator), userId: member.slice(separator + 1), awayUntil: deadline };
+    });
+  }
+}
@@ -0,0 +1,77 @@
+import { RoomBan } from '@/types';
+import { redis } from '../client';
+
+// Bans are keyed by client identity, which hosts never get to see
+interface StoredBan extends RoomBan {
+  clientId: string;
+}
+
+// A room that never expires has a TTL of -1, and one that is already gone -2
+const ADD_BAN_SCRIPT = `
+local ttl = redis.call('PTTL', KEYS[2])
+if ttl == -2 then
+  return 0
+end
+redis.call('HSET', KEYS[1], ARGV[1], ARGV[2])
+if ttl == -1 then
+  redis.call('PERSIST', KEYS[1])
+else
+  redis.call('PEXPIRE', KEYS[1], ttl)
+end
+return 1
+`;
+
+export class BanRepository {
+  private static instance: BanRepository;
+
+  static getInstance(): BanRepository {
+    if (!BanRepository.instance) {
+      BanRepository.instance = new BanRepository();
+    }
+    return BanRepository.instance;
+  }
+
+  // Bans last as long as the room does, so persistent rooms keep theirs. This starts the ban list
+  // off on the room's own expiry, and every later change to the room carries it along
+  async addBan(roomId: string, clientId: string, ban: RoomBan): Promise<void> {
+    const storedBan: StoredBan = { ...ban, clientId };
+    await redis.eval(ADD_BAN_SCRIPT, 2, `bans:${roomId}`, `room:${roomId}`, clientId, JSON.stringify(storedBan));
+  }
+
+  // Returns the ban that currently keeps this client out, if any
+  async getActiveBan(roomId: string, clientId: string): Promise<RoomBan | null> {
+    const data = await redis.hget(`bans:${roomId}`, clientId);
+    if (!data) return null;
+
+    const ban = toRoomBan(data);
+    if (ban.expiresAt !== null && ban.expiresAt <= Date.now()) {
+      await redis.hdel(`bans:${roomId}`, clientId);
+      return null;
+    }
+    return ban;
+  }
+
+  async getBans(roomId: string): Promise<RoomBan[]> {
+    const now = Date.now();
+    const bans = await redis.hgetall(`bans:${roomId}`);
+    return Object.values(bans)
+      .map(toRoomBan)
+      .filter(ban => ban.expiresAt === null || ban.expiresAt > now)
+      .sort((a, b) => b.bannedAt - a.bannedAt);
+  }
+
+  async removeBan(roomId: string, banId: string): Promise<boolean> {
+    const key = `bans:${roomId}`;
+    const bans = await redis.hgetall(key);
+    const entry = Object.entries(bans).find(([, data]) => (JSON.parse(data) as StoredBan).id === banId);
+    if (!entry) return false;
+
+    await redis.hdel(key, entry[0]);
+    return true;
+  }
+}
+
+function toRoomBan(data: string): RoomBan {
+  const { clientId: _clientId, ...ban } = JSON.parse(data) as StoredBan;
+  return ban;
+}
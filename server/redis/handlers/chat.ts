@@ -11,11 +11,15 @@ export class ChatRepository {
     return ChatRepository.instance;
   }
 
-  async addChatMessage(roomId: string, message: ChatMessage): Promise<void> {
+  async addChatMessage(roomId: string, message: ChatMessage, persistent: boolean = false): Promise<void> {
     const key = `chat:${roomId}`;
     await redis.lpush(key, JSON.stringify(message));
     await redis.ltrim(key, 0, 19); // Keep only last 20 messages
-    await redis.expire(key, 86400); // 24 hours TTL
+    if (persistent) {
+      await redis.persist(key); // Kept for as long as the room is
+    } else {
+      await redis.expire(key, 86400); // 24 hours TTL
+    }
   }
 
   async getChatMessages(roomId: string, limit: number = 20): Promise<ChatMessage[]> {
@@ -28,4 +32,14 @@ export class ChatRepository {
       })
       .reverse(); // Reverse to get chronological order
   }
+
+  async deleteMessage(roomId: string, messageId: string): Promise<boolean> {
+    const key = `chat:${roomId}`;
+    const messages = await redis.lrange(key, 0, -1);
+    const raw = messages.find(msg => (JSON.parse(msg) as ChatMessage).id === messageId);
+    if (!raw) return false;
+
+    await redis.lrem(key, 1, raw);
+    return true;
+  }
 }
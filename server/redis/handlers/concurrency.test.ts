@@ -0,0 +1,231 @@
+import { afterAll, describe, expect, it } from 'vitest';
+import { v4 as uuidv4 } from 'uuid';
+import { redis } from '@/server/redis/client';
+import { PlaybackVote, QueueItem, Room } from '@/types';
+import { RoomRepository } from './room';
+import { VoteRepository } from './vote';
+import { makeRoom, makeUser } from '@/test/factories';
+import { isRedisAvailable } from '@/test/redis';
+
+const rooms = RoomRepository.getInstance();
+const votes = VoteRepository.getInstance();
+
+const CONCURRENT_WRITERS = 8;
+// A full room all reporting at once, well past how many times any one of them retries
+const BURST_WRITERS = 40;
+
+function makeQueueItem(videoUrl: string): QueueItem {
+  return {
+    id: uuidv4(),
+    videoUrl,
+    videoType: 'mp4',
+    addedBy: uuidv4(),
+    addedByName: 'Queuer',
+    addedAt: new Date(),
+  };
+}
+
+function makeVote(room: Room, startedBy = room.users[0]): PlaybackVote {
+  return {
+    id: uuidv4(),
+    action: 'pause',
+    voterIds: [startedBy.id],
+    required: CONCURRENT_WRITERS + 1,
+    startedBy: startedBy.id,
+    startedByName: startedBy.name,
+    expiresAt: Date.now() + 30000,
+  };
+}
+
+describe.skipIf(!(await isRedisAvailable()))('concurrent room updates', () => {
+  const createdIds: string[] = [];
+
+  async function createRoom(overrides: Partial<Room> = {}): Promise<Room> {
+    const room = makeRoom(overrides);
+    await rooms.createRoom(room);
+    createdIds.push(room.id);
+    return room;
+  }
+
+  afterAll(async () => {
+    await Promise.all(createdIds.map(id => rooms.deleteRoom(id)));
+    await redis.quit();
+  });
+
+  it('keeps every user who joins at the same time', async () => {
+    const room = await createRoom();
+    const joiners = Array.from({ length: CONCURRENT_WRITERS }, () => makeUser());
+
+    const added = await Promise.all(joiners.map(user => rooms.addUserToRoom(room.id, user)));
+
+    expect(added.every(Boolean)).toBe(true);
+    const stored = await rooms.getRoom(room.id);
+    expect(stored?.users.map(u => u.id).sort()).toEqual([room.users[0], ...joiners].map(u => u.id).sort());
+  });
+
+  it('lands every buffering report when a full room sends them at once', async () => {
+    const viewers = Array.from({ length: BURST_WRITERS }, () => makeUser());
+    const room = await createRoom({ users: viewers });
+
+    await Promise.all(viewers.map(viewer => rooms.setUserBuffering(room.id, viewer.id, true)));
+
+    const stored = await rooms.getRoom(room.id);
+    expect(stored?.bufferingUserIds.sort()).toEqual(viewers.map(v => v.id).sort());
+  });
+
+  it('lets only one of two people joining under the same name in', async () => {
+    const room = await createRoom();
+    const added = await Promise.all([
+      rooms.addUserToRoom(room.id, makeUser({ name: 'Same Name' })),
+      rooms.addUserToRoom(room.id, makeUser({ name: 'Same Name' })),
+    ]);
+
+    expect(added.filter(Boolean)).toHaveLength(1);
+    expect((await rooms.getRoom(room.id))?.users.filter(u => u.name === 'Same Name')).toHaveLength(1);
+  });
+
+  it('keeps both halves of two video state changes landing together', async () => {
+    const room = await createRoom();
+
+    await Promise.all([
+      rooms.updateVideoState(room.id, { currentTime: 42, lastUpdateTime: Date.now() }),
+      rooms.updateVideoState(room.id, () => ({ playbackRate: 1.5 })),
+      rooms.updateVideoState(room.id, { duration: 600 }),
+    ]);
+
+    const { videoState } = (await rooms.getRoom(room.id))!;
+    expect(videoState.currentTime).toBe(42);
+    expect(videoState.playbackRate).toBe(1.5);
+    expect(videoState.duration).toBe(600);
+  });
+
+  it('works changes out from the latest video state rather than the one first read', async () => {
+    const room = await createRoom();
+
+    await Promise.all(
+      Array.from({ length: CONCURRENT_WRITERS }, () =>
+        rooms.updateVideoState(room.id, current => ({ currentTime: current.currentTime + 1 }))
+      )
+    );
+
+    expect((await rooms.getRoom(room.id))?.videoState.currentTime).toBe(CONCURRENT_WRITERS);
+  });
+
+  it('counts every host vote cast at the same time', async () => {
+    const voters = Array.from({ length: CONCURRENT_WRITERS }, () => makeUser());
+    const room = await createRoom({
+      users: voters,
+      hostElection: { endsAt: Date.now() + 30000, votes: {} },
+    });
+
+    await Promise.all(voters.map((voter, i) => rooms.castHostVote(room.id, voter.id, voters[(i + 1) % 2].id)));
+
+    expect(Object.keys((await rooms.getRoom(room.id))!.hostElection!.votes)).toHaveLength(CONCURRENT_WRITERS);
+  });
+
+  it('does not bring back an election that has already finished', async () => {
+    const [voter, candidate] = [makeUser(), makeUser()];
+    const room = await createRoom({
+      users: [voter, candidate],
+      hostElection: { endsAt: Date.now() + 30000, votes: {} },
+    });
+
+    const [, cast] = await Promise.all([
+      rooms.setHostElection(room.id, null),
+      rooms.castHostVote(room.id, voter.id, candidate.id),
+    ]);
+
+    expect(cast).toBeNull();
+    expect((await rooms.getRoom(room.id))?.hostElection).toBeNull();
+  });
+
+  it('moves the queue on once when several hosts report the same video ending', async () => {
+    const videoId = uuidv4();
+    const room = await createRoom({
+      videoUrl: 'https://example.com/first.mp4',
+      videoId,
+      videoType: 'mp4',
+      queue: [makeQueueItem('https://example.com/second.mp4'), makeQueueItem('https://example.com/third.mp4')],
+    });
+
+    const results = await Promise.all(
+      Array.from({ length: CONCURRENT_WRITERS }, () => rooms.advanceQueue(room.id, videoId))
+    );
+
+    expect(results.filter(Boolean)).toHaveLength(1);
+    const stored = (await rooms.getRoom(room.id))!;
+    expect(stored.videoUrl).toBe('https://example.com/second.mp4');
+    expect(stored.queue.map(item => item.videoUrl)).toEqual(['https://example.com/third.mp4']);
+  });
+
+  it('does not skip a queued copy of the video that just ended when the ending is reported late', async () => {
+    const videoId = uuidv4();
+    const again = makeQueueItem('https://example.com/same.mp4');
+    const room = await createRoom({
+      videoUrl: 'https://example.com/same.mp4',
+      videoId,
+      videoType: 'mp4',
+      queue: [again, makeQueueItem('https://example.com/other.mp4')],
+    });
+
+    const results = await Promise.all(
+      Array.from({ length: CONCURRENT_WRITERS }, () => rooms.advanceQueue(room.id, videoId))
+    );
+    const late = await rooms.advanceQueue(room.id, videoId);
+
+    expect(results.filter(Boolean)).toHaveLength(1);
+    expect(late).toBeNull();
+    const stored = (await rooms.getRoom(room.id))!;
+    expect(stored.videoId).toBe(again.id);
+    expect(stored.queue.map(item => item.videoUrl)).toEqual(['https://example.com/other.mp4']);
+  });
+
+  it('starts the queue once when videos are added to an empty room at the same time', async () => {
+    const room = await createRoom();
+    await rooms.enqueueVideo(room.id, makeQueueItem('https://example.com/a.mp4'));
+    await rooms.enqueueVideo(room.id, makeQueueItem('https://example.com/b.mp4'));
+
+    const results = await Promise.all([rooms.advanceQueue(room.id, undefined), rooms.advanceQueue(room.id, undefined)]);
+
+    expect(results.filter(Boolean)).toHaveLength(1);
+    expect((await rooms.getRoom(room.id))?.queue).toHaveLength(1);
+  });
+
+  it('opens one playback vote when several people open it at once, and counts them all', async () => {
+    const voters = Array.from({ length: CONCURRENT_WRITERS }, () => makeUser());
+    const room = await createRoom({ users: voters });
+
+    const results = await Promise.all(
+      voters.map(voter => votes.castVote(room.id, makeVote(room, voter), voter.id, CONCURRENT_WRITERS + 1))
+    );
+
+    expect(results.filter(result => result.status === 'started')).toHaveLength(1);
+    const vote = await votes.getVote(room.id, 'pause');
+    expect(vote?.voterIds.sort()).toEqual(voters.map(u => u.id).sort());
+    expect(new Set(results.map(result => result.status !== 'duplicate' && result.vote.id))).toEqual(
+      new Set([vote?.id])
+    );
+  });
+
+  it('passes a playback vote exactly once, with everyone who voted for it', async () => {
+    const voters = Array.from({ length: CONCURRENT_WRITERS }, () => makeUser());
+    const room = await createRoom({ users: voters });
+    const vote = makeVote(room);
+
+    const results = await Promise.all(voters.map(voter => votes.castVote(room.id, vote, voter.id, CONCURRENT_WRITERS)));
+
+    const passed = results.filter(result => result.status !== 'duplicate' && result.passed);
+    expect(passed).toHaveLength(1);
+    expect(passed[0].status !== 'duplicate' && passed[0].vote.voterIds).toHaveLength(CONCURRENT_WRITERS);
+    expect(await votes.getVote(room.id, 'pause')).toBeNull();
+  });
+
+  it('turns away a second vote from the same person', async () => {
+    const room = await createRoom();
+    const vote = makeVote(room);
+    const voterId = room.users[0].id;
+
+    await votes.castVote(room.id, vote, voterId, 2);
+    expect((await votes.castVote(room.id, vote, voterId, 2)).status).toBe('duplicate');
+  });
+});
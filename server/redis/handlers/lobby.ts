@@ -0,0 +1,51 @@
+import { LobbyRequest } from '@/types';
+import { redis } from '../client';
+
+// Requests expire on their own, so the whole lobby can go once the newest one has
+const LOBBY_TTL_SECONDS = 600;
+
+export class LobbyRepository {
+  private static instance: LobbyRepository;
+
+  static getInstance(): LobbyRepository {
+    if (!LobbyRepository.instance) {
+      LobbyRepository.instance = new LobbyRepository();
+    }
+    return LobbyRepository.instance;
+  }
+
+  async saveRequest(roomId: string, request: LobbyRequest): Promise<void> {
+    const key = `lobby:${roomId}`;
+    await redis.hset(key, request.id, JSON.stringify(request));
+    await redis.expire(key, LOBBY_TTL_SECONDS);
+  }
+
+  async getRequest(roomId: string, requestId: string): Promise<LobbyRequest | null> {
+    const request = await redis.hget(`lobby:${roomId}`, requestId);
+    if (!request) return null;
+
+    const parsed = JSON.parse(request) as LobbyRequest;
+    return parsed.expiresAt > Date.now() ? parsed : null;
+  }
+
+  async getRequests(roomId: string): Promise<LobbyRequest[]> {
+    const requests = await redis.hgetall(`lobby:${roomId}`);
+    return Object.values(requests)
+      .map(request => JSON.parse(request) as LobbyRequest)
+      .sort((a, b) => a.requestedAt - b.requestedAt);
+  }
+
+  async removeRequest(roomId: string, requestId: string): Promise<void> {
+    await redis.hdel(`lobby:${roomId}`, requestId);
+  }
+
+  // Drops requests nobody answered in time and returns them so their sockets can be told
+  async removeExpiredRequests(roomId: string): Promise<LobbyRequest[]> {
+    const now = Date.now();
+    const expired = (await this.getRequests(roomId)).filter(request => request.expiresAt <= now);
+    if (expired.length > 0) {
+      await redis.hdel(`lobby:${roomId}`, ...expired.map(request => request.id));
+    }
+    return expired;
+  }
+}
@@ -0,0 +1,49 @@
+import { redis } from '../client';
+
+// Failed guesses are forgotten after this long, which is also how long a locked out client waits
+const PASSWORD_ATTEMPT_WINDOW_SECONDS = 300;
+
+export interface PasswordFailures {
+  // From this address, whatever browser or client ID it claims
+  address: number;
+  // From everyone, so spreading guesses over many addresses doesn't help either
+  room: number;
+}
+
+export class PasswordAttemptRepository {
+  private static instance: PasswordAttemptRepository;
+
+  static getInstance(): PasswordAttemptRepository {
+    if (!PasswordAttemptRepository.instance) {
+      PasswordAttemptRepository.instance = new PasswordAttemptRepository();
+    }
+    return PasswordAttemptRepository.instance;
+  }
+
+  async getFailures(roomId: string, address: string): Promise<PasswordFailures> {
+    const [addressFailures, roomFailures] = await redis.mget(
+      `password-attempts:${roomId}:${address}`,
+      `password-attempts:${roomId}`
+    );
+    return {
+      address: addressFailures ? parseInt(addressFailures, 10) : 0,
+      room: roomFailures ? parseInt(roomFailures, 10) : 0,
+    };
+  }
+
+  // Each window starts with its first failure rather than sliding with every guess
+  async recordFailure(roomId: string, address: string): Promise<void> {
+    const addressKey = `password-attempts:${roomId}:${address}`;
+    const roomKey = `password-attempts:${roomId}`;
+    const results = await redis.multi().incr(addressKey).incr(roomKey).exec();
+    const [addressFailures, roomFailures] = (results ?? []).map(([, failures]) => failures);
+
+    if (addressFailures === 1) await redis.expire(addressKey, PASSWORD_ATTEMPT_WINDOW_SECONDS);
+    if (roomFailures === 1) await redis.expire(roomKey, PASSWORD_ATTEMPT_WINDOW_SECONDS);
+  }
+
+  // Only the address's own count, guesses from elsewhere still count against the room
+  async clearFailures(roomId: string, address: string): Promise<void> {
+    await redis.del(`password-attempts:${roomId}:${address}`);
+  }
+}
@@ -0,0 +1,64 @@
+import { redis } from '../client';
+
+// Token buckets kept in Redis so every server draws from the same ones. Uses Redis' clock rather than
+// each server's, and forgets a bucket once it would have refilled anyway. An event has to get past every
+// bucket it is checked against, and only spends from them when it does
+const TAKE_TOKEN_SCRIPT = `
+local time = redis.call('TIME')
+local now = tonumber(time[1]) * 1000 + math.floor(tonumber(time[2]) / 1000)
+
+local buckets = {}
+local retryAfterMs = 0
+for i, key in ipairs(KEYS) do
+  local capacity = tonumber(ARGV[i * 2 - 1])
+  local refillPerMs = tonumber(ARGV[i * 2]) / 1000
+
+  local bucket = redis.call('HMGET', key, 'tokens', 'updatedAt')
+  local tokens = tonumber(bucket[1]) or capacity
+  local updatedAt = tonumber(bucket[2]) or now
+  tokens = math.min(capacity, tokens + math.max(0, now - updatedAt) * refillPerMs)
+
+  if tokens < 1 then
+    retryAfterMs = math.max(retryAfterMs, math.ceil((1 - tokens) / refillPerMs))
+  end
+  buckets[i] = { capacity = capacity, refillPerMs = refillPerMs, tokens = tokens }
+end
+
+local allowed = retryAfterMs == 0 and 1 or 0
+for i, key in ipairs(KEYS) do
+  local bucket = buckets[i]
+  redis.call('HSET', key, 'tokens', tostring(bucket.tokens - allowed), 'updatedAt', now)
+  redis.call('PEXPIRE', key, math.ceil(bucket.capacity / bucket.refillPerMs))
+end
+return { allowed, retryAfterMs }
+`;
+
+export interface RateLimitBucket {
+  key: string;
+  // How many can be sent back to back
+  capacity: number;
+  // How quickly that allowance comes back
+  refillPerSecond: number;
+}
+
+export class RateLimitRepository {
+  private static instance: RateLimitRepository;
+
+  static getInstance(): RateLimitRepository {
+    if (!RateLimitRepository.instance) {
+      RateLimitRepository.instance = new RateLimitRepository();
+    }
+    return RateLimitRepository.instance;
+  }
+
+  // Spends a token from each bucket if they all have one, otherwise says how long until they do
+  async take(buckets: RateLimitBucket[]): Promise<{ allowed: boolean; retryAfterMs: number }> {
+    const [allowed, retryAfterMs] = (await redis.eval(
+      TAKE_TOKEN_SCRIPT,
+      buckets.length,
+      ...buckets.map(bucket => `rate-limit:${bucket.key}`),
+      ...buckets.flatMap(bucket => [bucket.capacity, bucket.refillPerSecond])
+    )) as [number, number];
+    return { allowed: allowed === 1, retryAfterMs };
+  }
+}
@@ -0,0 +1,51 @@
+import { User } from '@/types';
+import { redis } from '../client';
+
+// What someone had when their connection dropped, so a rejoin token can hand it back
+export interface Departure {
+  user: User;
+  inVoice: boolean;
+  departedAt: number;
+}
+
+export class RejoinRepository {
+  private static instance: RejoinRepository;
+
+  static getInstance(): RejoinRepository {
+    if (!RejoinRepository.instance) {
+      RejoinRepository.instance = new RejoinRepository();
+    }
+    return RejoinRepository.instance;
+  }
+
+  async saveDeparture(roomId: string, departure: Departure): Promise<void> {
+    const key = `departures:${roomId}`;
+    await redis.hset(key, departure.user.id, JSON.stringify(departure));
+    await redis.expire(key, 86400); // 24 hours TTL, same as a rejoin token
+  }
+
+  async getDeparture(roomId: string, userId: string): Promise<Departure | null> {
+    const data = await redis.hget(`departures:${roomId}`, userId);
+    if (!data) return null;
+
+    const departure = JSON.parse(data) as Departure;
+    departure.user.joinedAt = new Date(departure.user.joinedAt);
+    return departure;
+  }
+
+  // Keeps what someone gets back in line with changes made while they were gone, such as a new role
+  async updateDeparture(roomId: string, userId: string, changes: Partial<Omit<User, 'id'>>): Promise<void> {
+    const departure = await this.getDeparture(roomId, userId);
+    if (!departure) return;
+
+    await redis.hset(
+      `departures:${roomId}`,
+      userId,
+      JSON.stringify({ ...departure, user: { ...departure.user, ...changes } })
+    );
+  }
+
+  async removeDeparture(roomId: string, userId: string): Promise<void> {
+    await redis.hdel(`departures:${roomId}`, userId);
+  }
+}
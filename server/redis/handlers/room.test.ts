@@ -0,0 +1,63 @@
+import { afterAll, describe, expect, it } from 'vitest';
+import { redis } from '@/server/redis/client';
+import { RoomRepository } from './room';
+import { makeRoom } from '@/test/factories';
+import { isRedisAvailable } from '@/test/redis';
+
+const rooms = RoomRepository.getInstance();
+
+describe.skipIf(!(await isRedisAvailable()))('RoomRepository room creation', () => {
+  const createdIds: string[] = [];
+  const track = <T extends { id: string } | null>(room: T): T => {
+    if (room) createdIds.push(room.id);
+    return room;
+  };
+
+  afterAll(async () => {
+    await Promise.all(createdIds.map(id => rooms.deleteRoom(id)));
+    await redis.quit();
+  });
+
+  it('never overwrites a room that already holds the ID', async () => {
+    const existing = track(makeRoom());
+    expect(await rooms.createRoom(existing)).toBe(true);
+
+    const intruder = makeRoom({ id: existing.id });
+    expect(await rooms.createRoom(intruder)).toBe(false);
+
+    const stored = await rooms.getRoom(existing.id);
+    expect(stored?.hostId).toBe(existing.hostId);
+    expect(stored?.hostToken).toBe(existing.hostToken);
+  });
+
+  it('refuses a requested name that is already taken', async () => {
+    const slug = `taken-${Date.now()}`;
+    const existing = track(makeRoom({ id: slug }));
+    await rooms.createRoom(existing);
+
+    const { id: _id, ...second } = makeRoom();
+    expect(await rooms.allocateRoom(second, slug)).toBeNull();
+    expect((await rooms.getRoom(slug))?.hostId).toBe(existing.hostId);
+  });
+
+  it('lets only one of two hosts racing for the same name have it', async () => {
+    const slug = `race-${Date.now()}`;
+    const { id: _first, ...first } = makeRoom();
+    const { id: _second, ...second } = makeRoom();
+
+    const results = await Promise.all([rooms.allocateRoom(first, slug), rooms.allocateRoom(second, slug)]);
+    const winners = results.filter(room => room !== null);
+    winners.forEach(track);
+
+    expect(winners).toHaveLength(1);
+    expect((await rooms.getRoom(slug))?.hostId).toBe(winners[0]!.hostId);
+  });
+
+  it('gives a room without a requested name a fresh code', async () => {
+    const { id: _id, ...room } = makeRoom();
+    const allocated = track(await rooms.allocateRoom(room));
+
+    expect(allocated?.id).toMatch(/^[A-Z0-9]{6}$/);
+    expect((await rooms.getRoom(allocated!.id))?.hostId).toBe(room.hostId);
+  });
+});
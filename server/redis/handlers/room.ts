@@ -1,5 +1,57 @@
-import { Room, User, VideoState } from '@/types';
+import {
+  ControlMode,
+  DEFAULT_VOTE_SETTINGS,
+  HostElection,
+  HostSuccession,
+  QueueItem,
+  VoteSettings,
+  Room,
+  User,
+  UserRole,
+  VideoState,
+  VideoSuggestion,
+} from '@/types';
+import { calculateCurrentTime, generateRoomId } from '@/lib/video-utils';
 import { redis } from '../client';
+import { claimExpired } from '../deadlines';
+import { logger } from '@/server/logger';
+
+// With ~887 million possible codes a collision is rare, so a handful of retries is plenty
+const MAX_ROOM_ID_ATTEMPTS = 5;
+
+// Each retry means someone else saved the room first, so this only runs out under a flood of changes
+const MAX_MUTATION_ATTEMPTS = 10;
+// Retries wait a random time up to a limit that doubles each round, so a room full of people reporting
+// at once spreads out instead of colliding again straight away
+const MUTATION_BACKOFF_MS = 5;
+const MAX_MUTATION_BACKOFF_MS = 250;
+
+// Writes the room only if it still holds what we read. Persistent rooms never expire (TTL 0),
+// everything else is gone a day after it was last touched. The room's bans go when it does
+const COMPARE_AND_SET_SCRIPT = `
+if redis.call('GET', KEYS[1]) ~= ARGV[1] then
+  return 0
+end
+if ARGV[3] == '0' then
+  redis.call('SET', KEYS[1], ARGV[2])
+  redis.call('PERSIST', KEYS[2])
+else
+  redis.call('SET', KEYS[1], ARGV[2], 'EX', ARGV[3])
+  redis.call('EXPIRE', KEYS[2], ARGV[3])
+end
+return 1
+`;
+
+// When each running host election ends, across all rooms and servers
+const HOST_ELECTIONS_KEY = 'host-elections';
+
+// Users saved before roles existed only say whether they were a host
+type LegacyUser = User & { isHost?: boolean };
+
+function legacyRole(user: LegacyUser, hostId: string): UserRole {
+  if (!user.isHost) return 'member';
+  return user.id === hostId ? 'owner' : 'host';
+}
 
 export class RoomRepository {
   private static instance: RoomRepository;
@@ -11,32 +63,75 @@ export class RoomRepository {
     return RoomRepository.instance;
   }
 
-  async createRoom(room: Room): Promise<void> {
-    await redis.setex(`room:${room.id}`, 86400, JSON.stringify(room)); // 24 hours TTL
+  // Only claims the ID if no other room holds it, so two hosts racing for the same name can't both win
+  // Returns false when the ID is already taken
+  async createRoom(room: Room): Promise<boolean> {
+    const roomData = JSON.stringify(room);
+    const result = room.isPersistent
+      ? await redis.set(`room:${room.id}`, roomData, 'NX')
+      : await redis.set(`room:${room.id}`, roomData, 'EX', 86400, 'NX'); // 24 hours TTL
+    if (result !== 'OK') return false;
+
     await redis.sadd('active-rooms', room.id);
+    return true;
+  }
+
+  // Creates the room under the requested ID, or under a fresh random code when none is given
+  // Returns null if the requested ID is taken, or if every random code we tried was
+  async allocateRoom(room: Omit<Room, 'id'>, roomId?: string): Promise<Room | null> {
+    if (roomId) {
+      const requested = { ...room, id: roomId };
+      return (await this.createRoom(requested)) ? requested : null;
+    }
+
+    for (let attempt = 1; attempt <= MAX_ROOM_ID_ATTEMPTS; attempt++) {
+      const candidate = { ...room, id: generateRoomId() };
+      if (await this.createRoom(candidate)) return candidate;
+      logger.info(`Room ID ${candidate.id} is already in use, retrying (attempt ${attempt}/${MAX_ROOM_ID_ATTEMPTS})`);
+    }
+
+    return null;
   }
 
   async getRoom(roomId: string): Promise<Room | null> {
     const roomData = await redis.get(`room:${roomId}`);
-    if (!roomData) return null;
+    return roomData ? this.parseRoom(roomData) : null;
+  }
 
-    const room = JSON.parse(roomData) as Room;
-    // Convert date strings back to Date objects
-    room.createdAt = new Date(room.createdAt);
-    room.users = room.users.map(user => ({
-      ...user,
-      joinedAt: new Date(user.joinedAt),
-    }));
+  // Applies a change to the room without losing anyone else's. The change runs against the latest copy
+  // and is only written if nobody saved the room in the meantime, otherwise it runs again on the newer copy
+  async mutateRoom<T>(roomId: string, mutate: (room: Room) => T): Promise<T> {
+    for (let attempt = 1; attempt <= MAX_MUTATION_ATTEMPTS; attempt++) {
+      const roomData = await redis.get(`room:${roomId}`);
+      if (!roomData) throw new Error('Room not found');
 
-    return room;
-  }
+      const room = this.parseRoom(roomData);
+      const result = mutate(room);
+
+      // Nothing changed, so there is nothing to write
+      const updatedData = JSON.stringify(room);
+      if (updatedData === roomData) return result;
+
+      const saved = await redis.eval(
+        COMPARE_AND_SET_SCRIPT,
+        2,
+        `room:${roomId}`,
+        `bans:${roomId}`,
+        roomData,
+        updatedData,
+        room.isPersistent ? 0 : 86400 // 24 hours TTL
+      );
+      if (saved === 1) return result;
+
+      const backoff = Math.min(MUTATION_BACKOFF_MS * 2 ** attempt, MAX_MUTATION_BACKOFF_MS);
+      await new Promise(resolve => setTimeout(resolve, Math.random() * backoff));
+    }
 
-  async updateRoom(roomId: string, room: Room): Promise<void> {
-    await redis.setex(`room:${roomId}`, 86400, JSON.stringify(room));
+    throw new Error(`Room ${roomId} changed too often to update`);
   }
 
   async deleteRoom(roomId: string): Promise<void> {
-    await redis.del(`room:${roomId}`);
+    await redis.del(`room:${roomId}`, `bans:${roomId}`);
     await redis.srem('active-rooms', roomId);
   }
 
@@ -44,61 +139,281 @@ export class RoomRepository {
     return (await redis.exists(`room:${roomId}`)) === 1;
   }
 
-  async addUserToRoom(roomId: string, user: User): Promise<void> {
-    const room = await this.getRoom(roomId);
-    if (!room) throw new Error('Room not found');
+  // Names are unique within a room, so two people joining as the same name at once can't both get in
+  // Returns false when someone else already has the name
+  async addUserToRoom(roomId: string, user: User): Promise<boolean> {
+    return this.mutateRoom(roomId, room => {
+      if (room.users.some(u => u.name === user.name && u.id !== user.id)) return false;
 
-    // Remove user if already exists (rejoin case)
-    room.users = room.users.filter(u => u.id !== user.id);
-    room.users.push(user);
+      // Remove user if already exists (rejoin case)
+      room.users = room.users.filter(u => u.id !== user.id);
+      room.users.push(user);
+      return true;
+    });
+  }
 
-    await this.updateRoom(roomId, room);
+  // Takes a user out along with anything the room was waiting on them for, and returns what is left
+  async removeUserFromRoom(roomId: string, userId: string): Promise<Room> {
+    return this.mutateRoom(roomId, room => {
+      room.users = room.users.filter(u => u.id !== userId);
+      room.bufferingUserIds = room.bufferingUserIds.filter(id => id !== userId);
+      return room;
+    });
   }
 
-  async removeUserFromRoom(roomId: string, userId: string): Promise<void> {
-    const room = await this.getRoom(roomId);
-    if (!room) return;
+  // Updates a user in place, keeping their spot in the room's user list
+  async updateUser(roomId: string, userId: string, changes: Partial<Omit<User, 'id'>>): Promise<User | null> {
+    return this.mutateRoom(roomId, room => {
+      const user = room.users.find(u => u.id === userId);
+      if (!user) return null;
 
-    room.users = room.users.filter(u => u.id !== userId);
+      const updatedUser = { ...user, ...changes };
+      room.users = room.users.map(u => (u.id === userId ? updatedUser : u));
+      return updatedUser;
+    });
+  }
 
-    // If no users left, delete the room
-    if (room.users.length === 0) {
-      await this.deleteRoom(roomId);
-    } else {
-      // If host left, assign new host
-      if (room.hostId === userId && room.users.length > 0) {
-        const newHost = room.users[0];
-        room.hostId = newHost.id;
-        room.hostName = newHost.name;
-        newHost.isHost = true;
-      }
-      await this.updateRoom(roomId, room);
+  // Changes only the fields given, worked out from the latest state when a function is passed,
+  // so two updates landing together can't undo each other. Returns the state that was saved
+  async updateVideoState(
+    roomId: string,
+    changes: Partial<VideoState> | ((videoState: VideoState) => Partial<VideoState>)
+  ): Promise<VideoState> {
+    return this.mutateRoom(roomId, room => {
+      room.videoState = {
+        ...room.videoState,
+        ...(typeof changes === 'function' ? changes(room.videoState) : changes),
+      };
+      return room.videoState;
+    });
+  }
+
+  // Someone playing or pausing by hand takes over from a buffering pause, which should then no longer resume on its own
+  async takeOverPlayback(roomId: string, changes: Partial<VideoState>): Promise<VideoState> {
+    return this.mutateRoom(roomId, room => {
+      room.videoState = { ...room.videoState, ...changes };
+      room.pausedForBuffering = false;
+      return room.videoState;
+    });
+  }
+
+  async setVideoUrl(
+    roomId: string,
+    videoUrl: string,
+    videoId: string,
+    videoType: 'youtube' | 'mp4' | 'm3u8'
+  ): Promise<void> {
+    await this.mutateRoom(roomId, room => {
+      room.videoUrl = videoUrl;
+      room.videoId = videoId;
+      room.videoType = videoType;
+      // Reset video state when new video is set
+      room.videoState = {
+        isPlaying: false,
+        currentTime: 0,
+        duration: 0,
+        lastUpdateTime: Date.now(),
+        // Keep the room's speed across videos
+        playbackRate: room.videoState.playbackRate,
+      };
+      // Buffering reports were about the previous video
+      room.bufferingUserIds = [];
+      room.pausedForBuffering = false;
+    });
+  }
+
+  async setControlMode(roomId: string, controlMode: ControlMode, voteSettings: VoteSettings): Promise<void> {
+    await this.mutateRoom(roomId, room => {
+      room.controlMode = controlMode;
+      room.voteSettings = voteSettings;
+    });
+  }
+
+  // Pass null to open the room back up
+  async setPassword(roomId: string, passwordHash: string | null): Promise<void> {
+    await this.mutateRoom(roomId, room => {
+      room.hasPassword = passwordHash !== null;
+      room.passwordHash = passwordHash ?? undefined;
+    });
+  }
+
+  async setLobbyEnabled(roomId: string, enabled: boolean): Promise<void> {
+    await this.mutateRoom(roomId, room => {
+      room.lobbyEnabled = enabled;
+    });
+  }
+
+  async setHostSuccession(
+    roomId: string,
+    hostSuccession: HostSuccession,
+    designatedSuccessorId?: string
+  ): Promise<void> {
+    await this.mutateRoom(roomId, room => {
+      room.hostSuccession = hostSuccession;
+      room.designatedSuccessorId = designatedSuccessorId;
+    });
+  }
+
+  // An election that starts is put down to be finished when it ends, by whichever server gets there first
+  async setHostElection(roomId: string, hostElection: HostElection | null): Promise<void> {
+    await this.mutateRoom(roomId, room => {
+      room.hostElection = hostElection;
+    });
+    if (hostElection) {
+      await redis.zadd(HOST_ELECTIONS_KEY, hostElection.endsAt, roomId);
     }
   }
 
-  async updateVideoState(roomId: string, videoState: VideoState): Promise<void> {
-    const room = await this.getRoom(roomId);
-    if (!room) throw new Error('Room not found');
+  // Elections that have run out, each handed to only one caller however many servers are sweeping.
+  // The end time tells them apart from a newer election in the same room, and one may have finished early
+  async claimEndedElections(now: number, limit = 100): Promise<{ roomId: string; endsAt: number }[]> {
+    const ended = await claimExpired(HOST_ELECTIONS_KEY, now, limit);
+    return ended.map(({ member, deadline }) => ({ roomId: member, endsAt: deadline }));
+  }
+
+  // Records one guest's pick, replacing any earlier one, without touching anyone else's
+  // Returns null once the election is over, so a vote arriving as it closes can't bring it back
+  async castHostVote(
+    roomId: string,
+    voterId: string,
+    candidateId: string
+  ): Promise<{ hostElection: HostElection; users: User[] } | null> {
+    return this.mutateRoom(roomId, room => {
+      if (!room.hostElection || room.hostElection.endsAt <= Date.now()) return null;
+
+      room.hostElection = { ...room.hostElection, votes: { ...room.hostElection.votes, [voterId]: candidateId } };
+      return { hostElection: room.hostElection, users: room.users };
+    });
+  }
+
+  async setWaitForBuffering(roomId: string, enabled: boolean): Promise<void> {
+    await this.mutateRoom(roomId, room => {
+      room.waitForBuffering = enabled;
+    });
+  }
+
+  async setUserBuffering(roomId: string, userId: string, isBuffering: boolean): Promise<string[]> {
+    return this.mutateRoom(roomId, room => {
+      room.bufferingUserIds = room.bufferingUserIds.filter(id => id !== userId);
+      if (isBuffering) {
+        room.bufferingUserIds.push(userId);
+      }
+      return room.bufferingUserIds;
+    });
+  }
+
+  // Pauses the room while anyone is buffering and resumes it once everyone catches up, deciding from the
+  // latest state so a play or pause landing at the same time isn't undone
+  // Returns the new video state, or null when nothing needed to change
+  async applyBufferingWait(roomId: string): Promise<{ paused: boolean; videoState: VideoState } | null> {
+    return this.mutateRoom(roomId, room => {
+      const someoneBuffering = room.waitForBuffering && room.bufferingUserIds.length > 0;
+
+      if (someoneBuffering && room.videoState.isPlaying) {
+        room.videoState = {
+          ...room.videoState,
+          isPlaying: false,
+          currentTime: calculateCurrentTime(room.videoState),
+          lastUpdateTime: Date.now(),
+        };
+        // Remembered so we know the pause is ours to undo
+        room.pausedForBuffering = true;
+        return { paused: true, videoState: room.videoState };
+      }
+
+      if (!someoneBuffering && room.pausedForBuffering) {
+        room.videoState = { ...room.videoState, isPlaying: true, lastUpdateTime: Date.now() };
+        room.pausedForBuffering = false;
+        return { paused: false, videoState: room.videoState };
+      }
 
-    room.videoState = videoState;
-    await this.updateRoom(roomId, room);
+      return null;
+    });
   }
 
-  async setVideoUrl(roomId: string, videoUrl: string, videoType: 'youtube' | 'mp4' | 'm3u8'): Promise<void> {
-    const room = await this.getRoom(roomId);
-    if (!room) throw new Error('Room not found');
+  async enqueueVideo(roomId: string, item: QueueItem): Promise<QueueItem[]> {
+    return this.mutateRoom(roomId, room => {
+      room.queue.push(item);
+      return room.queue;
+    });
+  }
 
-    room.videoUrl = videoUrl;
-    room.videoType = videoType;
-    // Reset video state when new video is set
-    room.videoState = {
-      isPlaying: false,
-      currentTime: 0,
-      duration: 0,
-      lastUpdateTime: Date.now(),
-    };
+  async removeFromQueue(roomId: string, itemId: string): Promise<QueueItem[]> {
+    return this.mutateRoom(roomId, room => {
+      room.queue = room.queue.filter(item => item.id !== itemId);
+      return room.queue;
+    });
+  }
+
+  async reorderQueue(roomId: string, itemId: string, toIndex: number): Promise<QueueItem[]> {
+    return this.mutateRoom(roomId, room => {
+      const fromIndex = room.queue.findIndex(item => item.id === itemId);
+      if (fromIndex === -1) throw new Error('Queue item not found');
 
-    await this.updateRoom(roomId, room);
+      const [item] = room.queue.splice(fromIndex, 1);
+      room.queue.splice(Math.min(toIndex, room.queue.length), 0, item);
+      return room.queue;
+    });
+  }
+
+  // Pops the next queued item and makes it the room's current video, as long as the room is still on
+  // currentVideoId (undefined for nothing playing), so several reasons to move on at once only move on once
+  // Returns null when the queue is empty or the video already changed, so callers can leave playback alone
+  async advanceQueue(
+    roomId: string,
+    currentVideoId: string | undefined
+  ): Promise<{ item: QueueItem; queue: QueueItem[] } | null> {
+    return this.mutateRoom(roomId, room => {
+      if (room.videoId !== currentVideoId) return null;
+
+      const item = room.queue.shift();
+      if (!item) return null;
+
+      room.videoUrl = item.videoUrl;
+      room.videoId = item.id;
+      room.videoType = item.videoType;
+      room.videoState = {
+        isPlaying: false,
+        currentTime: 0,
+        duration: 0,
+        lastUpdateTime: Date.now(),
+        // Keep the room's speed across videos
+        playbackRate: room.videoState.playbackRate,
+      };
+      // Buffering reports were about the previous video
+      room.bufferingUserIds = [];
+      room.pausedForBuffering = false;
+      return { item, queue: room.queue };
+    });
+  }
+
+  async addSuggestion(roomId: string, suggestion: VideoSuggestion): Promise<VideoSuggestion[]> {
+    return this.mutateRoom(roomId, room => {
+      room.suggestions.push(suggestion);
+      return room.suggestions;
+    });
+  }
+
+  // Removes a pending suggestion and returns it along with what is left
+  // Returns null if the suggestion was already handled by another host
+  async takeSuggestion(
+    roomId: string,
+    suggestionId: string
+  ): Promise<{ suggestion: VideoSuggestion; suggestions: VideoSuggestion[] } | null> {
+    return this.mutateRoom(roomId, room => {
+      const suggestion = room.suggestions.find(s => s.id === suggestionId);
+      if (!suggestion) return null;
+
+      room.suggestions = room.suggestions.filter(s => s.id !== suggestionId);
+      return { suggestion, suggestions: room.suggestions };
+    });
+  }
+
+  // Every room that still exists, for monitoring
+  async getActiveRooms(): Promise<Room[]> {
+    const roomIds = await redis.smembers('active-rooms');
+    const rooms = await Promise.all(roomIds.map(roomId => this.getRoom(roomId)));
+    return rooms.filter((room): room is Room => room !== null);
   }
 
   async cleanup(): Promise<void> {
@@ -112,4 +427,38 @@ export class RoomRepository {
       }
     }
   }
+
+  private parseRoom(roomData: string): Room {
+    const room = JSON.parse(roomData) as Room;
+    // Convert date strings back to Date objects
+    room.createdAt = new Date(room.createdAt);
+    room.users = room.users.map(user => ({
+      ...user,
+      role: user.role ?? legacyRole(user as LegacyUser, room.hostId),
+      joinedAt: new Date(user.joinedAt),
+    }));
+    // Rooms saved before videos had IDs go by the URL until the next video loads
+    room.videoId = room.videoId ?? room.videoUrl;
+    room.videoState.playbackRate = room.videoState.playbackRate ?? 1;
+    room.controlMode = room.controlMode || 'host';
+    room.voteSettings = room.voteSettings || DEFAULT_VOTE_SETTINGS;
+    room.queue = (room.queue || []).map(item => ({
+      ...item,
+      addedAt: new Date(item.addedAt),
+    }));
+    room.suggestions = (room.suggestions || []).map(suggestion => ({
+      ...suggestion,
+      suggestedAt: new Date(suggestion.suggestedAt),
+    }));
+    room.waitForBuffering = room.waitForBuffering ?? false;
+    room.bufferingUserIds = room.bufferingUserIds || [];
+    room.pausedForBuffering = room.pausedForBuffering ?? false;
+    room.isPersistent = room.isPersistent ?? false;
+    room.hasPassword = room.hasPassword ?? false;
+    room.lobbyEnabled = room.lobbyEnabled ?? false;
+    room.hostSuccession = room.hostSuccession || 'close';
+    room.hostElection = room.hostElection ?? null;
+
+    return room;
+  }
 }
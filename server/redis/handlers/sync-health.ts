@@ -0,0 +1,31 @@
+import { SyncHealth } from '@/types';
+import { redis } from '../client';
+
+// Reports are refreshed every few seconds, so a room that stops reporting clears itself out quickly
+const SYNC_HEALTH_TTL_SECONDS = 120;
+
+export class SyncHealthRepository {
+  private static instance: SyncHealthRepository;
+
+  static getInstance(): SyncHealthRepository {
+    if (!SyncHealthRepository.instance) {
+      SyncHealthRepository.instance = new SyncHealthRepository();
+    }
+    return SyncHealthRepository.instance;
+  }
+
+  async saveReport(roomId: string, report: SyncHealth): Promise<void> {
+    const key = `sync-health:${roomId}`;
+    await redis.hset(key, report.userId, JSON.stringify(report));
+    await redis.expire(key, SYNC_HEALTH_TTL_SECONDS);
+  }
+
+  async getReports(roomId: string): Promise<SyncHealth[]> {
+    const reports = await redis.hgetall(`sync-health:${roomId}`);
+    return Object.values(reports).map(report => JSON.parse(report) as SyncHealth);
+  }
+
+  async removeReport(roomId: string, userId: string): Promise<void> {
+    await redis.hdel(`sync-health:${roomId}`, userId);
+  }
+}
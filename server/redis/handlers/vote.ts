@@ -0,0 +1,130 @@
+import { PlaybackVote, VoteAction } from '@/types';
+import { redis } from '../client';
+import { claimExpired } from '../deadlines';
+
+// Keep the key a little past the voting window so the expiry sweep can still find it
+const VOTE_KEY_GRACE_MS = 5000;
+// When each open vote's window closes, across all rooms and servers
+const VOTE_EXPIRIES_KEY = 'vote-expiries';
+
+// Adds a voter to the open vote, or opens the one given when there isn't one (or the last ran out),
+// and closes it once enough people agree. All in one step, so two people voting at once, or opening
+// the same vote at once, both count. Voters live in a set, everything else about the vote in a hash,
+// and a vote that opens is put down to be closed when its window runs out
+const CAST_VOTE_SCRIPT = `
+local now = tonumber(ARGV[5])
+local expiresAt = tonumber(redis.call('HGET', KEYS[1], 'expiresAt'))
+local status = 'joined'
+
+if not expiresAt or expiresAt <= now then
+  redis.call('DEL', KEYS[1], KEYS[2])
+  redis.call('HSET', KEYS[1], 'id', ARGV[1], 'data', ARGV[2], 'expiresAt', ARGV[3])
+  redis.call('PEXPIRE', KEYS[1], ARGV[6])
+  redis.call('ZADD', KEYS[3], ARGV[3], ARGV[8])
+  status = 'started'
+elseif redis.call('SISMEMBER', KEYS[2], ARGV[4]) == 1 then
+  return { 'duplicate' }
+end
+
+redis.call('SADD', KEYS[2], ARGV[4])
+redis.call('PEXPIRE', KEYS[2], redis.call('PTTL', KEYS[1]))
+redis.call('HSET', KEYS[1], 'required', ARGV[7])
+
+local data = redis.call('HGET', KEYS[1], 'data')
+local voterIds = redis.call('SMEMBERS', KEYS[2])
+local passed = 0
+if #voterIds >= tonumber(ARGV[7]) then
+  redis.call('DEL', KEYS[1], KEYS[2])
+  passed = 1
+end
+
+return { status, passed, data, voterIds }
+`;
+
+// Only closes the vote it was asked about, never a newer one that replaced it
+const CLOSE_VOTE_SCRIPT = `
+if redis.call('HGET', KEYS[1], 'id') ~= ARGV[1] then
+  return 0
+end
+redis.call('DEL', KEYS[1], KEYS[2])
+return 1
+`;
+
+export interface ExpiredVote {
+  roomId: string;
+  action: VoteAction;
+}
+
+export type CastVoteResult =
+  | { status: 'duplicate' }
+  | { status: 'started' | 'joined'; passed: boolean; vote: PlaybackVote };
+
+export class VoteRepository {
+  private static instance: VoteRepository;
+
+  static getInstance(): VoteRepository {
+    if (!VoteRepository.instance) {
+      VoteRepository.instance = new VoteRepository();
+    }
+    return VoteRepository.instance;
+  }
+
+  // newVote is only used when no vote for its action is open. Votes expire on their own shortly after
+  // the voting window closes, and a vote that passes is gone as soon as it does
+  async castVote(roomId: string, newVote: PlaybackVote, voterId: string, required: number): Promise<CastVoteResult> {
+    const { voterIds: _voterIds, required: _required, ...details } = newVote;
+    const [status, passed, data, voterIds] = (await redis.eval(
+      CAST_VOTE_SCRIPT,
+      3,
+      `vote:${roomId}:${newVote.action}`,
+      `vote-voters:${roomId}:${newVote.action}`,
+      VOTE_EXPIRIES_KEY,
+      newVote.id,
+      JSON.stringify(details),
+      newVote.expiresAt,
+      voterId,
+      Date.now(),
+      newVote.expiresAt - Date.now() + VOTE_KEY_GRACE_MS,
+      required,
+      `${roomId}:${newVote.action}`
+    )) as [CastVoteResult['status'], number, string, string[]];
+
+    if (status === 'duplicate') return { status };
+    return { status, passed: passed === 1, vote: { ...JSON.parse(data), voterIds, required } };
+  }
+
+  async getVote(roomId: string, action: VoteAction): Promise<PlaybackVote | null> {
+    const [[, vote], [, voterIds]] = (await redis
+      .multi()
+      .hgetall(`vote:${roomId}:${action}`)
+      .smembers(`vote-voters:${roomId}:${action}`)
+      .exec()) as [[Error | null, Record<string, string>], [Error | null, string[]]];
+    if (!vote.data) return null;
+
+    return { ...JSON.parse(vote.data), voterIds, required: parseInt(vote.required, 10) };
+  }
+
+  // Returns false if the vote had already passed, closed or been replaced
+  async closeVote(roomId: string, action: VoteAction, voteId: string): Promise<boolean> {
+    const closed = await redis.eval(
+      CLOSE_VOTE_SCRIPT,
+      2,
+      `vote:${roomId}:${action}`,
+      `vote-voters:${roomId}:${action}`,
+      voteId
+    );
+    return closed === 1;
+  }
+
+  // The room and action of each vote whose window has closed, each handed to only one caller however
+  // many servers are sweeping. The vote itself may have passed or been replaced since
+  async claimExpired(now: number, limit = 100): Promise<ExpiredVote[]> {
+    const expired = await claimExpired(VOTE_EXPIRIES_KEY, now, limit);
+
+    // Neither room IDs nor actions contain a colon
+    return expired.map(({ member }) => {
+      const [roomId, action] = member.split(':');
+      return { roomId, action: action as VoteAction };
+    });
+  }
+}
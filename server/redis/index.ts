@@ -1,6 +1,14 @@
 import { RoomRepository } from './handlers/room';
 import { ChatRepository } from './handlers/chat';
 import { UserMappingRepository } from './handlers/user-mapping';
+import { VoteRepository } from './handlers/vote';
+import { SyncHealthRepository } from './handlers/sync-health';
+import { PasswordAttemptRepository } from './handlers/password-attempt';
+import { LobbyRepository } from './handlers/lobby';
+import { BanRepository } from './handlers/ban';
+import { RejoinRepository } from './handlers/rejoin';
+import { RateLimitRepository } from './handlers/rate-limit';
+import { AwaySeatRepository } from './handlers/away-seat';
 
 export class RedisService {
   private static instance: RedisService;
@@ -9,11 +17,27 @@ export class RedisService {
   public readonly rooms: RoomRepository;
   public readonly chat: ChatRepository;
   public readonly userMapping: UserMappingRepository;
+  public readonly votes: VoteRepository;
+  public readonly syncHealth: SyncHealthRepository;
+  public readonly passwordAttempts: PasswordAttemptRepository;
+  public readonly lobby: LobbyRepository;
+  public readonly bans: BanRepository;
+  public readonly rejoins: RejoinRepository;
+  public readonly rateLimits: RateLimitRepository;
+  public readonly awaySeats: AwaySeatRepository;
 
   private constructor() {
     this.rooms = RoomRepository.getInstance();
     this.chat = ChatRepository.getInstance();
     this.userMapping = UserMappingRepository.getInstance();
+    this.votes = VoteRepository.getInstance();
+    this.syncHealth = SyncHealthRepository.getInstance();
+    this.passwordAttempts = PasswordAttemptRepository.getInstance();
+    this.lobby = LobbyRepository.getInstance();
+    this.bans = BanRepository.getInstance();
+    this.rejoins = RejoinRepository.getInstance();
+    this.rateLimits = RateLimitRepository.getInstance();
+    this.awaySeats = AwaySeatRepository.getInstance();
   }
 
   static getInstance(): RedisService {
@@ -0,0 +1,215 @@
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { isRedisAvailable } from '@/test/redis';
+import { Client, Instance, connectTo, next, startInstance } from '@/test/server';
+
+describe.skipIf(!(await isRedisAvailable()))('two servers sharing one Redis', () => {
+  let first: Instance;
+  let second: Instance;
+  // Servers a test takes down part way through
+  const extras: Instance[] = [];
+  const clients: Client[] = [];
+
+  function client(instance: Instance): Client {
+    const c = connectTo(instance);
+    clients.push(c);
+    return c;
+  }
+
+  async function extraInstance(): Promise<Instance> {
+    const instance = await startInstance();
+    extras.push(instance);
+    return instance;
+  }
+
+  // Moves the clock on without touching timers, so every server keeps sweeping in real time
+  function skipAhead(ms: number) {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(Date.now() + ms);
+  }
+
+  // A host on the first server, and a guest who joins through the second
+  async function roomAcrossServers(hostServer = first, guestServer = second) {
+    const host = client(hostServer);
+    const created = next(host, 'room-created');
+    const hostJoined = next(host, 'room-joined');
+    host.emit('create-room', { hostName: 'Host' });
+    const { roomId } = await created;
+    const { user: hostUser } = await hostJoined;
+
+    const guest = client(guestServer);
+    const guestJoined = next(guest, 'room-joined');
+    const seenByHost = next(host, 'user-joined');
+    guest.emit('join-room', { roomId, userName: 'Guest' });
+    const { user: guestUser } = await guestJoined;
+    await seenByHost;
+
+    return { roomId, host, hostUser, guest, guestUser };
+  }
+
+  beforeAll(async () => {
+    first = await startInstance();
+    second = await startInstance();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  afterAll(async () => {
+    clients.forEach(c => c.disconnect());
+    await Promise.all(extras.map(instance => instance.stop()));
+    await first?.stop();
+    await second?.stop();
+  });
+
+  it('lets someone on another server join the room and be seen by the host', async () => {
+    const { host, guest, roomId } = await roomAcrossServers();
+    expect(host.connected && guest.connected).toBe(true);
+    expect(roomId).toBeTruthy();
+  });
+
+  it('delivers chat to the other server', async () => {
+    const { roomId, host, guest, guestUser } = await roomAcrossServers();
+
+    const received = next(host, 'new-message');
+    guest.emit('send-message', { roomId, message: 'hello from the other side' });
+
+    const { message } = await received;
+    expect(message.userId).toBe(guestUser.id);
+    expect(message.message).toBe('hello from the other side');
+  });
+
+  it('relays voice signalling to a peer on the other server', async () => {
+    const { roomId, host, hostUser, guest, guestUser } = await roomAcrossServers();
+
+    const hostPeers = next(host, 'voice-existing-peers');
+    host.emit('voice-join', { roomId });
+    await hostPeers;
+    const guestPeers = next(guest, 'voice-existing-peers');
+    guest.emit('voice-join', { roomId });
+    expect((await guestPeers).userIds).toEqual([hostUser.id]);
+
+    const offer = next(host, 'voice-offer-received');
+    guest.emit('voice-offer', { roomId, targetUserId: hostUser.id, sdp: { type: 'offer', sdp: 'v=0' } });
+    expect(await offer).toEqual({ fromUserId: guestUser.id, sdp: { type: 'offer', sdp: 'v=0' } });
+  });
+
+  it('lets a host admit someone waiting in the lobby on the other server', async () => {
+    const host = client(first);
+    const created = next(host, 'room-created');
+    host.emit('create-room', { hostName: 'Host' });
+    const { roomId } = await created;
+    const lobbyOn = next(host, 'lobby-enabled-updated');
+    host.emit('set-lobby-enabled', { roomId, enabled: true });
+    await lobbyOn;
+
+    const guest = client(second);
+    const waiting = next(guest, 'lobby-waiting');
+    const knocked = next(host, 'lobby-updated');
+    guest.emit('join-room', { roomId, userName: 'Guest' });
+    const { requestId } = await waiting;
+    expect((await knocked).requests.map(request => request.id)).toEqual([requestId]);
+
+    const admitted = next(guest, 'lobby-admitted');
+    host.emit('respond-to-lobby-request', { roomId, requestId, approve: true });
+    expect((await admitted).requestId).toBe(requestId);
+
+    const joined = next(guest, 'room-joined');
+    const seenByHost = next(host, 'user-joined');
+    guest.emit('join-room', { roomId, userName: 'Guest', admissionId: requestId });
+    expect((await joined).user.name).toBe('Guest');
+    expect((await seenByHost).user.name).toBe('Guest');
+  });
+
+  it('tells someone waiting on the other server when the host turns them away', async () => {
+    const host = client(first);
+    const created = next(host, 'room-created');
+    host.emit('create-room', { hostName: 'Host' });
+    const { roomId } = await created;
+    const lobbyOn = next(host, 'lobby-enabled-updated');
+    host.emit('set-lobby-enabled', { roomId, enabled: true });
+    await lobbyOn;
+
+    const guest = client(second);
+    const waiting = next(guest, 'lobby-waiting');
+    const knocked = next(host, 'lobby-updated');
+    guest.emit('join-room', { roomId, userName: 'Guest' });
+    const { requestId } = await waiting;
+    await knocked;
+
+    const declined = next(guest, 'room-error');
+    const lobbyEmptied = next(host, 'lobby-updated');
+    host.emit('respond-to-lobby-request', { roomId, requestId, approve: false });
+    expect((await declined).error).toMatch(/declined/);
+    expect((await lobbyEmptied).requests).toEqual([]);
+
+    // Knocking again is a new request rather than the one that was turned away
+    const waitingAgain = next(guest, 'lobby-waiting');
+    guest.emit('join-room', { roomId, userName: 'Guest' });
+    expect((await waitingAgain).requestId).not.toBe(requestId);
+  });
+
+  it('kicks someone connected to the other server', async () => {
+    const { roomId, host, guest, guestUser } = await roomAcrossServers();
+
+    const kicked = next(guest, 'room-error');
+    const seenByHost = next(host, 'user-kicked');
+    host.emit('kick-user', { roomId, userId: guestUser.id });
+
+    expect((await kicked).error).toMatch(/kicked/);
+    expect((await seenByHost).userId).toBe(guestUser.id);
+
+    // Still connected, but no longer part of the conversation
+    const refused = next(guest, 'error');
+    guest.emit('send-message', { roomId, message: 'still here?' });
+    expect((await refused).error).toBe('Not in this room');
+  });
+
+  it('closes a vote whose window runs out after the server that opened it has gone away', async () => {
+    const doomed = await extraInstance();
+    const { roomId, host, guest } = await roomAcrossServers(first, doomed);
+
+    const voting = next(host, 'control-mode-updated');
+    host.emit('set-control-mode', { roomId, controlMode: 'vote', voteSettings: { threshold: 1, windowSeconds: 10 } });
+    await voting;
+    const videoSet = next(host, 'video-set');
+    host.emit('set-video', { roomId, videoUrl: 'https://example.com/video.mp4' });
+    await videoSet;
+
+    const opened = next(host, 'vote-updated');
+    guest.emit('cast-vote', { roomId, action: 'seek', targetTime: 30 });
+    const { vote } = await opened;
+
+    guest.disconnect();
+    await doomed.stop();
+
+    const ended = next(host, 'vote-ended');
+    skipAhead(11000);
+    expect(await ended).toEqual({ voteId: vote.id, action: 'seek', passed: false });
+  });
+
+  it('finishes a host election after the server that started it has gone away', async () => {
+    const doomed = await extraInstance();
+    const { roomId, host, guest, guestUser } = await roomAcrossServers(doomed, first);
+    const otherGuest = client(first);
+    const otherJoined = next(otherGuest, 'room-joined');
+    otherGuest.emit('join-room', { roomId, userName: 'Other Guest' });
+    await otherJoined;
+
+    const succession = next(host, 'host-succession-updated');
+    host.emit('set-host-succession', { roomId, hostSuccession: 'vote' });
+    await succession;
+
+    const electionStarted = next(guest, 'host-election-updated');
+    host.emit('leave-room', { roomId });
+    expect((await electionStarted).hostElection).not.toBeNull();
+
+    host.disconnect();
+    await doomed.stop();
+
+    const promoted = next(guest, 'user-promoted');
+    skipAhead(31000);
+    // Nobody voted, so the guest who has been here longest takes over
+    expect((await promoted).userId).toBe(guestUser.id);
+  });
+});
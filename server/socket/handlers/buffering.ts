@@ -0,0 +1,86 @@
+import { Socket, Server as IOServer } from 'socket.io';
+import { redisService } from '@/server/redis';
+import { logger } from '@/server/logger';
+import { SetWaitForBufferingDataSchema, BufferingStateDataSchema } from '@/types';
+import { SocketEvents, SocketData } from '../types';
+import { authorize, validateData } from '../utils';
+
+export function registerBufferingHandlers(
+  socket: Socket<SocketEvents, SocketEvents, object, SocketData>,
+  io: IOServer
+) {
+  // Host toggles whether the room waits for members who are buffering
+  socket.on('set-wait-for-buffering', async data => {
+    try {
+      const validatedData = validateData(SetWaitForBufferingDataSchema, data, socket);
+      if (!validatedData) return;
+
+      const { roomId, enabled } = validatedData;
+      const room = await redisService.rooms.getRoom(roomId);
+      if (!room) {
+        socket.emit('room-error', { error: 'Room not found' });
+        return;
+      }
+
+      const currentUser = authorize(socket, room, 'manage-room', 'Only hosts can change this setting');
+      if (!currentUser) return;
+
+      await redisService.rooms.setWaitForBuffering(roomId, enabled);
+      io.to(roomId).emit('wait-for-buffering-updated', { enabled });
+
+      await applyBufferingWait(io, roomId);
+
+      logger.info(`Wait for buffering in room ${roomId} ${enabled ? 'enabled' : 'disabled'} by ${currentUser.name}`);
+    } catch (error) {
+      logger.error('Error setting wait for buffering', { error });
+      socket.emit('error', { error: 'Failed to change buffering setting' });
+    }
+  });
+
+  // Clients report when their player starts or stops buffering
+  socket.on('buffering-state', async data => {
+    try {
+      const validatedData = validateData(BufferingStateDataSchema, data, socket);
+      if (!validatedData) return;
+
+      const { roomId, isBuffering } = validatedData;
+      const room = await redisService.rooms.getRoom(roomId);
+      if (!room) {
+        socket.emit('room-error', { error: 'Room not found' });
+        return;
+      }
+
+      const currentUser = room.users.find(u => u.id === socket.data.userId);
+      if (!currentUser) {
+        socket.emit('error', { error: 'Not authenticated' });
+        return;
+      }
+
+      if (room.bufferingUserIds.includes(currentUser.id) === isBuffering) return;
+
+      const bufferingUserIds = await redisService.rooms.setUserBuffering(roomId, currentUser.id, isBuffering);
+      io.to(roomId).emit('buffering-updated', { bufferingUserIds });
+
+      await applyBufferingWait(io, roomId);
+    } catch (error) {
+      logger.error('Error updating buffering state', { error });
+      socket.emit('error', { error: 'Failed to update buffering state' });
+    }
+  });
+}
+
+// Pause the room while anyone is buffering and resume once everyone is ready again
+export async function applyBufferingWait(io: IOServer, roomId: string): Promise<void> {
+  if (!(await redisService.rooms.roomExists(roomId))) return;
+
+  const change = await redisService.rooms.applyBufferingWait(roomId);
+  if (!change) return;
+
+  const { paused, videoState } = change;
+  io.to(roomId).emit(paused ? 'video-paused' : 'video-played', {
+    currentTime: videoState.currentTime,
+    timestamp: videoState.lastUpdateTime,
+  });
+
+  logger.info(paused ? `Room ${roomId} paused while someone buffers` : `Room ${roomId} resumed, everyone is ready`);
+}
@@ -1,9 +1,11 @@
 import { Socket, Server as IOServer } from 'socket.io';
 import { v4 as uuidv4 } from 'uuid';
 import { redisService } from '@/server/redis';
-import { ChatMessage, SendMessageDataSchema, RoomActionDataSchema } from '@/types';
+import { logger } from '@/server/logger';
+import { ChatMessage, SendMessageDataSchema, RoomActionDataSchema, DeleteMessageDataSchema } from '@/types';
 import { SocketEvents, SocketData } from '../types';
-import { validateData } from '../utils';
+import { authorize, validateData } from '../utils';
+import { chatMessagesTotal } from '../metrics';
 
 export function registerChatHandlers(socket: Socket<SocketEvents, SocketEvents, object, SocketData>, io: IOServer) {
   // Typing indicators
@@ -19,15 +21,23 @@ export function registerChatHandlers(socket: Socket<SocketEvents, SocketEvents,
         return;
       }
 
+      // Someone kicked keeps their connection, but not their place in the conversation
+      const room = await redisService.rooms.getRoom(roomId);
+      const currentUser = room?.users.find(u => u.id === socket.data.userId);
+      if (!room || !currentUser) {
+        socket.emit('error', { error: 'Not in this room' });
+        return;
+      }
+
       // Broadcast to all other users in the room that this user is typing
       socket.to(roomId).emit('user-typing', {
-        userId: socket.data.userId,
-        userName: socket.data.userName,
+        userId: currentUser.id,
+        userName: currentUser.name,
       });
 
-      console.log(`${socket.data.userName} started typing in room ${roomId}`);
+      logger.debug(`${socket.data.userName} started typing in room ${roomId}`);
     } catch (error) {
-      console.error('Error handling typing start:', error);
+      logger.error('Error handling typing start', { error });
       socket.emit('error', { error: 'Failed to handle typing start' });
     }
   });
@@ -44,14 +54,22 @@ export function registerChatHandlers(socket: Socket<SocketEvents, SocketEvents,
         return;
       }
 
+      // Someone kicked keeps their connection, but not their place in the conversation
+      const room = await redisService.rooms.getRoom(roomId);
+      const currentUser = room?.users.find(u => u.id === socket.data.userId);
+      if (!room || !currentUser) {
+        socket.emit('error', { error: 'Not in this room' });
+        return;
+      }
+
       // Broadcast to all other users in the room that this user stopped typing
       socket.to(roomId).emit('user-stopped-typing', {
-        userId: socket.data.userId,
+        userId: currentUser.id,
       });
 
-      console.log(`${socket.data.userName} stopped typing in room ${roomId}`);
+      logger.debug(`${socket.data.userName} stopped typing in room ${roomId}`);
     } catch (error) {
-      console.error('Error handling typing stop:', error);
+      logger.error('Error handling typing stop', { error });
       socket.emit('error', { error: 'Failed to handle typing stop' });
     }
   });
@@ -69,24 +87,62 @@ export function registerChatHandlers(socket: Socket<SocketEvents, SocketEvents,
         return;
       }
 
+      // Someone kicked keeps their connection, but not their place in the conversation
+      const room = await redisService.rooms.getRoom(roomId);
+      const currentUser = room?.users.find(u => u.id === socket.data.userId);
+      if (!room || !currentUser) {
+        socket.emit('error', { error: 'Not in this room' });
+        return;
+      }
+
       const chatMessage: ChatMessage = {
         id: uuidv4(),
-        userId: socket.data.userId,
-        userName: socket.data.userName,
+        userId: currentUser.id,
+        userName: currentUser.name,
         message: message.trim(),
         timestamp: new Date(),
         roomId,
         isRead: false,
       };
 
-      await redisService.chat.addChatMessage(roomId, chatMessage);
+      await redisService.chat.addChatMessage(roomId, chatMessage, room.isPersistent);
 
       io.to(roomId).emit('new-message', { message: chatMessage });
+      chatMessagesTotal.inc();
 
-      console.log(`Message sent in room ${roomId} by ${socket.data.userName}`);
+      logger.info(`Message sent in room ${roomId} by ${socket.data.userName}`);
     } catch (error) {
-      console.error('Error sending message:', error);
+      logger.error('Error sending message', { error });
       socket.emit('error', { error: 'Failed to send message' });
     }
   });
+
+  // Moderators can take a message down for everyone
+  socket.on('delete-message', async data => {
+    try {
+      const validatedData = validateData(DeleteMessageDataSchema, data, socket);
+      if (!validatedData) return;
+
+      const { roomId, messageId } = validatedData;
+      const room = await redisService.rooms.getRoom(roomId);
+      if (!room) {
+        socket.emit('room-error', { error: 'Room not found' });
+        return;
+      }
+
+      const currentUser = authorize(socket, room, 'manage-chat', 'Only hosts and moderators can delete messages');
+      if (!currentUser) return;
+
+      if (!(await redisService.chat.deleteMessage(roomId, messageId))) {
+        socket.emit('error', { error: 'Message not found' });
+        return;
+      }
+
+      io.to(roomId).emit('message-deleted', { messageId });
+      logger.info(`Message ${messageId} deleted in room ${roomId} by ${currentUser.name}`);
+    } catch (error) {
+      logger.error('Error deleting message', { error });
+      socket.emit('error', { error: 'Failed to delete message' });
+    }
+  });
 }
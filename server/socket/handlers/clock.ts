@@ -0,0 +1,14 @@
+import { Socket } from 'socket.io';
+import { ClockPingDataSchema } from '@/types';
+import { SocketEvents, SocketData } from '../types';
+import { validateData } from '../utils';
+
+// The server clock is the reference every client measures its offset against
+export function registerClockHandlers(socket: Socket<SocketEvents, SocketEvents, object, SocketData>) {
+  socket.on('clock-ping', data => {
+    const validatedData = validateData(ClockPingDataSchema, data, socket);
+    if (!validatedData) return;
+
+    socket.emit('clock-pong', { clientTime: validatedData.clientTime, serverTime: Date.now() });
+  });
+}
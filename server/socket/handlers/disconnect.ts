@@ -1,11 +1,15 @@
-import { Socket } from 'socket.io';
+import { Socket, Server as IOServer } from 'socket.io';
+import { logger } from '@/server/logger';
 import { SocketEvents, SocketData } from '../types';
 import { handleLeaveRoom } from './room';
+import { handleLobbyDisconnect } from './lobby';
 
-export async function handleDisconnect(socket: Socket<SocketEvents, SocketEvents, object, SocketData>) {
-  console.log('User disconnected:', socket.id);
+export async function handleDisconnect(socket: Socket<SocketEvents, SocketEvents, object, SocketData>, io: IOServer) {
+  logger.info('User disconnected');
 
   if (socket.data.roomId && socket.data.userId) {
-    await handleLeaveRoom(socket, socket.data.roomId, false); // false indicates disconnect
+    await handleLeaveRoom(socket, io, socket.data.roomId, false); // false indicates disconnect
   }
+
+  await handleLobbyDisconnect(socket, io);
 }
@@ -0,0 +1,194 @@
+import { Socket, Server as IOServer } from 'socket.io';
+import { v4 as uuidv4 } from 'uuid';
+import { redisService } from '@/server/redis';
+import { logger } from '@/server/logger';
+import { LobbyRequest, SetLobbyEnabledDataSchema, RespondToLobbyRequestDataSchema } from '@/types';
+import { SocketEvents, SocketData } from '../types';
+import { authorize, emitToPermitted, validateData } from '../utils';
+
+// How long someone waits for an answer, and how long they then have to use it
+const LOBBY_REQUEST_TTL_MS = 5 * 60 * 1000;
+
+export function registerLobbyHandlers(socket: Socket<SocketEvents, SocketEvents, object, SocketData>, io: IOServer) {
+  // Host turns the lobby on or off
+  socket.on('set-lobby-enabled', async data => {
+    try {
+      const validatedData = validateData(SetLobbyEnabledDataSchema, data, socket);
+      if (!validatedData) return;
+
+      const { roomId, enabled } = validatedData;
+      const room = await redisService.rooms.getRoom(roomId);
+      if (!room) {
+        socket.emit('room-error', { error: 'Room not found' });
+        return;
+      }
+
+      const currentUser = authorize(socket, room, 'manage-room', 'Only hosts can change the lobby setting');
+      if (!currentUser) return;
+
+      await redisService.rooms.setLobbyEnabled(roomId, enabled);
+      io.to(roomId).emit('lobby-enabled-updated', { enabled });
+
+      // Nobody should be left knocking on a door that is now open
+      if (!enabled) {
+        for (const request of await redisService.lobby.getRequests(roomId)) {
+          if (request.status === 'pending') {
+            await admitRequest(io, roomId, request);
+          }
+        }
+      }
+
+      await emitLobbyUpdate(io, roomId);
+      logger.info(`Lobby ${enabled ? 'enabled' : 'disabled'} in room ${roomId} by ${currentUser.name}`);
+    } catch (error) {
+      logger.error('Error setting lobby', { error });
+      socket.emit('error', { error: 'Failed to change the lobby setting' });
+    }
+  });
+
+  // Host lets someone in from the lobby, or turns them away
+  socket.on('respond-to-lobby-request', async data => {
+    try {
+      const validatedData = validateData(RespondToLobbyRequestDataSchema, data, socket);
+      if (!validatedData) return;
+
+      const { roomId, requestId, approve } = validatedData;
+      const room = await redisService.rooms.getRoom(roomId);
+      if (!room) {
+        socket.emit('room-error', { error: 'Room not found' });
+        return;
+      }
+
+      const currentUser = authorize(socket, room, 'manage-room', 'Only hosts can admit users');
+      if (!currentUser) return;
+
+      const request = await redisService.lobby.getRequest(roomId, requestId);
+      if (!request || request.status !== 'pending') {
+        socket.emit('error', { error: 'That request is no longer waiting' });
+        await emitLobbyUpdate(io, roomId);
+        return;
+      }
+
+      if (approve) {
+        await admitRequest(io, roomId, request);
+      } else {
+        await redisService.lobby.removeRequest(roomId, requestId);
+        io.to(request.socketId).emit('room-error', {
+          error: `${currentUser.name} declined your request to join this room`,
+        });
+      }
+
+      await emitLobbyUpdate(io, roomId);
+      logger.info(`${currentUser.name} ${approve ? 'admitted' : 'declined'} ${request.userName} in room ${roomId}`);
+    } catch (error) {
+      logger.error('Error responding to lobby request', { error });
+      socket.emit('error', { error: 'Failed to respond to the request' });
+    }
+  });
+}
+
+// Parks a joining user in the lobby until a host answers. Everything a host does with the request after
+// this goes to the socket by ID, so it reaches the user on whichever server they are connected to
+export async function queueLobbyRequest(
+  socket: Socket<SocketEvents, SocketEvents, object, SocketData>,
+  io: IOServer,
+  roomId: string,
+  userName: string
+): Promise<void> {
+  // Repeated join attempts from the same socket keep their place in line
+  const existing = socket.data.lobbyRequest;
+  if (existing?.roomId === roomId) {
+    const request = await redisService.lobby.getRequest(roomId, existing.requestId);
+    if (request?.status === 'pending' && request.userName === userName) {
+      socket.emit('lobby-waiting', { roomId, requestId: request.id, expiresAt: request.expiresAt });
+      return;
+    }
+  }
+
+  const now = Date.now();
+  const request: LobbyRequest = {
+    id: uuidv4(),
+    userName,
+    socketId: socket.id,
+    status: 'pending',
+    requestedAt: now,
+    expiresAt: now + LOBBY_REQUEST_TTL_MS,
+  };
+
+  await redisService.lobby.saveRequest(roomId, request);
+  socket.data.lobbyRequest = { roomId, requestId: request.id };
+
+  socket.emit('lobby-waiting', { roomId, requestId: request.id, expiresAt: request.expiresAt });
+  scheduleLobbyExpiry(io, roomId, request);
+  await emitLobbyUpdate(io, roomId);
+
+  logger.info(`${userName} is waiting in the lobby of room ${roomId}`);
+}
+
+// Whether this join attempt carries an admission a host handed out for this name
+export async function getLobbyAdmission(
+  roomId: string,
+  admissionId: string | undefined,
+  userName: string
+): Promise<LobbyRequest | null> {
+  if (!admissionId) return null;
+
+  const request = await redisService.lobby.getRequest(roomId, admissionId);
+  return request?.status === 'approved' && request.userName === userName ? request : null;
+}
+
+// Hosts see the lobby as it is, with anyone who waited too long turned away
+export async function emitLobbyUpdate(io: IOServer, roomId: string): Promise<void> {
+  for (const request of await redisService.lobby.removeExpiredRequests(roomId)) {
+    if (request.status === 'pending') {
+      io.to(request.socketId).emit('room-error', {
+        error: 'Nobody let you in before your request expired. Please try joining again.',
+      });
+    }
+  }
+
+  const room = await redisService.rooms.getRoom(roomId);
+  if (!room) return;
+
+  const requests = (await redisService.lobby.getRequests(roomId)).filter(request => request.status === 'pending');
+  await emitToPermitted(io, room, 'manage-room', 'lobby-updated', { requests });
+}
+
+// A waiting user gave up, so hosts should stop seeing them
+export async function handleLobbyDisconnect(
+  socket: Socket<SocketEvents, SocketEvents, object, SocketData>,
+  io: IOServer
+): Promise<void> {
+  const lobbyRequest = socket.data.lobbyRequest;
+  if (!lobbyRequest) return;
+
+  try {
+    // A host on any server may have answered it already, and then there is nothing to take back
+    if (!(await redisService.lobby.getRequest(lobbyRequest.roomId, lobbyRequest.requestId))) return;
+
+    await redisService.lobby.removeRequest(lobbyRequest.roomId, lobbyRequest.requestId);
+    await emitLobbyUpdate(io, lobbyRequest.roomId);
+  } catch (error) {
+    logger.error('Error removing lobby request', { error });
+  }
+}
+
+async function admitRequest(io: IOServer, roomId: string, request: LobbyRequest): Promise<void> {
+  // The admission is only good for a while, in case the user never comes back for it
+  const admitted: LobbyRequest = { ...request, status: 'approved', expiresAt: Date.now() + LOBBY_REQUEST_TTL_MS };
+  await redisService.lobby.saveRequest(roomId, admitted);
+  io.to(request.socketId).emit('lobby-admitted', { roomId, requestId: request.id });
+}
+
+function scheduleLobbyExpiry(io: IOServer, roomId: string, request: LobbyRequest) {
+  setTimeout(
+    async () => {
+      try {
+        await emitLobbyUpdate(io, roomId);
+      } catch (error) {
+        logger.error('Error expiring lobby request', { error });
+      }
+    },
+    Math.max(0, request.expiresAt - Date.now()) + 1000
+  );
+}
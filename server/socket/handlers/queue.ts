@@ -0,0 +1,191 @@
+import { Socket, Server as IOServer } from 'socket.io';
+import { v4 as uuidv4 } from 'uuid';
+import { redisService } from '@/server/redis';
+import { logger } from '@/server/logger';
+import {
+  QueueItem,
+  EnqueueVideoDataSchema,
+  QueueItemActionDataSchema,
+  ReorderQueueDataSchema,
+  RoomActionDataSchema,
+  VideoEndedDataSchema,
+} from '@/types';
+import { SocketEvents, SocketData } from '../types';
+import { authorize, validateData, getVideoType, getPlaybackDeniedMessage } from '../utils';
+import { canControlPlayback, hasPermission } from '@/lib/permissions';
+
+export function registerQueueHandlers(socket: Socket<SocketEvents, SocketEvents, object, SocketData>, io: IOServer) {
+  // Add a video to the end of the queue
+  socket.on('enqueue-video', async data => {
+    try {
+      const validatedData = validateData(EnqueueVideoDataSchema, data, socket);
+      if (!validatedData) return;
+
+      const { roomId, videoUrl } = validatedData;
+      const room = await redisService.rooms.getRoom(roomId);
+      if (!room) {
+        socket.emit('room-error', { error: 'Room not found' });
+        return;
+      }
+
+      const currentUser = authorize(socket, room, 'set-video', 'Only hosts can add videos to the queue');
+      if (!currentUser) return;
+
+      const item: QueueItem = {
+        id: uuidv4(),
+        videoUrl,
+        videoType: getVideoType(videoUrl),
+        addedBy: currentUser.id,
+        addedByName: currentUser.name,
+        addedAt: new Date(),
+      };
+
+      await addToQueue(io, roomId, item);
+      logger.info(`Video queued in room ${roomId} by ${currentUser.name}: ${videoUrl}`);
+    } catch (error) {
+      logger.error('Error queueing video', { error });
+      socket.emit('error', { error: 'Failed to add video to queue' });
+    }
+  });
+
+  // Remove a video from the queue
+  socket.on('dequeue-video', async data => {
+    try {
+      const validatedData = validateData(QueueItemActionDataSchema, data, socket);
+      if (!validatedData) return;
+
+      const { roomId, itemId } = validatedData;
+      const room = await redisService.rooms.getRoom(roomId);
+      if (!room) {
+        socket.emit('room-error', { error: 'Room not found' });
+        return;
+      }
+
+      const currentUser = authorize(socket, room, 'set-video', 'Only hosts can manage the queue');
+      if (!currentUser) return;
+
+      if (!room.queue.some(item => item.id === itemId)) {
+        socket.emit('error', { error: 'Queue item not found' });
+        return;
+      }
+
+      const queue = await redisService.rooms.removeFromQueue(roomId, itemId);
+
+      io.to(roomId).emit('queue-updated', { queue });
+      logger.info(`Queue item ${itemId} removed in room ${roomId} by ${currentUser.name}`);
+    } catch (error) {
+      logger.error('Error removing queue item', { error });
+      socket.emit('error', { error: 'Failed to remove video from queue' });
+    }
+  });
+
+  // Move a queued video to a new position
+  socket.on('reorder-queue', async data => {
+    try {
+      const validatedData = validateData(ReorderQueueDataSchema, data, socket);
+      if (!validatedData) return;
+
+      const { roomId, itemId, toIndex } = validatedData;
+      const room = await redisService.rooms.getRoom(roomId);
+      if (!room) {
+        socket.emit('room-error', { error: 'Room not found' });
+        return;
+      }
+
+      const currentUser = authorize(socket, room, 'set-video', 'Only hosts can manage the queue');
+      if (!currentUser) return;
+
+      if (!room.queue.some(item => item.id === itemId)) {
+        socket.emit('error', { error: 'Queue item not found' });
+        return;
+      }
+
+      const queue = await redisService.rooms.reorderQueue(roomId, itemId, toIndex);
+
+      io.to(roomId).emit('queue-updated', { queue });
+      logger.info(`Queue item ${itemId} moved to position ${toIndex} in room ${roomId}`);
+    } catch (error) {
+      logger.error('Error reordering queue', { error });
+      socket.emit('error', { error: 'Failed to reorder queue' });
+    }
+  });
+
+  // Skip straight to the next queued video
+  socket.on('skip-video', async data => {
+    try {
+      const validatedData = validateData(RoomActionDataSchema, data, socket);
+      if (!validatedData) return;
+
+      const { roomId } = validatedData;
+      const room = await redisService.rooms.getRoom(roomId);
+      if (!room) {
+        socket.emit('room-error', { error: 'Room not found' });
+        return;
+      }
+
+      const currentUser = room.users.find(u => u.id === socket.data.userId);
+      if (!canControlPlayback(room, currentUser)) {
+        socket.emit('error', { error: getPlaybackDeniedMessage(room, currentUser) });
+        return;
+      }
+
+      if (room.queue.length === 0) {
+        socket.emit('error', { error: 'The video queue is empty' });
+        return;
+      }
+
+      // Two people skipping the same video only skip it once
+      await advanceQueue(io, roomId, room.videoId);
+      logger.info(`Video skipped in room ${roomId} by ${currentUser.name}`);
+    } catch (error) {
+      logger.error('Error skipping video', { error });
+      socket.emit('error', { error: 'Failed to skip video' });
+    }
+  });
+
+  // Auto-advance when a host's player reaches the end of the current video
+  socket.on('video-ended', async data => {
+    try {
+      const validatedData = validateData(VideoEndedDataSchema, data, socket);
+      if (!validatedData) return;
+
+      const { roomId, videoId } = validatedData;
+      const room = await redisService.rooms.getRoom(roomId);
+      if (!room) {
+        socket.emit('room-error', { error: 'Room not found' });
+        return;
+      }
+
+      const currentUser = room.users.find(u => u.id === socket.data.userId);
+      if (!hasPermission(currentUser, 'set-video')) return;
+
+      // Several hosts report the same ending, only the first one for the current video counts
+      if (!(await advanceQueue(io, roomId, videoId))) return;
+      logger.info(`Video ended in room ${roomId}, advanced to next in queue`);
+    } catch (error) {
+      logger.error('Error advancing queue', { error });
+    }
+  });
+}
+
+// Append an item to the room's queue and broadcast the new order
+export async function addToQueue(io: IOServer, roomId: string, item: QueueItem): Promise<void> {
+  const queue = await redisService.rooms.enqueueVideo(roomId, item);
+
+  io.to(roomId).emit('queue-updated', { queue });
+
+  // Nothing is playing yet, so start the queue right away
+  await advanceQueue(io, roomId, undefined);
+}
+
+// Move to the next queued video, if any and if the room is still on currentVideoId, and tell everyone to load it
+// Returns whether it moved on
+export async function advanceQueue(io: IOServer, roomId: string, currentVideoId: string | undefined): Promise<boolean> {
+  const result = await redisService.rooms.advanceQueue(roomId, currentVideoId);
+  if (!result) return false;
+
+  const { item, queue } = result;
+  io.to(roomId).emit('video-set', { videoUrl: item.videoUrl, videoId: item.id, videoType: item.videoType });
+  io.to(roomId).emit('queue-updated', { queue });
+  return true;
+}
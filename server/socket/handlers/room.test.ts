@@ -0,0 +1,88 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { v4 as uuidv4 } from 'uuid';
+import { isRedisAvailable } from '@/test/redis';
+import { Client, Instance, connectTo, next, startInstance } from '@/test/server';
+
+const PASSWORD = 'correct horse';
+
+describe.skipIf(!(await isRedisAvailable()))('joining rooms', () => {
+  let server: Instance;
+  const clients: Client[] = [];
+
+  function client(clientId?: string): Client {
+    const c = connectTo(server, clientId);
+    clients.push(c);
+    return c;
+  }
+
+  async function createRoom(password?: string) {
+    const host = client();
+    const created = next(host, 'room-created');
+    host.emit('create-room', { hostName: 'Host', password });
+    const { roomId } = await created;
+    return { roomId, host };
+  }
+
+  beforeAll(async () => {
+    server = await startInstance();
+  });
+
+  afterAll(async () => {
+    clients.forEach(c => c.disconnect());
+    await server?.stop();
+  });
+
+  it('keeps a guesser locked out when they come back with a new client ID', async () => {
+    const { roomId } = await createRoom(PASSWORD);
+
+    for (let attempt = 0; attempt < 5; attempt++) {
+      const guesser = client();
+      const refused = next(guesser, 'room-password-required');
+      guesser.emit('join-room', { roomId, userName: `Guesser ${attempt}`, password: `guess ${attempt}` });
+      expect((await refused).incorrect).toBe(true);
+      guesser.disconnect();
+    }
+
+    const guesser = client();
+    const lockedOut = next(guesser, 'room-error');
+    guesser.emit('join-room', { roomId, userName: 'Guesser', password: PASSWORD });
+    expect((await lockedOut).error).toMatch(/Too many incorrect password attempts/);
+  });
+
+  it('lets the owner back in as themselves with the token they were given on creating the room', async () => {
+    const clientId = uuidv4();
+    const host = client(clientId);
+    const created = next(host, 'room-created');
+    const joined = next(host, 'room-joined');
+    host.emit('create-room', { hostName: 'Host' });
+    const { roomId } = await created;
+    const { user, rejoinToken } = await joined;
+    expect(rejoinToken).toBeTruthy();
+
+    // A refresh is a new connection from the same browser
+    host.disconnect();
+    const returning = client(clientId);
+    const rejoined = next(returning, 'room-joined');
+    returning.emit('join-room', { roomId, userName: 'Host', rejoinToken });
+
+    const { user: rejoinedAs, room } = await rejoined;
+    expect(rejoinedAs.id).toBe(user.id);
+    expect(rejoinedAs.role).toBe('owner');
+    expect(room.users).toHaveLength(1);
+  });
+
+  it('sends a rejoin token to someone asking again for a room they are already in', async () => {
+    const { roomId } = await createRoom();
+    const guest = client();
+    const joined = next(guest, 'room-joined');
+    guest.emit('join-room', { roomId, userName: 'Guest' });
+    const { user } = await joined;
+
+    // The room page asks again on the same connection the join page used
+    const joinedAgain = next(guest, 'room-joined');
+    guest.emit('join-room', { roomId, userName: 'Guest' });
+    const { user: sameUser, rejoinToken } = await joinedAgain;
+    expect(sameUser.id).toBe(user.id);
+    expect(rejoinToken).toBeTruthy();
+  });
+});
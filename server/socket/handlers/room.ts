@@ -1,17 +1,47 @@
 import { Socket, Server as IOServer } from 'socket.io';
 import { v4 as uuidv4 } from 'uuid';
 import { redisService } from '@/server/redis';
-import { generateRoomId } from '@/lib/video-utils';
+import { logger } from '@/server/logger';
+import { calculateCurrentTime } from '@/lib/video-utils';
+import { ROLE_LABELS, canAssignRole, hasPermission, isHost, outranks } from '@/lib/permissions';
 import {
+  ChatMessage,
   Room,
   User,
+  DEFAULT_VOTE_SETTINGS,
   CreateRoomDataSchema,
   JoinRoomDataSchema,
   RoomActionDataSchema,
   KickUserDataSchema,
+  UnbanUserDataSchema,
+  SetRoomPasswordDataSchema,
+  SetUserRoleDataSchema,
+  DemoteHostDataSchema,
+  TransferOwnershipDataSchema,
 } from '@/types';
 import { SocketEvents, SocketData } from '../types';
-import { validateData } from '../utils';
+import {
+  authorize,
+  createRejoinToken,
+  emitBans,
+  fetchSocket,
+  hashPassword,
+  toPublicRoom,
+  validateData,
+  verifyPassword,
+  verifyRejoinToken,
+} from '../utils';
+import { applyBufferingWait } from './buffering';
+import { emitLobbyUpdate, getLobbyAdmission, queueLobbyRequest } from './lobby';
+import { chooseSuccessor, promoteUser, startHostElection } from './succession';
+
+// Guesses allowed per address before they have to wait out the lockout
+const MAX_PASSWORD_ATTEMPTS = 5;
+// Guesses allowed for the whole room in the same window, however many addresses they come from
+const MAX_ROOM_PASSWORD_ATTEMPTS = 50;
+
+// How long a dropped connection keeps its seat, DISCONNECT_GRACE_SECONDS=0 removes people right away
+const DISCONNECT_GRACE_MS = parseGraceSeconds(process.env.DISCONNECT_GRACE_SECONDS) * 1000;
 
 export function registerRoomHandlers(socket: Socket<SocketEvents, SocketEvents, object, SocketData>, io: IOServer) {
   // Create room
@@ -20,19 +50,17 @@ export function registerRoomHandlers(socket: Socket<SocketEvents, SocketEvents,
       const validatedData = validateData(CreateRoomDataSchema, data, socket);
       if (!validatedData) return;
 
-      const { hostName } = validatedData;
-      const roomId = generateRoomId();
+      const { hostName, persistent, slug, password } = validatedData;
       const userId = uuidv4();
 
       const user: User = {
         id: userId,
         name: hostName,
-        isHost: true,
+        role: 'owner',
         joinedAt: new Date(),
       };
 
-      const room: Room = {
-        id: roomId,
+      const newRoom: Omit<Room, 'id'> = {
         hostId: userId,
         hostName: hostName,
         hostToken: uuidv4(),
@@ -42,12 +70,33 @@ export function registerRoomHandlers(socket: Socket<SocketEvents, SocketEvents,
           currentTime: 0,
           duration: 0,
           lastUpdateTime: Date.now(),
+          playbackRate: 1,
         },
+        controlMode: 'host',
+        voteSettings: DEFAULT_VOTE_SETTINGS,
+        queue: [],
+        suggestions: [],
+        waitForBuffering: false,
+        bufferingUserIds: [],
+        pausedForBuffering: false,
+        isPersistent: persistent ?? false,
+        hasPassword: !!password,
+        passwordHash: password ? await hashPassword(password) : undefined,
+        lobbyEnabled: false,
+        hostSuccession: 'close',
+        hostElection: null,
         users: [user],
         createdAt: new Date(),
       };
 
-      await redisService.rooms.createRoom(room);
+      const room = await redisService.rooms.allocateRoom(newRoom, slug);
+      if (!room) {
+        socket.emit('room-error', {
+          error: slug ? `The room name "${slug}" is already taken. Please choose another.` : 'Failed to create room',
+        });
+        return;
+      }
+      const roomId = room.id;
 
       socket.data.userId = userId;
       socket.data.userName = hostName;
@@ -58,45 +107,32 @@ export function registerRoomHandlers(socket: Socket<SocketEvents, SocketEvents,
       // Store userId -> socketId mapping in Redis for efficient lookup
       await redisService.userMapping.setUserSocket(userId, socket.id);
 
-      socket.emit('room-created', { roomId, room, hostToken: room.hostToken });
-      socket.emit('room-joined', { room, user });
-      console.log(`Room ${roomId} created by ${hostName} with token ${room.hostToken}`);
+      socket.emit('room-created', { roomId, room: toPublicRoom(room), hostToken: room.hostToken });
+      await emitRoomJoined(socket, room, user);
+      logger.info(`${room.isPersistent ? 'Persistent room' : 'Room'} ${roomId} created by ${hostName}`);
     } catch (error) {
-      console.error('Error creating room:', error);
+      logger.error('Error creating room', { error });
       socket.emit('room-error', { error: 'Failed to create room' });
     }
   });
 
   // Join room
   socket.on('join-room', async data => {
-    console.log(
-      `🔐 Join request: roomId=${data?.roomId}, userName=${data?.userName}, hostToken=${data?.hostToken ? 'PROVIDED' : 'MISSING'}, socketId=${socket.id}`
-    );
+    logger.info('Join request', { userName: data?.userName, hasHostToken: Boolean(data?.hostToken) });
 
-    // Check if this exact socket is already in this room
+    // Check if this exact socket is already in this room, which it joined as whoever it says it is
     if (data?.roomId && socket.rooms.has(data.roomId)) {
-      console.log(`🔄 Socket ${socket.id} already in room ${data.roomId}, checking if this is the room creator...`);
+      logger.info('Socket already in room, sending the room again');
 
       const room = await redisService.rooms.getRoom(data.roomId);
-      if (room) {
-        const existingUser = room.users.find(u => u.name === data?.userName?.trim());
-
-        if (existingUser) {
-          if (existingUser.isHost && data?.hostToken === room.hostToken) {
-            console.log(`✅ Room creator ${data.userName} already in room, emitting join success`);
-            socket.emit('room-joined', { room, user: existingUser });
-            return;
-          }
-
-          if (!existingUser.isHost) {
-            console.log(`✅ Guest ${data.userName} already in room, emitting join success`);
-            socket.emit('room-joined', { room, user: existingUser });
-            return;
-          }
-        }
+      const existingUser = room?.users.find(u => u.id === socket.data.userId);
+      if (room && existingUser) {
+        logger.info(`${existingUser.name} already in room, emitting join success`);
+        await emitRoomJoined(socket, room, existingUser);
+        return;
       }
 
-      console.log(`🔄 Ignoring duplicate join attempt for unknown user`);
+      logger.info('Ignoring duplicate join attempt for unknown user');
       return;
     }
 
@@ -104,25 +140,84 @@ export function registerRoomHandlers(socket: Socket<SocketEvents, SocketEvents,
       const validatedData = validateData(JoinRoomDataSchema, data, socket);
       if (!validatedData) return;
 
-      const { roomId, userName, hostToken } = validatedData;
+      const { roomId, userName, hostToken, password, admissionId, rejoinToken } = validatedData;
       const room = await redisService.rooms.getRoom(roomId);
       if (!room) {
         socket.emit('room-error', { error: 'Room not found' });
         return;
       }
 
+      // Hosts can't be kicked, so their token always gets them back in
+      if (hostToken !== room.hostToken) {
+        const activeBan = await redisService.bans.getActiveBan(roomId, socket.data.clientId);
+        if (activeBan) {
+          logger.info(`Banned client tried to join room ${roomId} as ${userName}`);
+          socket.emit('room-error', {
+            error:
+              activeBan.expiresAt === null
+                ? 'You have been banned from this room'
+                : `You were kicked from this room and can rejoin in ${formatMinutes(Math.ceil((activeBan.expiresAt - Date.now()) / 60000))}`,
+          });
+          return;
+        }
+      }
+
+      // Coming back after a refresh or dropped connection skips the door, since they were already inside
+      if (rejoinToken && (await rejoinRoom(socket, io, room, rejoinToken))) {
+        return;
+      }
+
+      // Someone let in from the lobby already got past the password when they knocked
+      const admission = await getLobbyAdmission(roomId, admissionId, userName);
+
+      // Hosts prove themselves with their token, everyone else needs the password
+      if (room.passwordHash && hostToken !== room.hostToken && !admission) {
+        // Client IDs are whatever the browser sends, so only the address counts towards the limit
+        const address = socket.handshake.address;
+        const failures = await redisService.passwordAttempts.getFailures(roomId, address);
+        if (failures.address >= MAX_PASSWORD_ATTEMPTS || failures.room >= MAX_ROOM_PASSWORD_ATTEMPTS) {
+          logger.info(`Too many password attempts for room ${roomId}`, { address, failures });
+          socket.emit('room-error', {
+            error: 'Too many incorrect password attempts. Please wait a few minutes and try again.',
+          });
+          return;
+        }
+
+        if (!password) {
+          socket.emit('room-password-required', { roomId, incorrect: false });
+          return;
+        }
+
+        if (!(await verifyPassword(password, room.passwordHash))) {
+          await redisService.passwordAttempts.recordFailure(roomId, address);
+          logger.info(`Incorrect password for room ${roomId} from ${userName}`);
+          socket.emit('room-password-required', { roomId, incorrect: true });
+          return;
+        }
+
+        await redisService.passwordAttempts.clearFailures(roomId, address);
+      }
+
       // Check if this user is already in the room (by name)
       const existingUser = room.users.find(u => u.name === userName);
       if (existingUser) {
-        if (existingUser.isHost) {
+        if (isHost(existingUser)) {
           if (!hostToken || hostToken !== room.hostToken) {
-            console.log(`Host impersonation attempt by ${userName} - existing user but invalid token`);
+            logger.info(`Host impersonation attempt by ${userName} - existing user but invalid token`);
             socket.emit('room-error', {
               error: 'Invalid host credentials. Only the room creator can join as host.',
             });
             return;
           }
-          console.log(`Host ${userName} verified with valid token (existing user)`);
+          logger.info(`Host ${userName} verified with valid token (existing user)`);
+
+          // The host's seat was being held while they were away
+          if (existingUser.awayUntil) {
+            await redisService.rooms.updateUser(roomId, existingUser.id, { awayUntil: undefined });
+            await redisService.awaySeats.releaseSeat(roomId, existingUser.id);
+            existingUser.awayUntil = undefined;
+            socket.to(roomId).emit('user-updated', { user: existingUser });
+          }
 
           socket.data.userId = existingUser.id;
           socket.data.userName = existingUser.name;
@@ -132,11 +227,14 @@ export function registerRoomHandlers(socket: Socket<SocketEvents, SocketEvents,
 
           // Store userId -> socketId mapping in Redis for efficient lookup
           await redisService.userMapping.setUserSocket(existingUser.id, socket.id);
-          console.log(`${userName} rejoined room ${roomId} (existing user, isHost: ${existingUser.isHost})`);
-          socket.emit('room-joined', { room, user: existingUser });
+          logger.info(`${userName} rejoined room ${roomId} (existing user, role: ${existingUser.role})`);
+          await emitRoomJoined(socket, room, existingUser);
+          // Anyone who knocked while the host was away is still waiting
+          await emitLobbyUpdate(io, roomId);
+          await emitBans(io, room);
           return;
         } else {
-          console.log(`Duplicate name attempt by ${userName} - name already taken by guest`);
+          logger.info(`Duplicate name attempt by ${userName} - name already taken by guest`);
           socket.emit('room-error', {
             error: `The name "${userName}" is already taken in this room. Please choose a different name.`,
           });
@@ -148,16 +246,14 @@ export function registerRoomHandlers(socket: Socket<SocketEvents, SocketEvents,
       const isClaimingHost = room.hostName === userName;
       let isRoomHost = false;
 
-      console.log(
-        `Join attempt: user="${userName}", isClaimingHost=${isClaimingHost}, hostToken="${hostToken}", roomHostToken="${room.hostToken}"`
-      );
+      logger.info('Join attempt', { userName, isClaimingHost, hasHostToken: Boolean(hostToken) });
 
       if (isClaimingHost) {
         if (hostToken && hostToken === room.hostToken) {
           isRoomHost = true;
-          console.log(`Host ${userName} verified with valid token`);
+          logger.info(`Host ${userName} verified with valid token`);
         } else {
-          console.log(`Host impersonation attempt by ${userName} - invalid or missing token`);
+          logger.info(`Host impersonation attempt by ${userName} - invalid or missing token`);
           socket.emit('room-error', {
             error: 'Invalid host credentials. Only the room creator can join as host.',
           });
@@ -165,7 +261,7 @@ export function registerRoomHandlers(socket: Socket<SocketEvents, SocketEvents,
         }
       } else {
         if (room.hostName === userName) {
-          console.log(`Guest attempting to use host name: ${userName}`);
+          logger.info(`Guest attempting to use host name: ${userName}`);
           socket.emit('room-error', {
             error: `The name "${userName}" is reserved for the room host. Please choose a different name.`,
           });
@@ -173,23 +269,41 @@ export function registerRoomHandlers(socket: Socket<SocketEvents, SocketEvents,
         }
       }
 
+      // With the lobby on, guests wait for a host to let them in
+      if (room.lobbyEnabled && !isRoomHost) {
+        if (!admission) {
+          await queueLobbyRequest(socket, io, roomId, userName);
+          return;
+        }
+        await redisService.lobby.removeRequest(roomId, admission.id);
+        socket.data.lobbyRequest = undefined;
+      }
+
       // Create new user
       const userId = uuidv4();
       const user: User = {
         id: userId,
         name: userName,
-        isHost: isRoomHost,
+        role: isRoomHost ? 'owner' : 'member',
         joinedAt: new Date(),
       };
 
+      // Two people picking the same name at once can both get past the check above
+      if (!(await redisService.rooms.addUserToRoom(roomId, user))) {
+        socket.emit('room-error', {
+          error: `The name "${userName}" is already taken in this room. Please choose a different name.`,
+        });
+        return;
+      }
+
       // If this is the host rejoining, update the room's hostId
       if (isRoomHost) {
-        room.hostId = userId;
-        await redisService.rooms.updateRoom(roomId, room);
-        console.log(`Host ${userName} rejoining room ${roomId} with new user ID`);
+        await redisService.rooms.mutateRoom(roomId, r => {
+          r.hostId = userId;
+        });
+        logger.info(`Host ${userName} rejoining room ${roomId} with new user ID`);
       }
 
-      await redisService.rooms.addUserToRoom(roomId, user);
       const updatedRoom = await redisService.rooms.getRoom(roomId);
 
       socket.data.userId = userId;
@@ -201,12 +315,17 @@ export function registerRoomHandlers(socket: Socket<SocketEvents, SocketEvents,
       // Store userId -> socketId mapping in Redis for efficient lookup
       await redisService.userMapping.setUserSocket(userId, socket.id);
 
-      socket.emit('room-joined', { room: updatedRoom!, user });
+      await emitRoomJoined(socket, updatedRoom!, user);
       socket.to(roomId).emit('user-joined', { user });
 
-      console.log(`${userName} joined room ${roomId} as ${isRoomHost ? 'host' : 'guest'}`);
+      if (isRoomHost) {
+        await emitLobbyUpdate(io, roomId);
+        await emitBans(io, updatedRoom!);
+      }
+
+      logger.info(`${userName} joined room ${roomId} as ${isRoomHost ? 'host' : 'guest'}`);
     } catch (error) {
-      console.error('Error joining room:', error);
+      logger.error('Error joining room', { error });
       socket.emit('room-error', { error: 'Failed to join room' });
     }
   });
@@ -217,7 +336,33 @@ export function registerRoomHandlers(socket: Socket<SocketEvents, SocketEvents,
     if (!validatedData) return;
 
     const { roomId } = validatedData;
-    await handleLeaveRoom(socket, roomId, true);
+    await handleLeaveRoom(socket, io, roomId, true);
+  });
+
+  // Set, change or remove the room password
+  socket.on('set-room-password', async data => {
+    try {
+      const validatedData = validateData(SetRoomPasswordDataSchema, data, socket);
+      if (!validatedData) return;
+
+      const { roomId, password } = validatedData;
+      const room = await redisService.rooms.getRoom(roomId);
+      if (!room) {
+        socket.emit('room-error', { error: 'Room not found' });
+        return;
+      }
+
+      const currentUser = authorize(socket, room, 'manage-room', 'Only hosts can change the room password');
+      if (!currentUser) return;
+
+      await redisService.rooms.setPassword(roomId, password ? await hashPassword(password) : null);
+
+      io.to(roomId).emit('room-password-updated', { hasPassword: !!password });
+      logger.info(`Password ${password ? 'set' : 'removed'} for room ${roomId} by ${currentUser.name}`);
+    } catch (error) {
+      logger.error('Error setting room password', { error });
+      socket.emit('error', { error: 'Failed to update the room password' });
+    }
   });
 
   // Promote user to host
@@ -234,11 +379,8 @@ export function registerRoomHandlers(socket: Socket<SocketEvents, SocketEvents,
         return;
       }
 
-      const currentUser = room.users.find(u => u.id === socket.data.userId);
-      if (!currentUser?.isHost) {
-        socket.emit('error', { error: 'Only hosts can promote users' });
-        return;
-      }
+      const currentUser = authorize(socket, room, 'manage-room', 'Only hosts can promote users');
+      if (!currentUser) return;
 
       const targetUser = room.users.find(u => u.id === userId);
       if (!targetUser) {
@@ -246,38 +388,119 @@ export function registerRoomHandlers(socket: Socket<SocketEvents, SocketEvents,
         return;
       }
 
-      if (targetUser.isHost) {
+      if (isHost(targetUser)) {
         socket.emit('error', { error: 'User is already a host' });
         return;
       }
 
-      // Update user to host
-      const updatedUsers = room.users.map(u => (u.id === userId ? { ...u, isHost: true } : u));
-      const updatedRoom = { ...room, users: updatedUsers };
-      await redisService.rooms.updateRoom(roomId, updatedRoom);
+      if (!canAssignRole(currentUser, targetUser, 'host')) {
+        socket.emit('error', { error: 'You cannot promote someone of your own rank or higher' });
+        return;
+      }
 
-      io.to(roomId).emit('user-promoted', { userId, userName: targetUser.name });
+      await promoteUser(io, roomId, userId);
 
-      console.log(`${targetUser.name} promoted to host in room ${roomId} by ${currentUser.name}`);
+      logger.info(`${targetUser.name} promoted to host in room ${roomId} by ${currentUser.name}`);
     } catch (error) {
-      console.error('Error promoting user:', error);
+      logger.error('Error promoting user', { error });
       socket.emit('error', { error: 'Failed to promote user' });
     }
   });
 
-  // Kick user
-  socket.on('kick-user', async data => {
+  // Give someone a different role, up to the one you hold yourself
+  socket.on('set-user-role', async data => {
     try {
-      const validatedData = validateData(KickUserDataSchema, data, socket);
+      const validatedData = validateData(SetUserRoleDataSchema, data, socket);
+      if (!validatedData) return;
+
+      const { roomId, userId, role } = validatedData;
+      const room = await redisService.rooms.getRoom(roomId);
+      if (!room) {
+        socket.emit('room-error', { error: 'Room not found' });
+        return;
+      }
+
+      const currentUser = authorize(socket, room, 'manage-room', 'Only hosts can change roles');
+      if (!currentUser) return;
+
+      const targetUser = room.users.find(u => u.id === userId);
+      if (!targetUser) {
+        socket.emit('error', { error: 'User not found' });
+        return;
+      }
+
+      if (!canAssignRole(currentUser, targetUser, role)) {
+        socket.emit('error', { error: `You cannot make ${targetUser.name} a ${ROLE_LABELS[role].toLowerCase()}` });
+        return;
+      }
+
+      const updatedUser = await redisService.rooms.updateUser(roomId, userId, { role });
+      if (!updatedUser) return;
+
+      io.to(roomId).emit('user-role-updated', { userId, userName: targetUser.name, role });
+      await applyRoleChange(io, roomId, updatedUser);
+
+      logger.info(`${targetUser.name} is now a ${role} in room ${roomId}, set by ${currentUser.name}`);
+    } catch (error) {
+      logger.error('Error setting user role', { error });
+      socket.emit('error', { error: 'Failed to change role' });
+    }
+  });
+
+  // Take host away from someone, leaving them a regular member
+  socket.on('demote-host', async data => {
+    try {
+      const validatedData = validateData(DemoteHostDataSchema, data, socket);
       if (!validatedData) return;
 
       const { roomId, userId } = validatedData;
+      const room = await redisService.rooms.getRoom(roomId);
+      if (!room) {
+        socket.emit('room-error', { error: 'Room not found' });
+        return;
+      }
 
-      if (!socket.data.userId) {
-        socket.emit('error', { error: 'Not authenticated' });
+      const currentUser = authorize(socket, room, 'manage-room', 'Only hosts can demote users');
+      if (!currentUser) return;
+
+      const targetUser = room.users.find(u => u.id === userId);
+      if (!targetUser) {
+        socket.emit('error', { error: 'User not found' });
+        return;
+      }
+
+      if (targetUser.role !== 'host') {
+        socket.emit('error', {
+          error: targetUser.role === 'owner' ? 'The owner cannot be demoted' : 'User is not a host',
+        });
         return;
       }
 
+      if (!canAssignRole(currentUser, targetUser, 'member')) {
+        socket.emit('error', { error: 'Only the owner can demote other hosts' });
+        return;
+      }
+
+      const updatedUser = await redisService.rooms.updateUser(roomId, userId, { role: 'member' });
+      if (!updatedUser) return;
+
+      io.to(roomId).emit('user-demoted', { userId, userName: targetUser.name });
+      await applyRoleChange(io, roomId, updatedUser);
+
+      logger.info(`${targetUser.name} demoted from host in room ${roomId} by ${currentUser.name}`);
+    } catch (error) {
+      logger.error('Error demoting user', { error });
+      socket.emit('error', { error: 'Failed to demote user' });
+    }
+  });
+
+  // Hand the room over to someone else, the old owner stays on as a host
+  socket.on('transfer-ownership', async data => {
+    try {
+      const validatedData = validateData(TransferOwnershipDataSchema, data, socket);
+      if (!validatedData) return;
+
+      const { roomId, userId } = validatedData;
       const room = await redisService.rooms.getRoom(roomId);
       if (!room) {
         socket.emit('room-error', { error: 'Room not found' });
@@ -285,8 +508,8 @@ export function registerRoomHandlers(socket: Socket<SocketEvents, SocketEvents,
       }
 
       const currentUser = room.users.find(u => u.id === socket.data.userId);
-      if (!currentUser?.isHost) {
-        socket.emit('error', { error: 'Only hosts can kick users' });
+      if (currentUser?.role !== 'owner') {
+        socket.emit('error', { error: 'Only the owner can transfer ownership' });
         return;
       }
 
@@ -296,8 +519,102 @@ export function registerRoomHandlers(socket: Socket<SocketEvents, SocketEvents,
         return;
       }
 
-      if (targetUser.isHost) {
-        socket.emit('error', { error: 'Cannot kick another host' });
+      if (targetUser.id === currentUser.id) {
+        socket.emit('error', { error: 'You already own this room' });
+        return;
+      }
+
+      // A fresh token means the old owner's saved credentials stop working as owner
+      const hostToken = uuidv4();
+      const transferred = await redisService.rooms.mutateRoom(roomId, r => {
+        const owner = r.users.find(u => u.id === currentUser.id && u.role === 'owner');
+        const target = r.users.find(u => u.id === targetUser.id);
+        if (!owner || !target) return false;
+
+        r.hostId = target.id;
+        r.hostName = target.name;
+        r.hostToken = hostToken;
+        owner.role = 'host';
+        target.role = 'owner';
+        return true;
+      });
+      if (!transferred) {
+        socket.emit('error', { error: 'The room changed before ownership could be transferred' });
+        return;
+      }
+
+      const transfer = { previousOwnerId: currentUser.id, userId, userName: targetUser.name };
+      const targetSocketId = await redisService.userMapping.getUserSocket(userId);
+      if (targetSocketId) {
+        io.to(roomId).except(targetSocketId).emit('ownership-transferred', transfer);
+        io.to(targetSocketId).emit('ownership-transferred', { ...transfer, hostToken });
+      } else {
+        io.to(roomId).emit('ownership-transferred', transfer);
+      }
+
+      await applyRoleChange(io, roomId, { ...targetUser, role: 'owner' });
+
+      logger.info(`Ownership of room ${roomId} transferred from ${currentUser.name} to ${targetUser.name}`);
+    } catch (error) {
+      logger.error('Error transferring ownership', { error });
+      socket.emit('error', { error: 'Failed to transfer ownership' });
+    }
+  });
+
+  // Lift a ban or cooldown early
+  socket.on('unban-user', async data => {
+    try {
+      const validatedData = validateData(UnbanUserDataSchema, data, socket);
+      if (!validatedData) return;
+
+      const { roomId, banId } = validatedData;
+      const room = await redisService.rooms.getRoom(roomId);
+      if (!room) {
+        socket.emit('room-error', { error: 'Room not found' });
+        return;
+      }
+
+      const currentUser = authorize(socket, room, 'kick', 'Only hosts and moderators can unban users');
+      if (!currentUser) return;
+
+      if (!(await redisService.bans.removeBan(roomId, banId))) {
+        socket.emit('error', { error: 'Ban not found' });
+        return;
+      }
+
+      await emitBans(io, room);
+      logger.info(`Ban ${banId} lifted in room ${roomId} by ${currentUser.name}`);
+    } catch (error) {
+      logger.error('Error unbanning user', { error });
+      socket.emit('error', { error: 'Failed to unban user' });
+    }
+  });
+
+  // Kick user
+  socket.on('kick-user', async data => {
+    try {
+      const validatedData = validateData(KickUserDataSchema, data, socket);
+      if (!validatedData) return;
+
+      const { roomId, userId, cooldownMinutes, ban } = validatedData;
+
+      if (!socket.data.userId) {
+        socket.emit('error', { error: 'Not authenticated' });
+        return;
+      }
+
+      const room = await redisService.rooms.getRoom(roomId);
+      if (!room) {
+        socket.emit('room-error', { error: 'Room not found' });
+        return;
+      }
+
+      const currentUser = authorize(socket, room, 'kick', 'Only hosts and moderators can kick users');
+      if (!currentUser) return;
+
+      const targetUser = room.users.find(u => u.id === userId);
+      if (!targetUser) {
+        socket.emit('error', { error: 'User not found' });
         return;
       }
 
@@ -306,22 +623,44 @@ export function registerRoomHandlers(socket: Socket<SocketEvents, SocketEvents,
         return;
       }
 
-      // Get the target user's socket ID from Redis
+      if (!outranks(currentUser, targetUser)) {
+        socket.emit('error', { error: 'You cannot kick someone of your own rank or higher' });
+        return;
+      }
+
+      // Get the target user's socket from Redis, wherever they are connected
       const targetSocketId = await redisService.userMapping.getUserSocket(userId);
+      const targetSocket = targetSocketId ? await fetchSocket(io, targetSocketId) : undefined;
 
-      // Remove user from room first
-      const updatedUsers = room.users.filter(u => u.id !== userId);
-      const updatedRoom = { ...room, users: updatedUsers };
-      await redisService.rooms.updateRoom(roomId, updatedRoom);
+      // Bans follow the browser rather than the name, so a new name doesn't get around them
+      if (ban || cooldownMinutes) {
+        const targetClientId = targetSocket?.data.clientId;
+        if (!targetClientId) {
+          socket.emit('error', { error: `Cannot ban ${targetUser.name} while they are disconnected` });
+          return;
+        }
+
+        const now = Date.now();
+        await redisService.bans.addBan(roomId, targetClientId, {
+          id: uuidv4(),
+          userName: targetUser.name,
+          bannedByName: currentUser.name,
+          bannedAt: now,
+          expiresAt: cooldownMinutes && !ban ? now + cooldownMinutes * 60 * 1000 : null,
+        });
+      }
+
+      // Remove user from room first, along with anything a rejoin token could bring them back with
+      const updatedRoom = await redisService.rooms.removeUserFromRoom(roomId, userId);
+      await redisService.rejoins.removeDeparture(roomId, userId);
 
       // Remove the kicked user from Socket.IO room and notify them
       if (targetSocketId) {
-        const targetSocket = io.sockets.sockets.get(targetSocketId);
         if (targetSocket) {
           // Remove them from voice room if joined
           const voiceRoom = `voice:${roomId}`;
           if (targetSocket.rooms.has(voiceRoom)) {
-            targetSocket.to(voiceRoom).emit('voice-peer-left', { userId });
+            io.to(voiceRoom).except(targetSocket.id).emit('voice-peer-left', { userId });
             await targetSocket.leave(voiceRoom);
           }
 
@@ -330,12 +669,15 @@ export function registerRoomHandlers(socket: Socket<SocketEvents, SocketEvents,
 
           // Then notify them they were kicked
           targetSocket.emit('room-error', {
-            error: `You have been kicked from the room by ${currentUser.name}`,
+            error: `You have been kicked from the room by ${currentUser.name}${
+              ban ? ' and banned' : cooldownMinutes ? ` and can rejoin in ${formatMinutes(cooldownMinutes)}` : ''
+            }`,
           });
         }
 
         // Remove userId -> socketId mapping from Redis
         await redisService.userMapping.removeUserSocket(userId);
+        await redisService.syncHealth.removeReport(roomId, userId);
       }
 
       // Send to all users in the room (including the host who initiated the kick)
@@ -345,9 +687,21 @@ export function registerRoomHandlers(socket: Socket<SocketEvents, SocketEvents,
         kickedBy: currentUser.id,
       });
 
-      console.log(`${targetUser.name} was kicked from room ${roomId} by ${currentUser.name}`);
+      // The room should not keep waiting on someone who is gone
+      if (room.bufferingUserIds.includes(userId)) {
+        io.to(roomId).emit('buffering-updated', { bufferingUserIds: updatedRoom.bufferingUserIds });
+        await applyBufferingWait(io, roomId);
+      }
+
+      if (ban || cooldownMinutes) {
+        await emitBans(io, updatedRoom);
+      }
+
+      logger.info(
+        `${targetUser.name} was ${ban ? 'banned' : 'kicked'} from room ${roomId} by ${currentUser.name}${cooldownMinutes && !ban ? ` for ${cooldownMinutes} minutes` : ''}`
+      );
     } catch (error) {
-      console.error('Error kicking user:', error);
+      logger.error('Error kicking user', { error });
       socket.emit('error', { error: 'Failed to kick user' });
     }
   });
@@ -355,6 +709,7 @@ export function registerRoomHandlers(socket: Socket<SocketEvents, SocketEvents,
 
 export async function handleLeaveRoom(
   socket: Socket<SocketEvents, SocketEvents, object, SocketData>,
+  io: IOServer,
   roomId: string,
   isManualLeave: boolean = false
 ) {
@@ -367,40 +722,20 @@ export async function handleLeaveRoom(
     const leavingUser = room.users.find(u => u.id === socket.data.userId);
     if (!leavingUser) return;
 
-    // Remove the leaving user from the room
-    const updatedUsers = room.users.filter(u => u.id !== socket.data.userId);
-
-    // Check if any hosts remain after this user leaves
-    const remainingHosts = updatedUsers.filter(u => u.isHost);
-
-    if (leavingUser.isHost && remainingHosts.length === 0) {
-      // Last host is leaving, close the entire room and kick everyone out
-      console.log(
-        `🚪 Last host ${isManualLeave ? 'manually left' : 'disconnected from'} room ${roomId}, closing room and kicking all users`
-      );
+    // A newer connection has already taken this user over, so only this socket goes
+    const currentSocketId = await redisService.userMapping.getUserSocket(leavingUser.id);
+    if (currentSocketId && currentSocketId !== socket.id) {
+      await socket.leave(roomId);
+      return;
+    }
 
-      // Notify all remaining users that the room is being closed
-      socket.to(roomId).emit('room-error', {
-        error: 'All hosts have left the room. Redirecting to home page...',
+    // Keep what they had around in case they come back with their rejoin token
+    if (!isManualLeave) {
+      await redisService.rejoins.saveDeparture(roomId, {
+        user: leavingUser,
+        inVoice: socket.data.inVoice ?? false,
+        departedAt: Date.now(),
       });
-
-      // Delete the room entirely
-      await redisService.rooms.deleteRoom(roomId);
-
-      console.log(`Room ${roomId} has been closed`);
-    } else {
-      // Update room with remaining users
-      if (updatedUsers.length === 0) {
-        // No users left at all, delete the room
-        await redisService.rooms.deleteRoom(roomId);
-      } else {
-        // Update room with remaining users
-        const updatedRoom = { ...room, users: updatedUsers };
-        await redisService.rooms.updateRoom(roomId, updatedRoom);
-
-        // Notify remaining users that this user left
-        socket.to(roomId).emit('user-left', { userId: socket.data.userId });
-      }
     }
 
     // Also leave voice room if joined and notify peers
@@ -408,16 +743,264 @@ export async function handleLeaveRoom(
     if (socket.rooms.has(voiceRoom)) {
       socket.to(voiceRoom).emit('voice-peer-left', { userId: socket.data.userId });
       await socket.leave(voiceRoom);
-      console.log(`Voice: ${socket.data.userName || 'User'} left ${voiceRoom}`);
+      logger.info(`Voice: ${socket.data.userName || 'User'} left ${voiceRoom}`);
     }
 
     await socket.leave(roomId);
 
     // Remove userId -> socketId mapping from Redis
     await redisService.userMapping.removeUserSocket(socket.data.userId);
+    await redisService.syncHealth.removeReport(roomId, socket.data.userId);
+
+    // A dropped connection keeps its seat for a while, so a Wi-Fi hiccup doesn't end the party
+    if (!isManualLeave && DISCONNECT_GRACE_MS > 0) {
+      await markUserAway(io, room, leavingUser);
+      return;
+    }
+
+    await removeUser(io, room, leavingUser, isManualLeave);
+  } catch (error) {
+    logger.error('Error leaving room', { error });
+  }
+}
+
+// Takes a user out of the room for good, closing it if they were the last host
+async function removeUser(io: IOServer, room: Room, leavingUser: User, isManualLeave: boolean): Promise<void> {
+  const roomId = room.id;
+
+  // Remove the leaving user from the room
+  const updatedRoom = await redisService.rooms.removeUserFromRoom(roomId, leavingUser.id);
+
+  // The last host leaving hands the room over according to its succession policy
+  const isLastHost = isHost(leavingUser) && !updatedRoom.users.some(isHost);
+  const succession = isLastHost ? chooseSuccessor(updatedRoom, updatedRoom.users) : null;
+
+  if (succession?.type === 'close') {
+    // Last host is leaving, close the entire room and kick everyone out
+    logger.info(
+      `Last host ${isManualLeave ? 'manually left' : 'disconnected from'} room ${roomId}, closing room and kicking all users`
+    );
+
+    // Notify all remaining users that the room is being closed
+    io.to(roomId).emit('room-error', {
+      error: 'All hosts have left the room. Redirecting to home page...',
+    });
+
+    await closeRoom(updatedRoom);
+
+    logger.info(`Room ${roomId} has been closed`);
+  } else if (updatedRoom.users.length === 0) {
+    // No users left at all, close the room
+    await closeRoom(updatedRoom);
+  } else {
+    // Notify remaining users that this user left
+    io.to(roomId).emit('user-left', { userId: leavingUser.id });
+
+    // The room should not keep waiting on someone who is gone
+    if (room.bufferingUserIds.includes(leavingUser.id)) {
+      io.to(roomId).emit('buffering-updated', { bufferingUserIds: updatedRoom.bufferingUserIds });
+      await applyBufferingWait(io, roomId);
+    }
+
+    if (succession?.type === 'promote') {
+      await promoteUser(io, roomId, succession.user.id);
+      logger.info(`${succession.user.name} took over as host of room ${roomId}`);
+    } else if (succession?.type === 'vote') {
+      await startHostElection(io, roomId);
+    }
+  }
+
+  logger.info(`${leavingUser.name} left room ${roomId}`);
+}
+
+// Brings the rest of the room in line with someone's new role
+async function applyRoleChange(io: IOServer, roomId: string, user: User): Promise<void> {
+  // Someone who is away comes back with the role they have now, not the one they left with
+  await redisService.rejoins.updateDeparture(roomId, user.id, { role: user.role });
+
+  // Someone who can no longer talk is taken out of the call
+  const userSocketId = await redisService.userMapping.getUserSocket(user.id);
+  const userSocket = userSocketId ? await fetchSocket(io, userSocketId) : undefined;
+  const voiceRoom = `voice:${roomId}`;
+  if (userSocket?.rooms.has(voiceRoom) && !hasPermission(user, 'use-voice')) {
+    io.to(voiceRoom).except(userSocket.id).emit('voice-peer-left', { userId: user.id });
+    await userSocket.leave(voiceRoom);
+    userSocket.emit('voice-error', { error: 'Your new role does not include voice chat' });
+  }
+
+  // The lobby and ban list follow the permissions that come with the role
+  const room = await redisService.rooms.getRoom(roomId);
+  if (!room) return;
+  await emitLobbyUpdate(io, roomId);
+  await emitBans(io, room);
+}
+
+// Marks a disconnected user as away, then removes them if they haven't rejoined by the deadline
+async function markUserAway(io: IOServer, room: Room, user: User): Promise<void> {
+  const awayUntil = Date.now() + DISCONNECT_GRACE_MS;
+  const awayUser = await redisService.rooms.updateUser(room.id, user.id, { awayUntil });
+  if (!awayUser) return;
 
-    console.log(`${socket.data.userName || 'User'} left room ${roomId}`);
+  io.to(room.id).emit('user-updated', { user: awayUser });
+
+  // Nobody should be stuck waiting for an away user to buffer
+  if (room.bufferingUserIds.includes(user.id)) {
+    const bufferingUserIds = await redisService.rooms.setUserBuffering(room.id, user.id, false);
+    io.to(room.id).emit('buffering-updated', { bufferingUserIds });
+    await applyBufferingWait(io, room.id);
+  }
+
+  // The deadline lives in Redis rather than in a timer here, so the seat is still given up if this server goes away
+  await redisService.awaySeats.holdSeat(room.id, user.id, awayUntil);
+  logger.info(`${user.name} is away from room ${room.id}, holding their seat for ${DISCONNECT_GRACE_MS / 1000}s`);
+}
+
+// Gives up the seats of anyone who didn't make it back in time. Every server sweeps, and each
+// expired seat is claimed by exactly one of them, including seats held by a server that has since gone
+export async function sweepAwaySeats(io: IOServer): Promise<void> {
+  try {
+    const seats = await redisService.awaySeats.claimExpired(Date.now());
+    for (const { roomId, userId, awayUntil } of seats) {
+      await removeAwayUser(io, roomId, userId, awayUntil);
+    }
   } catch (error) {
-    console.error('Error leaving room:', error);
+    logger.error('Error sweeping away seats', { error });
   }
 }
+
+async function removeAwayUser(io: IOServer, roomId: string, userId: string, awayUntil: number): Promise<void> {
+  try {
+    const currentRoom = await redisService.rooms.getRoom(roomId);
+    const currentUser = currentRoom?.users.find(u => u.id === userId);
+    // Rejoining clears the deadline, and dropping again sets a later one
+    if (!currentRoom || !currentUser || currentUser.awayUntil !== awayUntil) return;
+
+    await removeUser(io, currentRoom, currentUser, false);
+  } catch (error) {
+    logger.error('Error removing away user', { error });
+  }
+}
+
+// Brings back the user a rejoin token was issued to, either by taking over from a connection that
+// hasn't noticed it dropped yet, or by restoring them from when they left
+// Returns false if the token can't be used, so the join carries on as usual
+async function rejoinRoom(
+  socket: Socket<SocketEvents, SocketEvents, object, SocketData>,
+  io: IOServer,
+  room: Room,
+  rejoinToken: string
+): Promise<boolean> {
+  const token = verifyRejoinToken(rejoinToken);
+  if (!token || token.roomId !== room.id || token.clientId !== socket.data.clientId) return false;
+
+  let user = room.users.find(u => u.id === token.userId);
+  let inVoice = false;
+
+  if (user?.awayUntil) {
+    // Back before their seat was given up
+    const departure = await redisService.rejoins.getDeparture(room.id, user.id);
+    inVoice = departure?.inVoice ?? false;
+    await redisService.rejoins.removeDeparture(room.id, user.id);
+    user = (await redisService.rooms.updateUser(room.id, user.id, { awayUntil: undefined })) ?? user;
+    await redisService.awaySeats.releaseSeat(room.id, user.id);
+    socket.to(room.id).emit('user-updated', { user });
+  } else if (user) {
+    const previousSocketId = await redisService.userMapping.getUserSocket(user.id);
+    const previousSocket = previousSocketId ? await fetchSocket(io, previousSocketId) : undefined;
+    if (previousSocket && previousSocket.id !== socket.id) {
+      // The old socket may live on another server, so go by its rooms rather than its data.
+      // Once the user mapping points here, its eventual disconnect leaves the user alone
+      const voiceRoom = `voice:${room.id}`;
+      inVoice = previousSocket.rooms.has(voiceRoom);
+      if (inVoice) {
+        io.to(voiceRoom).except(previousSocket.id).emit('voice-peer-left', { userId: user.id });
+        await previousSocket.leave(voiceRoom);
+      }
+      await previousSocket.leave(room.id);
+    }
+  } else {
+    const departure = await redisService.rejoins.getDeparture(room.id, token.userId);
+    // Someone else may have taken the name while they were gone
+    if (!departure || room.users.some(u => u.name === departure.user.name)) return false;
+
+    user = { ...departure.user, awayUntil: undefined };
+    inVoice = departure.inVoice;
+    await redisService.rejoins.removeDeparture(room.id, user.id);
+    if (!(await redisService.rooms.addUserToRoom(room.id, user))) return false;
+    socket.to(room.id).emit('user-joined', { user });
+  }
+
+  socket.data.userId = user.id;
+  socket.data.userName = user.name;
+  socket.data.roomId = room.id;
+
+  await socket.join(room.id);
+  await redisService.userMapping.setUserSocket(user.id, socket.id);
+
+  const updatedRoom = (await redisService.rooms.getRoom(room.id)) ?? room;
+  // Their role may have lost voice while they were away
+  await emitRoomJoined(socket, updatedRoom, user, inVoice && hasPermission(user, 'use-voice'));
+
+  if (isHost(user)) {
+    await emitLobbyUpdate(io, room.id);
+  }
+  if (hasPermission(user, 'kick')) {
+    await emitBans(io, updatedRoom);
+  }
+
+  logger.info(`${user.name} rejoined room ${room.id} with a rejoin token as ${user.role}`);
+  return true;
+}
+
+// Regular rooms are deleted once everyone is gone. Persistent rooms keep their video, queue
+// and chat so the same link picks up where it left off next time
+async function closeRoom(room: Room): Promise<void> {
+  if (!room.isPersistent) {
+    await redisService.rooms.deleteRoom(room.id);
+    return;
+  }
+
+  await redisService.rooms.mutateRoom(room.id, r => {
+    r.users = [];
+    r.videoState = {
+      ...r.videoState,
+      isPlaying: false,
+      currentTime: calculateCurrentTime(r.videoState),
+      lastUpdateTime: Date.now(),
+    };
+    r.bufferingUserIds = [];
+    r.pausedForBuffering = false;
+    r.hostElection = null;
+  });
+}
+
+// However someone got in, they get the chat so far and a token to come back as themselves after a refresh
+async function emitRoomJoined(
+  socket: Socket<SocketEvents, SocketEvents, object, SocketData>,
+  room: Room,
+  user: User,
+  restoreVoice?: boolean
+): Promise<void> {
+  socket.emit('room-joined', {
+    room: toPublicRoom(room),
+    user,
+    messages: await getChatHistory(room),
+    rejoinToken: createRejoinToken(room.id, user.id, socket.data.clientId),
+    restoreVoice,
+  });
+}
+
+// Fresh rooms start with an empty chat, persistent rooms hand back what was said last time
+async function getChatHistory(room: Room): Promise<ChatMessage[] | undefined> {
+  if (!room.isPersistent) return undefined;
+  return redisService.chat.getChatMessages(room.id);
+}
+
+function formatMinutes(minutes: number): string {
+  return `${minutes} minute${minutes === 1 ? '' : 's'}`;
+}
+
+function parseGraceSeconds(value: string | undefined): number {
+  const seconds = parseInt(value ?? '', 10);
+  return Number.isNaN(seconds) || seconds < 0 ? 30 : seconds;
+}
@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest';
+import { HostSuccession, User } from '@/types';
+import { chooseSuccessor, tallyHostElection } from './succession';
+import { makeRoom, makeUser } from '@/test/factories';
+
+// Guests joined one minute apart, oldest first
+function guests(count: number): User[] {
+  const start = Date.now() - count * 60000;
+  return Array.from({ length: count }, (_, i) => makeUser({ joinedAt: new Date(start + i * 60000) }));
+}
+
+function roomWith(hostSuccession: HostSuccession, designatedSuccessorId?: string) {
+  return makeRoom({ hostSuccession, designatedSuccessorId });
+}
+
+describe('chooseSuccessor', () => {
+  it('closes the room under the close policy', () => {
+    expect(chooseSuccessor(roomWith('close'), guests(3))).toEqual({ type: 'close' });
+  });
+
+  it('closes the room when nobody is left to take over', () => {
+    for (const policy of ['designated', 'longest-present', 'vote'] as const) {
+      expect(chooseSuccessor(roomWith(policy), [])).toEqual({ type: 'close' });
+    }
+  });
+
+  it('does not hand the room to someone who is away', () => {
+    const [away] = guests(1);
+    expect(chooseSuccessor(roomWith('longest-present'), [{ ...away, awayUntil: Date.now() + 30000 }])).toEqual({
+      type: 'close',
+    });
+  });
+
+  it('promotes the designated successor', () => {
+    const users = guests(3);
+    expect(chooseSuccessor(roomWith('designated', users[2].id), users)).toEqual({ type: 'promote', user: users[2] });
+  });
+
+  it('falls back to the longest-present guest when the designated successor is gone', () => {
+    const users = guests(3);
+    const outcome = chooseSuccessor(roomWith('designated', makeUser().id), users);
+    expect(outcome).toEqual({ type: 'promote', user: users[0] });
+  });
+
+  it('falls back to the longest-present guest when the designated successor is away', () => {
+    const users = guests(3);
+    const away = { ...users[2], awayUntil: Date.now() + 30000 };
+    const outcome = chooseSuccessor(roomWith('designated', away.id), [users[0], users[1], away]);
+    expect(outcome).toEqual({ type: 'promote', user: users[0] });
+  });
+
+  it('promotes whoever has been here longest', () => {
+    const users = guests(3);
+    expect(chooseSuccessor(roomWith('longest-present'), [users[2], users[0], users[1]])).toEqual({
+      type: 'promote',
+      user: users[0],
+    });
+  });
+
+  it('leaves hosts out of the running', () => {
+    const users = guests(2);
+    const host = { ...users[0], role: 'host' as const };
+    expect(chooseSuccessor(roomWith('longest-present'), [host, users[1]])).toEqual({
+      type: 'promote',
+      user: users[1],
+    });
+  });
+
+  it('starts a vote when there is more than one candidate', () => {
+    expect(chooseSuccessor(roomWith('vote'), guests(2))).toEqual({ type: 'vote' });
+  });
+
+  it('skips the vote when only one guest could win it', () => {
+    const users = guests(1);
+    expect(chooseSuccessor(roomWith('vote'), users)).toEqual({ type: 'promote', user: users[0] });
+  });
+});
+
+describe('tallyHostElection', () => {
+  it('picks the candidate with the most votes', () => {
+    const users = guests(3);
+    const votes = { [users[0].id]: users[2].id, [users[1].id]: users[2].id, [users[2].id]: users[1].id };
+    expect(tallyHostElection({ endsAt: Date.now(), votes }, users)).toBe(users[2]);
+  });
+
+  it('breaks a tie in favour of whoever has been here longest', () => {
+    const users = guests(3);
+    const votes = { [users[0].id]: users[2].id, [users[2].id]: users[1].id };
+    expect(tallyHostElection({ endsAt: Date.now(), votes }, users)).toBe(users[1]);
+  });
+
+  it('gives an empty ballot box to whoever has been here longest', () => {
+    const users = guests(3);
+    expect(tallyHostElection({ endsAt: Date.now(), votes: {} }, users)).toBe(users[0]);
+  });
+
+  it('ignores votes for someone who can no longer take over', () => {
+    const users = guests(3);
+    const gone = makeUser();
+    const votes = { [users[0].id]: gone.id, [users[1].id]: gone.id, [users[2].id]: users[2].id };
+    expect(tallyHostElection({ endsAt: Date.now(), votes }, users)).toBe(users[2]);
+  });
+});
@@ -0,0 +1,198 @@
+import { Socket, Server as IOServer } from 'socket.io';
+import { redisService } from '@/server/redis';
+import { logger } from '@/server/logger';
+import { CastHostVoteDataSchema, HostElection, Room, SetHostSuccessionDataSchema, User } from '@/types';
+import { SocketEvents, SocketData } from '../types';
+import { authorize, emitBans, validateData } from '../utils';
+import { isHost } from '@/lib/permissions';
+import { emitLobbyUpdate } from './lobby';
+
+// How long guests get to pick a new host before the longest-present guest takes over
+const HOST_ELECTION_WINDOW_MS = 30 * 1000;
+
+export type SuccessionOutcome = { type: 'close' } | { type: 'promote'; user: User } | { type: 'vote' };
+
+export function registerSuccessionHandlers(
+  socket: Socket<SocketEvents, SocketEvents, object, SocketData>,
+  io: IOServer
+) {
+  // Host decides what happens to the room once every host has left
+  socket.on('set-host-succession', async data => {
+    try {
+      const validatedData = validateData(SetHostSuccessionDataSchema, data, socket);
+      if (!validatedData) return;
+
+      const { roomId, hostSuccession, designatedSuccessorId } = validatedData;
+      const room = await redisService.rooms.getRoom(roomId);
+      if (!room) {
+        socket.emit('room-error', { error: 'Room not found' });
+        return;
+      }
+
+      const currentUser = authorize(socket, room, 'manage-room', 'Only hosts can change what happens when hosts leave');
+      if (!currentUser) return;
+
+      // Only a guest can be lined up, hosts already have the job
+      const successorId = hostSuccession === 'designated' ? designatedSuccessorId : undefined;
+      if (successorId && !room.users.some(u => u.id === successorId && !isHost(u))) {
+        socket.emit('error', { error: 'The successor must be a guest in this room' });
+        return;
+      }
+
+      await redisService.rooms.setHostSuccession(roomId, hostSuccession, successorId);
+      io.to(roomId).emit('host-succession-updated', { hostSuccession, designatedSuccessorId: successorId });
+
+      logger.info(`Host succession in room ${roomId} set to ${hostSuccession} by ${currentUser.name}`);
+    } catch (error) {
+      logger.error('Error setting host succession', { error });
+      socket.emit('error', { error: 'Failed to change what happens when hosts leave' });
+    }
+  });
+
+  // Guests vote for who should take over as host
+  socket.on('cast-host-vote', async data => {
+    try {
+      const validatedData = validateData(CastHostVoteDataSchema, data, socket);
+      if (!validatedData) return;
+
+      const { roomId, candidateId } = validatedData;
+      const room = await redisService.rooms.getRoom(roomId);
+      if (!room) {
+        socket.emit('room-error', { error: 'Room not found' });
+        return;
+      }
+
+      const currentUser = room.users.find(u => u.id === socket.data.userId);
+      if (!currentUser) {
+        socket.emit('error', { error: 'Not in this room' });
+        return;
+      }
+
+      if (!getCandidates(room.users).some(u => u.id === candidateId)) {
+        socket.emit('error', { error: 'That user can no longer become host' });
+        return;
+      }
+
+      // Changing your mind just replaces your earlier vote
+      const cast = await redisService.rooms.castHostVote(roomId, currentUser.id, candidateId);
+      if (!cast) {
+        socket.emit('error', { error: 'There is no host vote right now' });
+        return;
+      }
+
+      const { hostElection, users } = cast;
+      io.to(roomId).emit('host-election-updated', { hostElection });
+
+      // No reason to wait out the clock once everyone has had their say
+      if (Object.keys(hostElection.votes).length >= getCandidates(users).length) {
+        await finishHostElection(io, roomId, hostElection.endsAt);
+      }
+    } catch (error) {
+      logger.error('Error casting host vote', { error });
+      socket.emit('error', { error: 'Failed to cast vote' });
+    }
+  });
+}
+
+// The one place that decides what happens once the last host is gone. Only guests who are
+// still connected can take over, and a successor who isn't around falls back to the
+// longest-present guest rather than closing a room the host asked to keep open
+export function chooseSuccessor(room: Room, remainingUsers: User[]): SuccessionOutcome {
+  const candidates = getCandidates(remainingUsers);
+  if (room.hostSuccession === 'close' || candidates.length === 0) {
+    return { type: 'close' };
+  }
+
+  if (room.hostSuccession === 'designated') {
+    const designated = candidates.find(u => u.id === room.designatedSuccessorId);
+    if (designated) return { type: 'promote', user: designated };
+  }
+
+  if (room.hostSuccession === 'vote' && candidates.length > 1) {
+    return { type: 'vote' };
+  }
+
+  return { type: 'promote', user: getLongestPresent(candidates) };
+}
+
+// Most votes wins, and ties or an empty ballot box go to whoever has been here longest
+export function tallyHostElection(hostElection: HostElection, candidates: User[]): User {
+  const counts = new Map<string, number>();
+  for (const candidateId of Object.values(hostElection.votes)) {
+    counts.set(candidateId, (counts.get(candidateId) ?? 0) + 1);
+  }
+
+  const topCount = Math.max(...candidates.map(u => counts.get(u.id) ?? 0));
+  return getLongestPresent(candidates.filter(u => (counts.get(u.id) ?? 0) === topCount));
+}
+
+// Makes a user a host and hands them the host-only state
+export async function promoteUser(io: IOServer, roomId: string, userId: string): Promise<void> {
+  const promotedUser = await redisService.rooms.updateUser(roomId, userId, { role: 'host' });
+  if (!promotedUser) return;
+  await redisService.rejoins.updateDeparture(roomId, userId, { role: 'host' });
+
+  io.to(roomId).emit('user-promoted', { userId, userName: promotedUser.name });
+  // New hosts take their share of the lobby and the ban list
+  await emitLobbyUpdate(io, roomId);
+  const room = await redisService.rooms.getRoom(roomId);
+  if (room) {
+    await emitBans(io, room);
+  }
+}
+
+export async function startHostElection(io: IOServer, roomId: string): Promise<void> {
+  const hostElection: HostElection = { endsAt: Date.now() + HOST_ELECTION_WINDOW_MS, votes: {} };
+  await redisService.rooms.setHostElection(roomId, hostElection);
+  io.to(roomId).emit('host-election-updated', { hostElection });
+
+  logger.info(`Guests in room ${roomId} are voting for a new host`);
+}
+
+// Finishes elections that have run out, whichever server started them. Runs on every server,
+// and each election is only picked up by one
+export async function sweepHostElections(io: IOServer): Promise<void> {
+  try {
+    for (const { roomId, endsAt } of await redisService.rooms.claimEndedElections(Date.now())) {
+      await finishHostElection(io, roomId, endsAt);
+    }
+  } catch (error) {
+    logger.error('Error finishing host vote', { error });
+  }
+}
+
+// The end time identifies the election, so a stale deadline can't end a newer one
+async function finishHostElection(io: IOServer, roomId: string, endsAt: number): Promise<void> {
+  if (!(await redisService.rooms.roomExists(roomId))) return;
+
+  // Ending the election and reading the votes happen together, so a late vote can't slip in between
+  const ended = await redisService.rooms.mutateRoom(roomId, room => {
+    if (!room.hostElection || room.hostElection.endsAt !== endsAt) return null;
+
+    const hostElection = room.hostElection;
+    room.hostElection = null;
+    return { hostElection, users: room.users };
+  });
+  if (!ended) return;
+
+  io.to(roomId).emit('host-election-updated', { hostElection: null });
+
+  // A host came back while the vote was running
+  if (ended.users.some(isHost)) return;
+
+  const candidates = getCandidates(ended.users);
+  if (candidates.length === 0) return;
+
+  const winner = tallyHostElection(ended.hostElection, candidates);
+  await promoteUser(io, roomId, winner.id);
+
+  logger.info(`${winner.name} won the host vote in room ${roomId}`);
+}
+
+function getCandidates(users: User[]): User[] {
+  return users.filter(u => !isHost(u) && !u.awayUntil);
+}
+
+function getLongestPresent(users: User[]): User {
+  return users.reduce((longest, user) => (user.joinedAt.getTime() < longest.joinedAt.getTime() ? user : longest));
+}
@@ -0,0 +1,175 @@
+import { Socket, Server as IOServer } from 'socket.io';
+import { v4 as uuidv4 } from 'uuid';
+import { redisService } from '@/server/redis';
+import { logger } from '@/server/logger';
+import {
+  VideoSuggestion,
+  SuggestVideoDataSchema,
+  AcceptSuggestionDataSchema,
+  RejectSuggestionDataSchema,
+} from '@/types';
+import { SocketEvents, SocketData } from '../types';
+import { authorize, validateData, getVideoType } from '../utils';
+import { hasPermission } from '@/lib/permissions';
+import { setRoomVideo } from './video';
+import { addToQueue } from './queue';
+
+// Keep the inbox manageable and stop a single guest from flooding it
+const MAX_PENDING_SUGGESTIONS = 20;
+const MAX_PENDING_SUGGESTIONS_PER_USER = 3;
+
+export function registerSuggestionHandlers(
+  socket: Socket<SocketEvents, SocketEvents, object, SocketData>,
+  io: IOServer
+) {
+  // Guest suggests a video for the hosts to review
+  socket.on('suggest-video', async data => {
+    try {
+      const validatedData = validateData(SuggestVideoDataSchema, data, socket);
+      if (!validatedData) return;
+
+      const { roomId, videoUrl } = validatedData;
+      const room = await redisService.rooms.getRoom(roomId);
+      if (!room) {
+        socket.emit('room-error', { error: 'Room not found' });
+        return;
+      }
+
+      const currentUser = room.users.find(u => u.id === socket.data.userId);
+      if (!currentUser) {
+        socket.emit('error', { error: 'Not authenticated' });
+        return;
+      }
+
+      if (hasPermission(currentUser, 'set-video')) {
+        socket.emit('error', { error: 'Hosts can set the video directly instead of suggesting it' });
+        return;
+      }
+
+      if (room.suggestions.length >= MAX_PENDING_SUGGESTIONS) {
+        socket.emit('error', { error: 'The host has too many pending suggestions, try again later' });
+        return;
+      }
+
+      const ownPending = room.suggestions.filter(s => s.suggestedBy === currentUser.id);
+      if (ownPending.length >= MAX_PENDING_SUGGESTIONS_PER_USER) {
+        socket.emit('error', {
+          error: `You can only have ${MAX_PENDING_SUGGESTIONS_PER_USER} pending suggestions at a time`,
+        });
+        return;
+      }
+
+      if (ownPending.some(s => s.videoUrl === videoUrl)) {
+        socket.emit('error', { error: 'You have already suggested this video' });
+        return;
+      }
+
+      const suggestion: VideoSuggestion = {
+        id: uuidv4(),
+        videoUrl,
+        videoType: getVideoType(videoUrl),
+        suggestedBy: currentUser.id,
+        suggestedByName: currentUser.name,
+        suggestedAt: new Date(),
+      };
+
+      const suggestions = await redisService.rooms.addSuggestion(roomId, suggestion);
+
+      io.to(roomId).emit('suggestions-updated', { suggestions });
+      logger.info(`Video suggested in room ${roomId} by ${currentUser.name}: ${videoUrl}`);
+    } catch (error) {
+      logger.error('Error suggesting video', { error });
+      socket.emit('error', { error: 'Failed to suggest video' });
+    }
+  });
+
+  // Host accepts a suggestion, either playing it now or adding it to the queue
+  socket.on('accept-suggestion', async data => {
+    try {
+      const validatedData = validateData(AcceptSuggestionDataSchema, data, socket);
+      if (!validatedData) return;
+
+      const { roomId, suggestionId, mode } = validatedData;
+      const room = await redisService.rooms.getRoom(roomId);
+      if (!room) {
+        socket.emit('room-error', { error: 'Room not found' });
+        return;
+      }
+
+      const currentUser = authorize(socket, room, 'set-video', 'Only hosts can review suggestions');
+      if (!currentUser) return;
+
+      const result = await redisService.rooms.takeSuggestion(roomId, suggestionId);
+      if (!result) {
+        socket.emit('error', { error: 'Suggestion not found or already handled' });
+        return;
+      }
+
+      const { suggestion, suggestions } = result;
+      io.to(roomId).emit('suggestions-updated', { suggestions });
+
+      if (mode === 'play') {
+        await setRoomVideo(io, roomId, suggestion.videoUrl);
+      } else {
+        await addToQueue(io, roomId, {
+          id: uuidv4(),
+          videoUrl: suggestion.videoUrl,
+          videoType: suggestion.videoType,
+          addedBy: suggestion.suggestedBy,
+          addedByName: suggestion.suggestedByName,
+          addedAt: new Date(),
+        });
+      }
+
+      io.to(roomId).emit('suggestion-resolved', {
+        suggestion,
+        status: 'accepted',
+        mode,
+        resolvedBy: currentUser.name,
+      });
+
+      logger.info(`Suggestion ${suggestionId} accepted (${mode}) in room ${roomId} by ${currentUser.name}`);
+    } catch (error) {
+      logger.error('Error accepting suggestion', { error });
+      socket.emit('error', { error: 'Failed to accept suggestion' });
+    }
+  });
+
+  // Host rejects a suggestion with an optional reason for the guest
+  socket.on('reject-suggestion', async data => {
+    try {
+      const validatedData = validateData(RejectSuggestionDataSchema, data, socket);
+      if (!validatedData) return;
+
+      const { roomId, suggestionId, reason } = validatedData;
+      const room = await redisService.rooms.getRoom(roomId);
+      if (!room) {
+        socket.emit('room-error', { error: 'Room not found' });
+        return;
+      }
+
+      const currentUser = authorize(socket, room, 'set-video', 'Only hosts can review suggestions');
+      if (!currentUser) return;
+
+      const result = await redisService.rooms.takeSuggestion(roomId, suggestionId);
+      if (!result) {
+        socket.emit('error', { error: 'Suggestion not found or already handled' });
+        return;
+      }
+
+      const { suggestion, suggestions } = result;
+      io.to(roomId).emit('suggestions-updated', { suggestions });
+      io.to(roomId).emit('suggestion-resolved', {
+        suggestion,
+        status: 'rejected',
+        reason: reason || undefined,
+        resolvedBy: currentUser.name,
+      });
+
+      logger.info(`Suggestion ${suggestionId} rejected in room ${roomId} by ${currentUser.name}`);
+    } catch (error) {
+      logger.error('Error rejecting suggestion', { error });
+      socket.emit('error', { error: 'Failed to reject suggestion' });
+    }
+  });
+}
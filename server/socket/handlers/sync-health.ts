@@ -0,0 +1,117 @@
+import { Socket, Server as IOServer } from 'socket.io';
+import { redisService } from '@/server/redis';
+import { logger } from '@/server/logger';
+import { calculateCurrentTime } from '@/lib/video-utils';
+import { Room, SyncHealth, SyncStatus, SyncHealthReportDataSchema, ForceResyncDataSchema } from '@/types';
+import { SocketEvents, SocketData } from '../types';
+import { authorize, emitToPermitted, validateData } from '../utils';
+
+// Drift the playback-rate correction should absorb on its own
+const DRIFT_TOLERANCE_SECONDS = 0.5;
+// Clients report every few seconds, so silence this long means the client is stuck
+const STALE_REPORT_MS = 15000;
+
+export function registerSyncHealthHandlers(
+  socket: Socket<SocketEvents, SocketEvents, object, SocketData>,
+  io: IOServer
+) {
+  // Clients periodically report how far they are from the room clock
+  socket.on('sync-health-report', async data => {
+    try {
+      const validatedData = validateData(SyncHealthReportDataSchema, data, socket);
+      if (!validatedData) return;
+
+      const { roomId, drift, bufferedAhead, playerState } = validatedData;
+      const room = await redisService.rooms.getRoom(roomId);
+      if (!room) {
+        socket.emit('room-error', { error: 'Room not found' });
+        return;
+      }
+
+      const currentUser = room.users.find(u => u.id === socket.data.userId);
+      if (!currentUser) {
+        socket.emit('error', { error: 'Not authenticated' });
+        return;
+      }
+
+      const report: Omit<SyncHealth, 'status'> = {
+        userId: currentUser.id,
+        drift,
+        bufferedAhead,
+        playerState,
+        reportedAt: Date.now(),
+      };
+
+      await redisService.syncHealth.saveReport(roomId, { ...report, status: getSyncStatus(room, report) });
+      await emitSyncHealth(io, room);
+    } catch (error) {
+      logger.error('Error saving sync health report', { error });
+      socket.emit('error', { error: 'Failed to report sync health' });
+    }
+  });
+
+  // Host snaps a specific user back to the room clock
+  socket.on('force-resync', async data => {
+    try {
+      const validatedData = validateData(ForceResyncDataSchema, data, socket);
+      if (!validatedData) return;
+
+      const { roomId, userId } = validatedData;
+      const room = await redisService.rooms.getRoom(roomId);
+      if (!room) {
+        socket.emit('room-error', { error: 'Room not found' });
+        return;
+      }
+
+      const currentUser = authorize(
+        socket,
+        room,
+        'control-playback',
+        'Only hosts and moderators can resync other users'
+      );
+      if (!currentUser) return;
+
+      const targetUser = room.users.find(u => u.id === userId);
+      if (!targetUser) {
+        socket.emit('error', { error: 'User not found' });
+        return;
+      }
+
+      const targetSocketId = await redisService.userMapping.getUserSocket(userId);
+      if (!targetSocketId) {
+        socket.emit('error', { error: `${targetUser.name} is not connected` });
+        return;
+      }
+
+      const now = Date.now();
+      io.to(targetSocketId).emit('resync-requested', {
+        currentTime: calculateCurrentTime(room.videoState, now),
+        isPlaying: room.videoState.isPlaying,
+        timestamp: now,
+      });
+
+      logger.info(`${currentUser.name} forced a resync for ${targetUser.name} in room ${roomId}`);
+    } catch (error) {
+      logger.error('Error forcing resync', { error });
+      socket.emit('error', { error: 'Failed to resync user' });
+    }
+  });
+}
+
+function getSyncStatus(room: Room, report: Omit<SyncHealth, 'status'>): SyncStatus {
+  if (report.playerState === 'buffering') return 'buffering';
+  if (room.videoState.isPlaying && report.playerState !== 'playing') return 'stalled';
+  if (Math.abs(report.drift) > DRIFT_TOLERANCE_SECONDS) return 'drifting';
+  return 'in-sync';
+}
+
+// Only hosts act on sync health, so only they get the room overview
+async function emitSyncHealth(io: IOServer, room: Room): Promise<void> {
+  const now = Date.now();
+  const userIds = new Set(room.users.map(u => u.id));
+  const reports = (await redisService.syncHealth.getReports(room.id))
+    .filter(report => userIds.has(report.userId))
+    .map(report => (now - report.reportedAt > STALE_REPORT_MS ? { ...report, status: 'stalled' as const } : report));
+
+  await emitToPermitted(io, room, 'control-playback', 'sync-health-updated', { reports });
+}
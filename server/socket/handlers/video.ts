@@ -1,8 +1,15 @@
 import { Socket, Server as IOServer } from 'socket.io';
+import { v4 as uuidv4 } from 'uuid';
 import { redisService } from '@/server/redis';
-import { SetVideoDataSchema, VideoControlDataSchema, SyncCheckDataSchema } from '@/types';
+import { logger } from '@/server/logger';
+import { calculateCurrentTime } from '@/lib/video-utils';
+import { SetVideoDataSchema, VideoControlDataSchema, SetPlaybackRateDataSchema, SyncCheckDataSchema } from '@/types';
 import { SocketEvents, SocketData } from '../types';
-import { validateData } from '../utils';
+import { authorize, validateData, getVideoType, getPlaybackDeniedMessage } from '../utils';
+import { canControlPlayback } from '@/lib/permissions';
+
+// How far a host's reported server time may stray from ours before we ignore it
+const MAX_SYNC_CLOCK_SKEW_MS = 5000;
 
 export function registerVideoHandlers(socket: Socket<SocketEvents, SocketEvents, object, SocketData>, io: IOServer) {
   // Set video URL
@@ -18,26 +25,13 @@ export function registerVideoHandlers(socket: Socket<SocketEvents, SocketEvents,
         return;
       }
 
-      const currentUser = room.users.find(u => u.id === socket.data.userId);
-      if (!currentUser?.isHost) {
-        socket.emit('error', { error: 'Only hosts can set the video' });
-        return;
-      }
-
-      // Determine video type
-      let videoType: 'youtube' | 'mp4' | 'm3u8' = 'mp4';
-      if (videoUrl.includes('youtube.com') || videoUrl.includes('youtu.be')) {
-        videoType = 'youtube';
-      } else if (videoUrl.match(/\.(m3u8)(\?.*)?$/i) || videoUrl.includes('/live/') || videoUrl.includes('.m3u8')) {
-        videoType = 'm3u8';
-      }
+      const currentUser = authorize(socket, room, 'set-video', 'Only hosts can set the video');
+      if (!currentUser) return;
 
-      await redisService.rooms.setVideoUrl(roomId, videoUrl, videoType);
-
-      io.to(roomId).emit('video-set', { videoUrl, videoType });
-      console.log(`Video set in room ${roomId}: ${videoUrl}`);
+      await setRoomVideo(io, roomId, videoUrl);
+      logger.info(`Video set in room ${roomId}: ${videoUrl}`);
     } catch (error) {
-      console.error('Error setting video:', error);
+      logger.error('Error setting video', { error });
       socket.emit('error', { error: 'Failed to set video' });
     }
   });
@@ -56,28 +50,25 @@ export function registerVideoHandlers(socket: Socket<SocketEvents, SocketEvents,
       }
 
       const currentUser = room.users.find(u => u.id === socket.data.userId);
-      if (!currentUser?.isHost) {
-        socket.emit('error', { error: 'Only hosts can control the video' });
+      if (!canControlPlayback(room, currentUser)) {
+        socket.emit('error', { error: getPlaybackDeniedMessage(room, currentUser) });
         return;
       }
 
-      const videoState = {
+      const videoState = await redisService.rooms.takeOverPlayback(roomId, {
         isPlaying: true,
         currentTime,
-        duration: room.videoState.duration,
         lastUpdateTime: Date.now(),
-      };
-
-      await redisService.rooms.updateVideoState(roomId, videoState);
+      });
 
       socket.to(roomId).emit('video-played', {
         currentTime,
         timestamp: videoState.lastUpdateTime,
       });
 
-      console.log(`Video played in room ${roomId} at ${currentTime}s`);
+      logger.info(`Video played in room ${roomId} at ${currentTime}s`);
     } catch (error) {
-      console.error('Error playing video:', error);
+      logger.error('Error playing video', { error });
       socket.emit('error', { error: 'Failed to play video' });
     }
   });
@@ -96,28 +87,25 @@ export function registerVideoHandlers(socket: Socket<SocketEvents, SocketEvents,
       }
 
       const currentUser = room.users.find(u => u.id === socket.data.userId);
-      if (!currentUser?.isHost) {
-        socket.emit('error', { error: 'Only hosts can control the video' });
+      if (!canControlPlayback(room, currentUser)) {
+        socket.emit('error', { error: getPlaybackDeniedMessage(room, currentUser) });
         return;
       }
 
-      const videoState = {
+      const videoState = await redisService.rooms.takeOverPlayback(roomId, {
         isPlaying: false,
         currentTime,
-        duration: room.videoState.duration,
         lastUpdateTime: Date.now(),
-      };
-
-      await redisService.rooms.updateVideoState(roomId, videoState);
+      });
 
       socket.to(roomId).emit('video-paused', {
         currentTime,
         timestamp: videoState.lastUpdateTime,
       });
 
-      console.log(`Video paused in room ${roomId} at ${currentTime}s`);
+      logger.info(`Video paused in room ${roomId} at ${currentTime}s`);
     } catch (error) {
-      console.error('Error pausing video:', error);
+      logger.error('Error pausing video', { error });
       socket.emit('error', { error: 'Failed to pause video' });
     }
   });
@@ -136,31 +124,68 @@ export function registerVideoHandlers(socket: Socket<SocketEvents, SocketEvents,
       }
 
       const currentUser = room.users.find(u => u.id === socket.data.userId);
-      if (!currentUser?.isHost) {
-        socket.emit('error', { error: 'Only hosts can control the video' });
+      if (!canControlPlayback(room, currentUser)) {
+        socket.emit('error', { error: getPlaybackDeniedMessage(room, currentUser) });
         return;
       }
 
-      const videoState = {
-        ...room.videoState,
+      const videoState = await redisService.rooms.updateVideoState(roomId, {
         currentTime,
         lastUpdateTime: Date.now(),
-      };
-
-      await redisService.rooms.updateVideoState(roomId, videoState);
+      });
 
       socket.to(roomId).emit('video-seeked', {
         currentTime,
         timestamp: videoState.lastUpdateTime,
       });
 
-      console.log(`Video seeked in room ${roomId} to ${currentTime}s`);
+      logger.info(`Video seeked in room ${roomId} to ${currentTime}s`);
     } catch (error) {
-      console.error('Error seeking video:', error);
+      logger.error('Error seeking video', { error });
       socket.emit('error', { error: 'Failed to seek video' });
     }
   });
 
+  // Change the playback speed for everyone
+  socket.on('set-playback-rate', async data => {
+    try {
+      const validatedData = validateData(SetPlaybackRateDataSchema, data, socket);
+      if (!validatedData) return;
+
+      const { roomId, playbackRate } = validatedData;
+      const room = await redisService.rooms.getRoom(roomId);
+      if (!room) {
+        socket.emit('room-error', { error: 'Room not found' });
+        return;
+      }
+
+      const currentUser = authorize(
+        socket,
+        room,
+        'control-playback',
+        'Only hosts and moderators can change the playback speed'
+      );
+      if (!currentUser) return;
+
+      // Rebase the clock so the position up to now is counted at the old speed
+      const videoState = await redisService.rooms.updateVideoState(roomId, current => {
+        const now = Date.now();
+        return { currentTime: calculateCurrentTime(current, now), lastUpdateTime: now, playbackRate };
+      });
+
+      io.to(roomId).emit('playback-rate-updated', {
+        playbackRate,
+        currentTime: videoState.currentTime,
+        timestamp: videoState.lastUpdateTime,
+      });
+
+      logger.info(`Playback rate in room ${roomId} set to ${playbackRate}x by ${currentUser.name}`);
+    } catch (error) {
+      logger.error('Error setting playback rate', { error });
+      socket.emit('error', { error: 'Failed to change playback speed' });
+    }
+  });
+
   // Sync check for hosts
   socket.on('sync-check', async data => {
     try {
@@ -180,19 +205,37 @@ export function registerVideoHandlers(socket: Socket<SocketEvents, SocketEvents,
         return;
       }
 
-      const currentUser = room.users.find(u => u.id === socket.data.userId);
-      if (!currentUser?.isHost) {
-        socket.emit('error', { error: 'Only hosts can send sync checks' });
-        return;
-      }
+      const currentUser = authorize(socket, room, 'control-playback', 'Only hosts and moderators can send sync checks');
+      if (!currentUser) return;
+
+      // The host reports in server time; anything implausible falls back to our own clock
+      const now = Date.now();
+      const lastUpdateTime = Math.abs(now - timestamp) <= MAX_SYNC_CLOCK_SKEW_MS ? Math.min(timestamp, now) : now;
+
+      // The stored video state is the canonical clock everyone syncs against
+      await redisService.rooms.updateVideoState(roomId, {
+        isPlaying,
+        currentTime,
+        lastUpdateTime,
+      });
 
       // Broadcast sync update to all other users
-      socket.to(roomId).emit('sync-update', { currentTime, isPlaying, timestamp });
+      socket.to(roomId).emit('sync-update', { currentTime, isPlaying, timestamp: lastUpdateTime });
 
-      console.log(`Sync check sent in room ${roomId}: ${currentTime.toFixed(2)}s, playing: ${isPlaying}`);
+      logger.debug(`Sync check sent in room ${roomId}: ${currentTime.toFixed(2)}s, playing: ${isPlaying}`);
     } catch (error) {
-      console.error('Error sending sync check:', error);
+      logger.error('Error sending sync check', { error });
       socket.emit('error', { error: 'Failed to send sync check' });
     }
   });
 }
+
+// Switch the room to a new video and tell everyone to load it
+export async function setRoomVideo(io: IOServer, roomId: string, videoUrl: string): Promise<void> {
+  const videoType = getVideoType(videoUrl);
+  const videoId = uuidv4();
+
+  await redisService.rooms.setVideoUrl(roomId, videoUrl, videoId, videoType);
+
+  io.to(roomId).emit('video-set', { videoUrl, videoId, videoType });
+}
@@ -10,22 +10,18 @@ import {
   RoomActionDataSchema,
 } from '@/types';
 import { redisService } from '@/server/redis';
+import { logger } from '@/server/logger';
+import { hasPermission } from '@/lib/permissions';
 
 // Soft cap for voice participants in mesh
 const VOICE_MAX_PARTICIPANTS = 5;
 
+const voiceLogger = logger.child({ component: 'voice' });
+
 export function registerVoiceHandlers(socket: Socket<SocketEvents, SocketEvents, object, SocketData>, io: IOServer) {
-  const slog = (event: string, extra?: Record<string, unknown>) => {
-    console.log('[VOICE]', event, {
-      socketId: socket.id,
-      userId: socket.data.userId,
-      roomId: socket.data.roomId,
-      ...extra,
-    });
-  };
   // Join voice
   socket.on('voice-join', async data => {
-    slog('voice-join received');
+    voiceLogger.debug('voice-join received');
     const validated = validateData(VoiceJoinDataSchema, data, socket);
     if (!validated) return;
 
@@ -41,107 +37,113 @@ export function registerVoiceHandlers(socket: Socket<SocketEvents, SocketEvents,
       return;
     }
 
-    const currentVoiceUserIds = Array.from(io.sockets.adapter.rooms.get(`voice:${roomId}`) || new Set<string>());
+    const currentUser = room.users.find(u => u.id === socket.data.userId);
+    if (!hasPermission(currentUser, 'use-voice')) {
+      voiceLogger.warn('voice-join rejected: not permitted');
+      socket.emit('voice-error', { error: 'Your role in this room does not include voice chat' });
+      return;
+    }
+
+    // Peers may be connected to other servers, so ask all of them who is in the call
+    const voiceSockets = await io.in(`voice:${roomId}`).fetchSockets();
 
     // Enforce soft cap
-    if (currentVoiceUserIds.length >= VOICE_MAX_PARTICIPANTS) {
-      slog('voice-join rejected: full');
+    if (voiceSockets.length >= VOICE_MAX_PARTICIPANTS) {
+      voiceLogger.warn('voice-join rejected: full');
       socket.emit('voice-error', { error: 'Voice chat is full (max 5 participants).' });
       return;
     }
 
     // Join a dedicated voice namespace room
     await socket.join(`voice:${roomId}`);
-    slog('joined voice room', { voiceRoom: `voice:${roomId}` });
-
-    // Provide existing peers to new joiner
-    const peers = Array.from(io.sockets.adapter.rooms.get(`voice:${roomId}`) || new Set<string>()).filter(
-      id => id !== socket.id
-    );
-
-    // Map socket ids in voice room to userIds but only if the socket is still in the main room
-    const peerUserIds = peers
-      .map(id => io.sockets.sockets.get(id) as Socket<SocketEvents, SocketEvents, object, SocketData> | undefined)
-      .filter((s): s is Socket<SocketEvents, SocketEvents, object, SocketData> => Boolean(s))
-      .filter(s => s.data.roomId === roomId)
+    socket.data.inVoice = true;
+    voiceLogger.info('joined voice room', { voiceRoom: `voice:${roomId}` });
+
+    // Provide existing peers to new joiner, but only if their socket is still in the main room
+    const peerUserIds = voiceSockets
+      .filter(s => s.id !== socket.id && s.data.roomId === roomId)
       .map(s => s.data.userId)
       .filter((id): id is string => Boolean(id));
 
-    slog('sending existing peers', { count: peerUserIds.length });
+    voiceLogger.debug('sending existing peers', { count: peerUserIds.length });
     socket.emit('voice-existing-peers', { userIds: peerUserIds });
 
     // Notify others about this peer
     socket.to(`voice:${roomId}`).emit('voice-peer-joined', { userId: socket.data.userId });
-    slog('broadcasted peer-joined');
+    voiceLogger.debug('broadcasted peer-joined');
   });
 
   // Leave voice
   socket.on('voice-leave', async data => {
-    slog('voice-leave received');
+    voiceLogger.debug('voice-leave received');
     const validated = validateData(VoiceLeaveDataSchema, data, socket);
     if (!validated) return;
     const { roomId } = validated;
     if (!socket.data.userId) return;
     await socket.leave(`voice:${roomId}`);
+    socket.data.inVoice = false;
     socket.to(`voice:${roomId}`).emit('voice-peer-left', { userId: socket.data.userId });
-    slog('left voice room and broadcasted peer-left');
+    voiceLogger.info('left voice room and broadcasted peer-left');
   });
 
   // Relay offer (include sender id)
   socket.on('voice-offer', async data => {
-    slog('voice-offer relay');
+    voiceLogger.debug('voice-offer relay');
     const validated = validateData(VoiceOfferSchema, data, socket);
     if (!validated) return;
     const { roomId, targetUserId, sdp } = validated;
-    // Find socket for target user in room
-    const targetSocket = await findSocketByUserId(io, targetUserId);
-    if (!targetSocket) {
-      slog('voice-offer target not found', { targetUserId });
+    if (!(await authorizeRelay(socket, roomId, targetUserId))) return;
+    // Addressed straight to the socket by its ID, the adapter finds whichever server holds it
+    const targetSocketId = await redisService.userMapping.getUserSocket(targetUserId);
+    if (!targetSocketId) {
+      voiceLogger.warn('voice-offer target not found', { targetUserId });
       socket.emit('voice-error', { error: 'Target user not found' });
       return;
     }
-    targetSocket.emit('voice-offer-received', { fromUserId: socket.data.userId!, sdp });
+    io.to(targetSocketId).emit('voice-offer-received', { fromUserId: socket.data.userId!, sdp });
   });
 
   // Relay answer (include sender id)
   socket.on('voice-answer', async data => {
-    slog('voice-answer relay');
+    voiceLogger.debug('voice-answer relay');
     const validated = validateData(VoiceAnswerSchema, data, socket);
     if (!validated) return;
     const { roomId, targetUserId, sdp } = validated;
-    const targetSocket = await findSocketByUserId(io, targetUserId);
-    if (!targetSocket) {
-      slog('voice-answer target not found', { targetUserId });
+    if (!(await authorizeRelay(socket, roomId, targetUserId))) return;
+    const targetSocketId = await redisService.userMapping.getUserSocket(targetUserId);
+    if (!targetSocketId) {
+      voiceLogger.warn('voice-answer target not found', { targetUserId });
       socket.emit('voice-error', { error: 'Target user not found' });
       return;
     }
-    targetSocket.emit('voice-answer-received', { fromUserId: socket.data.userId!, sdp });
+    io.to(targetSocketId).emit('voice-answer-received', { fromUserId: socket.data.userId!, sdp });
   });
 
   // Relay ICE candidates (include sender id)
   socket.on('voice-ice-candidate', async data => {
-    slog('voice-ice relay');
+    voiceLogger.debug('voice-ice relay');
     const validated = validateData(VoiceIceCandidateSchema, data, socket);
     if (!validated) return;
     const { roomId, targetUserId, candidate } = validated;
-    const targetSocket = await findSocketByUserId(io, targetUserId);
-    if (!targetSocket) {
-      slog('voice-ice target not found', { targetUserId });
+    if (!(await authorizeRelay(socket, roomId, targetUserId))) return;
+    const targetSocketId = await redisService.userMapping.getUserSocket(targetUserId);
+    if (!targetSocketId) {
+      voiceLogger.warn('voice-ice target not found', { targetUserId });
       socket.emit('voice-error', { error: 'Target user not found' });
       return;
     }
-    targetSocket.emit('voice-ice-candidate-received', { fromUserId: socket.data.userId!, candidate });
+    io.to(targetSocketId).emit('voice-ice-candidate-received', { fromUserId: socket.data.userId!, candidate });
   });
 
   // Ensure peers are notified on disconnect
   socket.on('disconnecting', () => {
-    slog('disconnecting');
+    voiceLogger.debug('disconnecting');
     try {
       const rooms = socket.rooms;
       for (const room of rooms) {
         if (room.startsWith('voice:') && socket.data.userId) {
           socket.to(room).emit('voice-peer-left', { userId: socket.data.userId });
-          slog('broadcasted peer-left on disconnect', { room });
+          voiceLogger.debug('broadcasted peer-left on disconnect', { room });
           // Also proactively leave the voice room to update adapter state
           const maybePromise = socket.leave(room);
           if (maybePromise && typeof (maybePromise as Promise<void>).then === 'function') {
@@ -155,36 +157,31 @@ export function registerVoiceHandlers(socket: Socket<SocketEvents, SocketEvents,
   });
 }
 
-// Efficiently find a socket by userId using Redis mapping
-async function findSocketByUserId(
-  io: IOServer,
-  userId: string
-): Promise<Socket<SocketEvents, SocketEvents, object, SocketData> | undefined> {
-  try {
-    // Get socketId from Redis mapping
-    const socketId = await redisService.userMapping.getUserSocket(userId);
-    if (!socketId) {
-      return undefined;
-    }
-
-    // Get socket from Socket.IO using the mapped socketId
-    const socket = io.sockets.sockets.get(socketId) as
-      | Socket<SocketEvents, SocketEvents, object, SocketData>
-      | undefined;
-
-    // Verify the socket still exists and has the correct userId
-    if (socket && socket.data.userId === userId) {
-      return socket;
-    }
+// Only someone in the call whose role still includes voice can signal, and only to someone in the same room
+async function authorizeRelay(
+  socket: Socket<SocketEvents, SocketEvents, object, SocketData>,
+  roomId: string,
+  targetUserId: string
+): Promise<boolean> {
+  if (!socket.rooms.has(`voice:${roomId}`)) {
+    voiceLogger.warn('relay rejected: sender not in voice');
+    socket.emit('voice-error', { error: 'Join voice chat first' });
+    return false;
+  }
 
-    // If socket doesn't exist or userId doesn't match, clean up stale mapping
-    if (!socket || socket.data.userId !== userId) {
-      await redisService.userMapping.removeUserSocket(userId);
-    }
+  const room = await redisService.rooms.getRoom(roomId);
+  const currentUser = room?.users.find(u => u.id === socket.data.userId);
+  if (!hasPermission(currentUser, 'use-voice')) {
+    voiceLogger.warn('relay rejected: not permitted');
+    socket.emit('voice-error', { error: 'Your role in this room does not include voice chat' });
+    return false;
+  }
 
-    return undefined;
-  } catch (error) {
-    console.error('Error finding socket by userId:', error);
-    return undefined;
+  if (!room?.users.some(u => u.id === targetUserId)) {
+    voiceLogger.warn('relay rejected: target not in room', { targetUserId });
+    socket.emit('voice-error', { error: 'Target user not found' });
+    return false;
   }
+
+  return true;
 }
@@ -0,0 +1,174 @@
+import { Socket, Server as IOServer } from 'socket.io';
+import { v4 as uuidv4 } from 'uuid';
+import { redisService } from '@/server/redis';
+import { logger } from '@/server/logger';
+import { calculateCurrentTime } from '@/lib/video-utils';
+import { PlaybackVote, Room, SetControlModeDataSchema, CastVoteDataSchema } from '@/types';
+import { SocketEvents, SocketData } from '../types';
+import { authorize, validateData } from '../utils';
+import { advanceQueue } from './queue';
+
+export function registerVoteHandlers(socket: Socket<SocketEvents, SocketEvents, object, SocketData>, io: IOServer) {
+  // Host changes who is allowed to control playback
+  socket.on('set-control-mode', async data => {
+    try {
+      const validatedData = validateData(SetControlModeDataSchema, data, socket);
+      if (!validatedData) return;
+
+      const { roomId, controlMode } = validatedData;
+      const room = await redisService.rooms.getRoom(roomId);
+      if (!room) {
+        socket.emit('room-error', { error: 'Room not found' });
+        return;
+      }
+
+      const currentUser = authorize(socket, room, 'manage-room', 'Only hosts can change the control mode');
+      if (!currentUser) return;
+
+      const voteSettings = validatedData.voteSettings ?? room.voteSettings;
+      await redisService.rooms.setControlMode(roomId, controlMode, voteSettings);
+
+      // Open votes make no sense once the room leaves vote mode
+      if (controlMode !== 'vote') {
+        for (const action of ['pause', 'skip', 'seek'] as const) {
+          const vote = await redisService.votes.getVote(roomId, action);
+          if (vote && (await redisService.votes.closeVote(roomId, action, vote.id))) {
+            io.to(roomId).emit('vote-ended', { voteId: vote.id, action, passed: false });
+          }
+        }
+      }
+
+      io.to(roomId).emit('control-mode-updated', { controlMode, voteSettings });
+      logger.info(`Control mode in room ${roomId} set to ${controlMode} by ${currentUser.name}`);
+    } catch (error) {
+      logger.error('Error setting control mode', { error });
+      socket.emit('error', { error: 'Failed to change control mode' });
+    }
+  });
+
+  // Cast a vote, opening a new one if nobody has started it yet
+  socket.on('cast-vote', async data => {
+    try {
+      const validatedData = validateData(CastVoteDataSchema, data, socket);
+      if (!validatedData) return;
+
+      const { roomId, action, targetTime } = validatedData;
+      const room = await redisService.rooms.getRoom(roomId);
+      if (!room) {
+        socket.emit('room-error', { error: 'Room not found' });
+        return;
+      }
+
+      const currentUser = room.users.find(u => u.id === socket.data.userId);
+      if (!currentUser) {
+        socket.emit('error', { error: 'Not authenticated' });
+        return;
+      }
+
+      if (room.controlMode !== 'vote') {
+        socket.emit('error', { error: 'Voting is not enabled in this room' });
+        return;
+      }
+
+      if (!room.videoUrl) {
+        socket.emit('error', { error: 'There is no video to vote on' });
+        return;
+      }
+
+      // Someone who dropped out for a moment can't vote, so they don't count towards the total
+      const presentUsers = room.users.filter(u => !u.awayUntil);
+      const required = Math.max(1, Math.ceil(presentUsers.length * room.voteSettings.threshold));
+      const openVote = await redisService.votes.getVote(roomId, action);
+
+      // A vote past its window is about to be closed by the sweep, so this one starts fresh instead
+      if (!openVote || openVote.expiresAt <= Date.now()) {
+        if (action === 'pause' && !room.videoState.isPlaying) {
+          socket.emit('error', { error: 'The video is already paused' });
+          return;
+        }
+        if (action === 'skip' && room.queue.length === 0) {
+          socket.emit('error', { error: 'The video queue is empty' });
+          return;
+        }
+        if (action === 'seek' && targetTime === undefined) {
+          socket.emit('error', { error: 'A seek vote needs a target time' });
+          return;
+        }
+      }
+
+      // Only used if nobody has opened the vote by the time ours lands, otherwise we join theirs
+      const newVote: PlaybackVote = {
+        id: uuidv4(),
+        action,
+        targetTime: action === 'seek' ? targetTime : undefined,
+        voterIds: [currentUser.id],
+        required,
+        startedBy: currentUser.id,
+        startedByName: currentUser.name,
+        expiresAt: Date.now() + room.voteSettings.windowSeconds * 1000,
+      };
+
+      const result = await redisService.votes.castVote(roomId, newVote, currentUser.id, required);
+      if (result.status === 'duplicate') {
+        socket.emit('error', { error: 'You have already voted' });
+        return;
+      }
+
+      const { vote, passed } = result;
+      if (result.status === 'started') {
+        logger.info(`Vote to ${action} started in room ${roomId} by ${currentUser.name}`);
+      }
+
+      if (passed) {
+        io.to(roomId).emit('vote-ended', { voteId: vote.id, action, passed: true });
+        await applyVote(io, room, vote);
+        logger.info(`Vote to ${action} passed in room ${roomId} (${vote.voterIds.length}/${vote.required})`);
+        return;
+      }
+
+      io.to(roomId).emit('vote-updated', { vote });
+    } catch (error) {
+      logger.error('Error casting vote', { error });
+      socket.emit('error', { error: 'Failed to cast vote' });
+    }
+  });
+}
+
+// Closes votes as failed once their window runs out before enough people agree, whichever server
+// opened them. Runs on every server, and each expired vote is only picked up by one
+export async function sweepExpiredVotes(io: IOServer): Promise<void> {
+  try {
+    const now = Date.now();
+    for (const { roomId, action } of await redisService.votes.claimExpired(now)) {
+      const vote = await redisService.votes.getVote(roomId, action);
+      // The vote already passed, or a newer vote replaced it and has a deadline of its own
+      if (!vote || vote.expiresAt > now) continue;
+      if (!(await redisService.votes.closeVote(roomId, action, vote.id))) continue;
+
+      io.to(roomId).emit('vote-ended', { voteId: vote.id, action, passed: false });
+      logger.info(`Vote to ${action} expired in room ${roomId}`);
+    }
+  } catch (error) {
+    logger.error('Error expiring votes', { error });
+  }
+}
+
+async function applyVote(io: IOServer, room: Room, vote: PlaybackVote): Promise<void> {
+  if (vote.action === 'skip') {
+    await advanceQueue(io, room.id, room.videoId);
+    return;
+  }
+
+  // Worked out from where the video is now, not where it was when the vote was cast
+  const videoState = await redisService.rooms.updateVideoState(room.id, current => ({
+    ...(vote.action === 'pause' && { isPlaying: false }),
+    currentTime:
+      vote.action === 'seek' && vote.targetTime !== undefined ? vote.targetTime : calculateCurrentTime(current),
+    lastUpdateTime: Date.now(),
+  }));
+
+  io.to(room.id).emit(vote.action === 'pause' ? 'video-paused' : 'video-seeked', {
+    currentTime: videoState.currentTime,
+    timestamp: videoState.lastUpdateTime,
+  });
+}
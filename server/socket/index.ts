@@ -1,14 +1,42 @@
 import { Server as IOServer } from 'socket.io';
+import { v4 as uuidv4 } from 'uuid';
+import { z } from 'zod';
 import { Server as HTTPServer } from 'http';
 import { Socket } from 'socket.io';
+import Redis from 'ioredis';
+import { createAdapter } from '@socket.io/redis-adapter';
+import { redis } from '@/server/redis/client';
+import { logger } from '@/server/logger';
 import { SocketEvents, SocketData } from './types';
-import { registerRoomHandlers } from './handlers/room';
+import { registerRoomHandlers, sweepAwaySeats } from './handlers/room';
 import { registerVideoHandlers } from './handlers/video';
 import { registerChatHandlers } from './handlers/chat';
 import { registerVoiceHandlers } from './handlers/voice';
+import { registerQueueHandlers } from './handlers/queue';
+import { registerSuggestionHandlers } from './handlers/suggestion';
+import { registerVoteHandlers, sweepExpiredVotes } from './handlers/vote';
+import { registerClockHandlers } from './handlers/clock';
+import { registerBufferingHandlers } from './handlers/buffering';
+import { registerSyncHealthHandlers } from './handlers/sync-health';
+import { registerLobbyHandlers } from './handlers/lobby';
+import { registerSuccessionHandlers, sweepHostElections } from './handlers/succession';
 import { handleDisconnect } from './handlers/disconnect';
+import { instrumentSocket, registerServerMetrics } from './metrics';
+import { applyRateLimits } from './rate-limit';
+
+// How long clients get to move to another server before the stragglers are let go
+const DRAIN_TIMEOUT_MS = 10000;
+const DRAIN_POLL_MS = 250;
+// How often held seats, votes and host elections that have run out are looked for, which is also how late one
+// can be dealt with
+const SWEEP_INTERVAL_MS = 1000;
 
 let io: IOServer | undefined;
+let adapterClients: Redis[] = [];
+let draining = false;
+let sweep: NodeJS.Timeout | undefined;
+// Disconnects still being cleaned up, so shutdown can wait for them
+const pendingDisconnects = new Set<Promise<void>>();
 
 export function initSocketIO(httpServer: HTTPServer): IOServer {
   if (io) {
@@ -27,20 +55,96 @@ export function initSocketIO(httpServer: HTTPServer): IOServer {
     path: '/api/socket/io',
   });
 
+  // Rooms and broadcasts go through Redis pub/sub, so several servers can share the same rooms
+  adapterClients = [redis.duplicate(), redis.duplicate()];
+  io.adapter(createAdapter(adapterClients[0], adapterClients[1]));
+  registerServerMetrics(io);
+
+  // Deadlines live in Redis, so this picks up ones set by a server that has since gone away too
+  let sweeping = false;
+  sweep = setInterval(async () => {
+    if (sweeping) return;
+    sweeping = true;
+    await sweepAwaySeats(io!);
+    await sweepExpiredVotes(io!);
+    await sweepHostElections(io!);
+    sweeping = false;
+  }, SWEEP_INTERVAL_MS);
+
+  // Clients identify themselves with an ID kept in their browser, anyone without one gets a throwaway ID
+  io.use((socket, next) => {
+    const clientId = z.string().uuid().safeParse(socket.handshake.auth?.clientId);
+    socket.data.clientId = clientId.success ? clientId.data : uuidv4();
+    next();
+  });
+
   io.on('connection', (socket: Socket<SocketEvents, SocketEvents, object, SocketData>) => {
-    console.log('User connected:', socket.id);
+    logger.info('User connected', { socketId: socket.id });
+    instrumentSocket(socket);
+    applyRateLimits(socket);
+
+    // Someone who still reached a draining server is sent on like everyone else
+    if (draining) {
+      socket.emit('server-draining', { reconnectWithinMs: 0 });
+    }
 
     // Register all handlers - io is guaranteed to be defined here
     registerRoomHandlers(socket, io!);
+    registerLobbyHandlers(socket, io!);
+    registerSuccessionHandlers(socket, io!);
     registerVideoHandlers(socket, io!);
+    registerQueueHandlers(socket, io!);
+    registerSuggestionHandlers(socket, io!);
+    registerVoteHandlers(socket, io!);
+    registerBufferingHandlers(socket, io!);
+    registerSyncHealthHandlers(socket, io!);
     registerChatHandlers(socket, io!);
     registerVoiceHandlers(socket, io!);
+    registerClockHandlers(socket);
 
     // Handle disconnect
-    socket.on('disconnect', () => handleDisconnect(socket));
+    socket.on('disconnect', () => {
+      const pending = handleDisconnect(socket, io!).finally(() => pendingDisconnects.delete(pending));
+      pendingDisconnects.add(pending);
+    });
   });
 
   return io;
 }
 
+export function getSocketIOStatus(): { initialized: boolean; draining: boolean; connectedSockets: number } {
+  return { initialized: Boolean(io), draining, connectedSockets: io?.of('/').sockets.size ?? 0 };
+}
+
+// Moves everyone connected here to another server, then leaves the room state as if they had dropped
+export async function drainSocketIO(): Promise<void> {
+  if (!io || draining) return;
+  draining = true;
+  // Seats held and votes or elections started here are tracked in Redis, and the servers still running see them through
+  clearInterval(sweep);
+
+  // Only this server's clients, the others keep theirs
+  io.local.emit('server-draining', { reconnectWithinMs: DRAIN_TIMEOUT_MS / 2 });
+  logger.info(`Draining ${io.of('/').sockets.size} sockets...`);
+
+  const deadline = Date.now() + DRAIN_TIMEOUT_MS;
+  while (io.of('/').sockets.size > 0 && Date.now() < deadline) {
+    await new Promise(resolve => setTimeout(resolve, DRAIN_POLL_MS));
+  }
+
+  // Anyone who didn't move in time is treated like a dropped connection, and closing the transport
+  // rather than disconnecting them lets their client reconnect on its own
+  for (const socket of io.of('/').sockets.values()) {
+    await handleDisconnect(socket, io);
+    socket.data.roomId = undefined;
+    socket.data.lobbyRequest = undefined;
+    socket.conn.close();
+  }
+
+  await Promise.all(pendingDisconnects);
+  await Promise.all(adapterClients.map(client => client.quit()));
+
+  logger.info('Socket.IO drained');
+}
+
 export { io };
@@ -0,0 +1,166 @@
+import { Socket, Server as IOServer } from 'socket.io';
+import { v4 as uuidv4 } from 'uuid';
+import { Counter, Gauge, Histogram, Registry, collectDefaultMetrics } from 'prom-client';
+import { redisService } from '@/server/redis';
+import { Room } from '@/types';
+import { getLogContext, logger, runWithLogContext } from '@/server/logger';
+import { SocketEvents, SocketData } from './types';
+
+type Listener = (...args: unknown[]) => unknown;
+
+export const metricsRegistry = new Registry();
+collectDefaultMetrics({ register: metricsRegistry });
+
+// Events that carry an error back to the client, counted against whichever handler sent them
+const ERROR_EVENTS = new Set(['error', 'room-error', 'voice-error']);
+
+const ROOM_SIZE_BUCKETS = [
+  { label: '1', upTo: 1 },
+  { label: '2', upTo: 2 },
+  { label: '3-5', upTo: 5 },
+  { label: '6-10', upTo: 10 },
+  { label: '11+', upTo: Infinity },
+];
+
+let activeRooms: Promise<Room[]> | undefined;
+
+const eventDuration = new Histogram({
+  name: 'sideby_socket_event_duration_seconds',
+  help: 'Time spent handling each socket event',
+  labelNames: ['event'],
+  registers: [metricsRegistry],
+});
+
+const eventErrors = new Counter({
+  name: 'sideby_socket_event_errors_total',
+  help: 'Errors sent back to clients, by the socket event being handled',
+  labelNames: ['event'],
+  registers: [metricsRegistry],
+});
+
+export const rateLimitedTotal = new Counter({
+  name: 'sideby_rate_limited_total',
+  help: 'Socket events dropped for going over their rate limit',
+  labelNames: ['event'],
+  registers: [metricsRegistry],
+});
+
+// rate() over this gives messages per second
+export const chatMessagesTotal = new Counter({
+  name: 'sideby_chat_messages_total',
+  help: 'Chat messages sent',
+  registers: [metricsRegistry],
+});
+
+// Times every handler registered on the socket, counts the errors it sends back and tags its logs
+// with who sent the event, so the handlers themselves don't have to. Must run before any handlers are registered
+export function instrumentSocket(socket: Socket<SocketEvents, SocketEvents, object, SocketData>): void {
+  const on = socket.on.bind(socket) as (event: string, listener: Listener) => unknown;
+  const emit = socket.emit.bind(socket) as (event: string, ...args: unknown[]) => boolean;
+
+  socket.on = ((event: string, listener: Listener) => {
+    on(event, (...args: unknown[]) => {
+      const requestId = uuidv4();
+      const payloadRoomId = (args[0] as { roomId?: unknown } | undefined)?.roomId;
+      const getContext = () => ({
+        requestId,
+        event,
+        socketId: socket.id,
+        userId: socket.data.userId,
+        roomId: socket.data.roomId ?? (typeof payloadRoomId === 'string' ? payloadRoomId : undefined),
+      });
+
+      return runWithLogContext(getContext, async () => {
+        const endTimer = eventDuration.startTimer({ event });
+        try {
+          await listener(...args);
+        } catch (error) {
+          // socket.io ignores what listeners return, so anything thrown here would end up as an unhandled rejection
+          eventErrors.inc({ event });
+          logger.error('Unhandled error in socket handler', { error });
+        } finally {
+          endTimer();
+        }
+      });
+    });
+    return socket;
+  }) as unknown as typeof socket.on;
+
+  socket.emit = ((event: string, ...args: unknown[]) => {
+    if (ERROR_EVENTS.has(event)) {
+      eventErrors.inc({ event: getLogContext()?.event ?? 'none' });
+    }
+    return emit(event, ...args);
+  }) as unknown as typeof socket.emit;
+}
+
+// Room figures come from Redis and cover every server, socket figures only this one
+export function registerServerMetrics(io: IOServer): void {
+  new Gauge({
+    name: 'sideby_connected_sockets',
+    help: 'Sockets connected to this server',
+    registers: [metricsRegistry],
+    collect() {
+      this.set(io.of('/').sockets.size);
+    },
+  });
+
+  new Gauge({
+    name: 'sideby_voice_participants',
+    help: 'Sockets in a voice call on this server',
+    registers: [metricsRegistry],
+    collect() {
+      let participants = 0;
+      for (const [name, socketIds] of io.of('/').adapter.rooms) {
+        if (name.startsWith('voice:')) participants += socketIds.size;
+      }
+      this.set(participants);
+    },
+  });
+
+  new Gauge({
+    name: 'sideby_active_rooms',
+    help: 'Rooms that currently exist',
+    registers: [metricsRegistry],
+    async collect() {
+      this.set((await getActiveRooms()).length);
+    },
+  });
+
+  new Gauge({
+    name: 'sideby_room_users',
+    help: 'Users in all rooms',
+    registers: [metricsRegistry],
+    async collect() {
+      this.set((await getActiveRooms()).reduce((total, room) => total + room.users.length, 0));
+    },
+  });
+
+  // Labeled by size rather than by room, so the number of series stays fixed however many rooms there are
+  new Gauge({
+    name: 'sideby_rooms_by_size',
+    help: 'Rooms that have anyone in them, by how many users they have',
+    labelNames: ['size'],
+    registers: [metricsRegistry],
+    async collect() {
+      const counts = new Map(ROOM_SIZE_BUCKETS.map(bucket => [bucket.label, 0]));
+      for (const room of await getActiveRooms()) {
+        const bucket = ROOM_SIZE_BUCKETS.find(bucket => room.users.length <= bucket.upTo);
+        if (room.users.length > 0 && bucket) {
+          counts.set(bucket.label, counts.get(bucket.label)! + 1);
+        }
+      }
+      for (const [size, count] of counts) {
+        this.set({ size }, count);
+      }
+    },
+  });
+}
+
+// Every room gauge is collected in the same scrape, so they share one read of the rooms from Redis
+function getActiveRooms(): Promise<Room[]> {
+  activeRooms ??= redisService.rooms.getActiveRooms().finally(() => {
+    activeRooms = undefined;
+  });
+  return activeRooms;
+}
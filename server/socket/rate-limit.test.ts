@@ -0,0 +1,53 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { isRedisAvailable } from '@/test/redis';
+import { Client, Instance, connectTo, next, startInstance } from '@/test/server';
+
+describe.skipIf(!(await isRedisAvailable()))('rate limits', () => {
+  let server: Instance;
+  const clients: Client[] = [];
+
+  function client(): Client {
+    const c = connectTo(server);
+    clients.push(c);
+    return c;
+  }
+
+  beforeAll(async () => {
+    server = await startInstance();
+  });
+
+  afterAll(async () => {
+    clients.forEach(c => c.disconnect());
+    await server?.stop();
+  });
+
+  it('stops a client that sends faster than its limit', async () => {
+    const typist = client();
+    const limited = next(typist, 'rate-limited');
+    for (let i = 0; i < 6; i++) {
+      typist.emit('typing-stop', { roomId: 'room' });
+    }
+
+    const { event, retryAfterMs } = await limited;
+    expect(event).toBe('typing-stop');
+    expect(retryAfterMs).toBeGreaterThan(0);
+  });
+
+  it('does not hand a fresh allowance to every new client ID from the same address', async () => {
+    let limited = false;
+    for (let attempt = 0; attempt < 20 && !limited; attempt++) {
+      const typist = client();
+      typist.on('rate-limited', () => {
+        limited = true;
+      });
+      for (let i = 0; i < 5; i++) {
+        typist.emit('typing-start', { roomId: 'room' });
+      }
+      // A round trip after the burst, so any rate-limited reply has arrived
+      typist.emit('clock-ping', { clientTime: Date.now() });
+      await next(typist, 'clock-pong');
+    }
+
+    expect(limited).toBe(true);
+  });
+});
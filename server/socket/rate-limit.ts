@@ -0,0 +1,114 @@
+import { Socket } from 'socket.io';
+import { redisService } from '@/server/redis';
+import { logger } from '@/server/logger';
+import { SocketEvents, SocketData } from './types';
+import { rateLimitedTotal } from './metrics';
+
+interface RateLimit {
+  // How many can be sent back to back
+  capacity: number;
+  // How quickly that allowance comes back
+  refillPerSecond: number;
+}
+
+interface LocalBucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+// Things people trigger by hand get a little headroom over what a real person does. Voice needs
+// bursts while a call is being set up, and anything not listed here gets the default
+const RATE_LIMITS: Partial<Record<keyof SocketEvents, RateLimit>> = {
+  'send-message': { capacity: 5, refillPerSecond: 1 },
+  'typing-start': { capacity: 5, refillPerSecond: 1 },
+  'typing-stop': { capacity: 5, refillPerSecond: 1 },
+  'play-video': { capacity: 10, refillPerSecond: 2 },
+  'pause-video': { capacity: 10, refillPerSecond: 2 },
+  'seek-video': { capacity: 10, refillPerSecond: 2 },
+  'voice-offer': { capacity: 10, refillPerSecond: 2 },
+  'voice-answer': { capacity: 10, refillPerSecond: 2 },
+  'voice-ice-candidate': { capacity: 50, refillPerSecond: 10 },
+};
+
+// Sent on a timer by every client, so a trip to Redis for each would cost more than the events themselves.
+// These are counted per socket on the server it is connected to instead
+const LOCAL_RATE_LIMITS: Partial<Record<keyof SocketEvents, RateLimit>> = {
+  'clock-ping': { capacity: 10, refillPerSecond: 2 },
+  'sync-check': { capacity: 5, refillPerSecond: 1 },
+};
+
+const DEFAULT_RATE_LIMIT: RateLimit = { capacity: 20, refillPerSecond: 5 };
+
+// Everyone behind one address shares a bucket this many times the size of a single browser's, so making up
+// new client IDs only goes so far
+const ADDRESS_RATE_LIMIT_MULTIPLIER = 10;
+
+// Drops events from a client that sends them faster than its limit allows, telling it when to try again.
+// Buckets kept in Redis follow the browser rather than the socket, so reconnecting doesn't top them up
+export function applyRateLimits(socket: Socket<SocketEvents, SocketEvents, object, SocketData>): void {
+  const localBuckets = new Map<string, LocalBucket>();
+
+  socket.use(async ([event], next) => {
+    const localLimit = LOCAL_RATE_LIMITS[event as keyof SocketEvents];
+    if (localLimit) {
+      const retryAfterMs = takeLocal(localBuckets, event, localLimit);
+      if (retryAfterMs > 0) {
+        rejectEvent(socket, event, retryAfterMs);
+        return;
+      }
+
+      next();
+      return;
+    }
+
+    const { capacity, refillPerSecond } = RATE_LIMITS[event as keyof SocketEvents] ?? DEFAULT_RATE_LIMIT;
+    // Client IDs are whatever the browser sends, so the address is checked as well
+    const address = socket.handshake.address;
+
+    try {
+      const { allowed, retryAfterMs } = await redisService.rateLimits.take([
+        { key: `client:${address}:${socket.data.clientId}:${event}`, capacity, refillPerSecond },
+        {
+          key: `address:${address}:${event}`,
+          capacity: capacity * ADDRESS_RATE_LIMIT_MULTIPLIER,
+          refillPerSecond: refillPerSecond * ADDRESS_RATE_LIMIT_MULTIPLIER,
+        },
+      ]);
+      if (!allowed) {
+        rejectEvent(socket, event, retryAfterMs);
+        return;
+      }
+    } catch (error) {
+      // Better to let the event through than to stop the room working while Redis is struggling
+      logger.error('Error checking rate limit', { error, event });
+    }
+
+    next();
+  });
+}
+
+// The same token bucket as the Redis one, returning how long until the next token or 0 if one was spent
+function takeLocal(buckets: Map<string, LocalBucket>, event: string, { capacity, refillPerSecond }: RateLimit): number {
+  const now = Date.now();
+  const bucket = buckets.get(event) ?? { tokens: capacity, updatedAt: now };
+  bucket.tokens = Math.min(capacity, bucket.tokens + ((now - bucket.updatedAt) * refillPerSecond) / 1000);
+  bucket.updatedAt = now;
+  buckets.set(event, bucket);
+
+  if (bucket.tokens < 1) {
+    return Math.ceil(((1 - bucket.tokens) * 1000) / refillPerSecond);
+  }
+
+  bucket.tokens -= 1;
+  return 0;
+}
+
+function rejectEvent(
+  socket: Socket<SocketEvents, SocketEvents, object, SocketData>,
+  event: string,
+  retryAfterMs: number
+) {
+  rateLimitedTotal.inc({ event });
+  logger.debug('Rate limited', { event, socketId: socket.id, retryAfterMs });
+  socket.emit('rate-limited', { event, retryAfterMs });
+}
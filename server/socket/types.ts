@@ -1,9 +1,15 @@
 import { SocketEvents as ImportedSocketEvents } from '@/types';
 
 export interface SocketData {
+  // Stable per browser, unlike userId which changes on every join
+  clientId: string;
   userId: string;
   userName: string;
   roomId?: string;
+  inVoice?: boolean;
+  // The lobby request this socket made, which a host may since have answered from any server, so it is
+  // checked against Redis before it is used
+  lobbyRequest?: { roomId: string; requestId: string };
 }
 
 export type SocketEvents = ImportedSocketEvents;
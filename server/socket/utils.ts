@@ -1,6 +1,12 @@
-import { Socket } from 'socket.io';
+import { RemoteSocket, Socket, Server as IOServer } from 'socket.io';
+import { createHmac, randomBytes, scrypt, timingSafeEqual } from 'crypto';
+import { promisify } from 'util';
 import { z } from 'zod';
 import { SocketEvents, SocketData } from './types';
+import { redisService } from '@/server/redis';
+import { logger } from '@/server/logger';
+import { PublicRoom, Room, User } from '@/types';
+import { Permission, hasPermission } from '@/lib/permissions';
 
 // Helper function for validating data with Zod schemas
 export function validateData<T>(
@@ -12,14 +18,142 @@ export function validateData<T>(
     return schema.parse(data);
   } catch (error) {
     if (error instanceof z.ZodError) {
-      console.error('❌ Validation error:', error.issues);
+      logger.warn('Validation error', { issues: error.issues });
       socket.emit('room-error', {
         error: `Invalid data: ${error.issues.map(issue => issue.message).join(', ')}`,
       });
     } else {
-      console.error('❌ Unexpected validation error:', error);
+      logger.error('Unexpected validation error', { error });
       socket.emit('room-error', { error: 'Invalid data provided' });
     }
     return null;
   }
 }
+
+const scryptAsync = promisify(scrypt);
+
+// Room passwords are stored as "salt:key" so each room gets its own salt
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString('hex');
+  const key = (await scryptAsync(password, salt, 64)) as Buffer;
+  return `${salt}:${key.toString('hex')}`;
+}
+
+export async function verifyPassword(password: string, passwordHash: string): Promise<boolean> {
+  const [salt, storedKey] = passwordHash.split(':');
+  if (!salt || !storedKey) return false;
+
+  const key = (await scryptAsync(password, salt, 64)) as Buffer;
+  const expected = Buffer.from(storedKey, 'hex');
+  return key.length === expected.length && timingSafeEqual(key, expected);
+}
+
+// Without a configured secret, tokens only stay valid until the server restarts
+const REJOIN_TOKEN_SECRET = process.env.REJOIN_TOKEN_SECRET || randomBytes(32).toString('hex');
+const REJOIN_TOKEN_TTL_MS = 24 * 60 * 60 * 1000;
+
+export interface RejoinTokenPayload {
+  roomId: string;
+  userId: string;
+  clientId: string;
+  expiresAt: number;
+}
+
+// Rejoin tokens are "payload.signature", tied to the browser they were issued to
+export function createRejoinToken(roomId: string, userId: string, clientId: string): string {
+  const payload: RejoinTokenPayload = { roomId, userId, clientId, expiresAt: Date.now() + REJOIN_TOKEN_TTL_MS };
+  const encoded = Buffer.from(JSON.stringify(payload)).toString('base64url');
+  return `${encoded}.${signRejoinToken(encoded)}`;
+}
+
+export function verifyRejoinToken(token: string): RejoinTokenPayload | null {
+  const [encoded, signature] = token.split('.');
+  if (!encoded || !signature) return null;
+
+  const expected = Buffer.from(signRejoinToken(encoded), 'base64url');
+  const actual = Buffer.from(signature, 'base64url');
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return null;
+
+  try {
+    const payload = JSON.parse(Buffer.from(encoded, 'base64url').toString()) as RejoinTokenPayload;
+    return payload.expiresAt > Date.now() ? payload : null;
+  } catch {
+    return null;
+  }
+}
+
+function signRejoinToken(encoded: string): string {
+  return createHmac('sha256', REJOIN_TOKEN_SECRET).update(encoded).digest('base64url');
+}
+
+// The password hash and host token never leave the server as part of the room
+export function toPublicRoom(room: Room): PublicRoom {
+  const { hostToken: _hostToken, passwordHash: _passwordHash, ...publicRoom } = room;
+  return publicRoom;
+}
+
+// Finds the user behind this socket and checks their role allows the action,
+// telling them why not when it doesn't
+export function authorize(
+  socket: Socket<SocketEvents, SocketEvents, object, SocketData>,
+  room: Room,
+  permission: Permission,
+  deniedMessage: string
+): User | null {
+  const user = room.users.find(u => u.id === socket.data.userId);
+  if (!user || !hasPermission(user, permission)) {
+    socket.emit('error', { error: deniedMessage });
+    return null;
+  }
+  return user;
+}
+
+// Finds a socket on whichever server it is connected to. Changes to its data only stick on that
+// server, so anything other servers need to know belongs in Redis
+export async function fetchSocket(
+  io: IOServer,
+  socketId: string
+): Promise<RemoteSocket<SocketEvents, SocketData> | undefined> {
+  const [socket] = await io.in(socketId).fetchSockets();
+  return socket as RemoteSocket<SocketEvents, SocketData> | undefined;
+}
+
+// For things only some roles act on, like the lobby or sync health
+export async function emitToPermitted<E extends keyof SocketEvents>(
+  io: IOServer,
+  room: Room,
+  permission: Permission,
+  event: E,
+  ...args: Parameters<SocketEvents[E]>
+): Promise<void> {
+  for (const user of room.users.filter(u => hasPermission(u, permission))) {
+    const userSocketId = await redisService.userMapping.getUserSocket(user.id);
+    if (userSocketId) {
+      io.to(userSocketId).emit(event, ...args);
+    }
+  }
+}
+
+// Only those who can kick get to see and lift bans
+export async function emitBans(io: IOServer, room: Room): Promise<void> {
+  const bans = await redisService.bans.getBans(room.id);
+  await emitToPermitted(io, room, 'kick', 'bans-updated', { bans });
+}
+
+// Determine how the client should play a video URL
+export function getVideoType(videoUrl: string): 'youtube' | 'mp4' | 'm3u8' {
+  if (videoUrl.includes('youtube.com') || videoUrl.includes('youtu.be')) {
+    return 'youtube';
+  }
+  if (videoUrl.match(/\.(m3u8)(\?.*)?$/i) || videoUrl.includes('/live/') || videoUrl.includes('.m3u8')) {
+    return 'm3u8';
+  }
+  return 'mp4';
+}
+
+export function getPlaybackDeniedMessage(room: Room, user: User | undefined): string {
+  if (user?.role === 'viewer') return 'Viewers cannot control the video';
+  return room.controlMode === 'vote'
+    ? 'Start a vote to control playback in this room'
+    : 'Only hosts and moderators can control the video';
+}
@@ -0,0 +1,47 @@
+import { v4 as uuidv4 } from 'uuid';
+import { DEFAULT_VOTE_SETTINGS, Room, User } from '@/types';
+import { generateRoomId } from '@/lib/video-utils';
+
+export function makeUser(overrides: Partial<User> = {}): User {
+  return {
+    id: uuidv4(),
+    name: `User ${Math.random().toString(36).slice(2, 8)}`,
+    role: 'member',
+    joinedAt: new Date(),
+    ...overrides,
+  };
+}
+
+// A fresh room under a random code, so suites sharing a Redis never trip over each other
+export function makeRoom(overrides: Partial<Room> = {}): Room {
+  const owner = makeUser({ role: 'owner' });
+  return {
+    id: generateRoomId(),
+    hostId: owner.id,
+    hostName: owner.name,
+    hostToken: uuidv4(),
+    videoType: null,
+    videoState: {
+      isPlaying: false,
+      currentTime: 0,
+      duration: 0,
+      lastUpdateTime: Date.now(),
+      playbackRate: 1,
+    },
+    controlMode: 'host',
+    voteSettings: DEFAULT_VOTE_SETTINGS,
+    queue: [],
+    suggestions: [],
+    waitForBuffering: false,
+    bufferingUserIds: [],
+    pausedForBuffering: false,
+    isPersistent: false,
+    hasPassword: false,
+    lobbyEnabled: false,
+    hostSuccession: 'close',
+    hostElection: null,
+    users: [owner],
+    createdAt: new Date(),
+    ...overrides,
+  };
+}
@@ -0,0 +1,29 @@
+import Redis from 'ioredis';
+
+const PING_TIMEOUT_MS = 1000;
+
+// Redis-backed suites are skipped rather than failed when there is no Redis to run against, unless
+// TEST_REDIS_URL says where one should be, as it does in CI. Asked on a throwaway connection that gives up
+// at once, so the shared client never starts retrying
+export async function isRedisAvailable(): Promise<boolean> {
+  const probe = new Redis(process.env.REDIS_URL!, {
+    lazyConnect: true,
+    maxRetriesPerRequest: 0,
+    connectTimeout: PING_TIMEOUT_MS,
+    retryStrategy: () => null,
+  });
+  probe.on('error', () => {});
+
+  try {
+    await probe.connect();
+    await probe.ping();
+    return true;
+  } catch (error) {
+    if (process.env.TEST_REDIS_URL) {
+      throw new Error(`TEST_REDIS_URL is set but Redis at ${process.env.REDIS_URL} can't be reached`, { cause: error });
+    }
+    return false;
+  } finally {
+    probe.disconnect();
+  }
+}
@@ -0,0 +1,65 @@
+import { vi } from 'vitest';
+import { createServer } from 'http';
+import { AddressInfo } from 'net';
+import { v4 as uuidv4 } from 'uuid';
+import { io as connect, Socket as ClientSocket } from 'socket.io-client';
+import { SocketEvents } from '@/types';
+
+export type Client = ClientSocket<SocketEvents, SocketEvents>;
+
+export interface Instance {
+  url: string;
+  stop: () => Promise<void>;
+}
+
+const EVENT_TIMEOUT_MS = 5000;
+
+// Each instance gets its own copy of the server modules, and with them its own Socket.IO server and Redis
+// connections, the same as a separate process sharing the same Redis
+export async function startInstance(): Promise<Instance> {
+  vi.resetModules();
+  const { initSocketIO, drainSocketIO } = await import('@/server/socket');
+  const { redis } = await import('@/server/redis/client');
+
+  const httpServer = createServer();
+  initSocketIO(httpServer);
+  await new Promise<void>(resolve => httpServer.listen(0, resolve));
+  const { port } = httpServer.address() as AddressInfo;
+
+  // Safe to call again, so a test can take its server down and still leave cleanup to afterAll
+  let stopped: Promise<void> | undefined;
+  const stop = async () => {
+    await drainSocketIO();
+    await new Promise(resolve => httpServer.close(resolve));
+    await redis.quit();
+  };
+
+  return {
+    url: `http://localhost:${port}`,
+    stop: () => (stopped ??= stop()),
+  };
+}
+
+// A browser that remembers its client ID passes the same one every time
+export function connectTo(instance: Instance, clientId = uuidv4()): Client {
+  return connect(instance.url, {
+    path: '/api/socket/io',
+    transports: ['websocket'],
+    auth: { clientId },
+    reconnection: false,
+  });
+}
+
+export function next<E extends keyof SocketEvents>(client: Client, event: E): Promise<Parameters<SocketEvents[E]>[0]> {
+  return new Promise((resolve, reject) => {
+    const timeout = setTimeout(() => reject(new Error(`Timed out waiting for ${event}`)), EVENT_TIMEOUT_MS);
+    const once = client.once.bind(client) as (
+      event: string,
+      listener: (data: Parameters<SocketEvents[E]>[0]) => void
+    ) => void;
+    once(event, data => {
+      clearTimeout(timeout);
+      resolve(data);
+    });
+  });
+}
@@ -5,25 +5,77 @@ export * from './schemas';
 import type {
   CreateRoomData,
   JoinRoomData,
+  SetRoomPasswordData,
+  SetLobbyEnabledData,
+  RespondToLobbyRequestData,
   SetVideoData,
   VideoControlData,
+  SetPlaybackRateData,
+  PlaybackRateUpdatedResponse,
+  EnqueueVideoData,
+  QueueItemActionData,
+  ReorderQueueData,
+  VideoEndedData,
+  QueueUpdatedResponse,
+  SuggestVideoData,
+  AcceptSuggestionData,
+  RejectSuggestionData,
+  SuggestionsUpdatedResponse,
+  SuggestionResolvedResponse,
+  SetControlModeData,
+  CastVoteData,
+  ControlModeUpdatedResponse,
+  VoteUpdatedResponse,
+  VoteEndedResponse,
+  SetWaitForBufferingData,
+  BufferingStateData,
+  WaitForBufferingUpdatedResponse,
+  BufferingUpdatedResponse,
+  SyncHealthReportData,
+  ForceResyncData,
+  SyncHealthUpdatedResponse,
   PromoteHostData,
+  DemoteHostData,
+  TransferOwnershipData,
+  SetUserRoleData,
+  DeleteMessageData,
   SendMessageData,
   SyncCheckData,
+  ClockPingData,
+  ClockPongResponse,
   RoomActionData,
   KickUserData,
+  UnbanUserData,
+  SetHostSuccessionData,
+  CastHostVoteData,
   RoomCreatedResponse,
   RoomJoinedResponse,
+  RoomPasswordRequiredResponse,
+  RoomPasswordUpdatedResponse,
+  LobbyWaitingResponse,
+  LobbyAdmittedResponse,
+  LobbyUpdatedResponse,
+  LobbyEnabledUpdatedResponse,
   UserJoinedResponse,
+  UserUpdatedResponse,
   UserLeftResponse,
   UserPromotedResponse,
+  UserDemotedResponse,
+  OwnershipTransferredResponse,
+  UserRoleUpdatedResponse,
+  MessageDeletedResponse,
   UserKickedResponse,
+  BansUpdatedResponse,
+  HostSuccessionUpdatedResponse,
+  HostElectionUpdatedResponse,
   VideoSetResponse,
   VideoEventResponse,
   SyncUpdateResponse,
   NewMessageResponse,
   TypingEventResponse,
   ErrorResponse,
+  RateLimitedResponse,
+  ServerDrainingResponse,
   VideoState,
   VoiceJoinData,
   VoiceLeaveData,
@@ -49,10 +101,36 @@ export interface SocketEvents {
   'room-created': (data: RoomCreatedResponse) => void;
   'room-joined': (data: RoomJoinedResponse) => void;
   'room-error': (data: ErrorResponse) => void;
+  'room-password-required': (data: RoomPasswordRequiredResponse) => void;
+  'set-room-password': (data: SetRoomPasswordData) => void;
+  'room-password-updated': (data: RoomPasswordUpdatedResponse) => void;
   'user-joined': (data: UserJoinedResponse) => void;
+  'user-updated': (data: UserUpdatedResponse) => void;
   'user-left': (data: UserLeftResponse) => void;
   'user-promoted': (data: UserPromotedResponse) => void;
+  'demote-host': (data: DemoteHostData) => void;
+  'user-demoted': (data: UserDemotedResponse) => void;
+  'transfer-ownership': (data: TransferOwnershipData) => void;
+  'ownership-transferred': (data: OwnershipTransferredResponse) => void;
+  'set-user-role': (data: SetUserRoleData) => void;
+  'user-role-updated': (data: UserRoleUpdatedResponse) => void;
   'user-kicked': (data: UserKickedResponse) => void;
+  'unban-user': (data: UnbanUserData) => void;
+  'bans-updated': (data: BansUpdatedResponse) => void;
+
+  // Host succession events
+  'set-host-succession': (data: SetHostSuccessionData) => void;
+  'cast-host-vote': (data: CastHostVoteData) => void;
+  'host-succession-updated': (data: HostSuccessionUpdatedResponse) => void;
+  'host-election-updated': (data: HostElectionUpdatedResponse) => void;
+
+  // Lobby events
+  'set-lobby-enabled': (data: SetLobbyEnabledData) => void;
+  'respond-to-lobby-request': (data: RespondToLobbyRequestData) => void;
+  'lobby-enabled-updated': (data: LobbyEnabledUpdatedResponse) => void;
+  'lobby-waiting': (data: LobbyWaitingResponse) => void;
+  'lobby-admitted': (data: LobbyAdmittedResponse) => void;
+  'lobby-updated': (data: LobbyUpdatedResponse) => void;
 
   // Video events
   'set-video': (data: SetVideoData) => void;
@@ -60,17 +138,59 @@ export interface SocketEvents {
   'play-video': (data: VideoControlData) => void;
   'pause-video': (data: VideoControlData) => void;
   'seek-video': (data: VideoControlData) => void;
+  'set-playback-rate': (data: SetPlaybackRateData) => void;
+  'playback-rate-updated': (data: PlaybackRateUpdatedResponse) => void;
   'sync-check': (data: SyncCheckData) => void;
   'video-played': (data: VideoEventResponse) => void;
   'video-paused': (data: VideoEventResponse) => void;
   'video-seeked': (data: VideoEventResponse) => void;
   'sync-update': (data: SyncUpdateResponse) => void;
   'sync-video': (data: { videoState: VideoState }) => void;
+  'video-ended': (data: VideoEndedData) => void;
+
+  // Clock sync events
+  'clock-ping': (data: ClockPingData) => void;
+  'clock-pong': (data: ClockPongResponse) => void;
+
+  // Queue events
+  'enqueue-video': (data: EnqueueVideoData) => void;
+  'dequeue-video': (data: QueueItemActionData) => void;
+  'reorder-queue': (data: ReorderQueueData) => void;
+  'skip-video': (data: RoomActionData) => void;
+  'queue-updated': (data: QueueUpdatedResponse) => void;
+
+  // Suggestion events
+  'suggest-video': (data: SuggestVideoData) => void;
+  'accept-suggestion': (data: AcceptSuggestionData) => void;
+  'reject-suggestion': (data: RejectSuggestionData) => void;
+  'suggestions-updated': (data: SuggestionsUpdatedResponse) => void;
+  'suggestion-resolved': (data: SuggestionResolvedResponse) => void;
+
+  // Playback control mode and vote events
+  'set-control-mode': (data: SetControlModeData) => void;
+  'cast-vote': (data: CastVoteData) => void;
+  'control-mode-updated': (data: ControlModeUpdatedResponse) => void;
+  'vote-updated': (data: VoteUpdatedResponse) => void;
+  'vote-ended': (data: VoteEndedResponse) => void;
+
+  // Buffering events
+  'set-wait-for-buffering': (data: SetWaitForBufferingData) => void;
+  'buffering-state': (data: BufferingStateData) => void;
+  'wait-for-buffering-updated': (data: WaitForBufferingUpdatedResponse) => void;
+  'buffering-updated': (data: BufferingUpdatedResponse) => void;
+
+  // Sync health events
+  'sync-health-report': (data: SyncHealthReportData) => void;
+  'sync-health-updated': (data: SyncHealthUpdatedResponse) => void;
+  'force-resync': (data: ForceResyncData) => void;
+  'resync-requested': (data: SyncUpdateResponse) => void;
 
   // Chat events
   'send-message': (data: SendMessageData) => void;
   'message-sent': (data: NewMessageResponse) => void;
   'new-message': (data: NewMessageResponse) => void;
+  'delete-message': (data: DeleteMessageData) => void;
+  'message-deleted': (data: MessageDeletedResponse) => void;
   'typing-start': (data: RoomActionData) => void;
   'typing-stop': (data: RoomActionData) => void;
   'user-typing': (data: TypingEventResponse) => void;
@@ -78,7 +198,9 @@ export interface SocketEvents {
 
   // General events
   error: (data: ErrorResponse) => void;
+  'rate-limited': (data: RateLimitedResponse) => void;
   disconnect: () => void;
+  'server-draining': (data: ServerDrainingResponse) => void;
 
   // Voice chat signaling
   // Client -> Server
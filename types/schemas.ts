@@ -7,11 +7,30 @@ export const UserNameSchema = z
   .max(50, 'Name must be 50 characters or less')
   .regex(/^[a-zA-Z0-9\s\-_.!?]+$/, 'Name can only contain letters, numbers, spaces, and basic punctuation (- _ . ! ?)');
 
-export const RoomIdSchema = z
+export const RoomCodeSchema = z
   .string()
   .length(6, 'Room ID must be exactly 6 characters')
   .regex(/^[A-Z0-9]+$/, 'Room ID can only contain uppercase letters and numbers');
 
+// Vanity names are lowercase and longer than generated codes, so the two can never collide
+export const RoomSlugSchema = z
+  .string()
+  .min(7, 'Room name must be at least 7 characters long')
+  .max(32, 'Room name must be 32 characters or less')
+  .regex(
+    /^[a-z0-9]+(-[a-z0-9]+)*$/,
+    'Room name can only contain lowercase letters, numbers, and single hyphens between words'
+  );
+
+export const RoomIdSchema = z.union([RoomCodeSchema, RoomSlugSchema], {
+  error: 'Room ID must be a 6-character code or a room name',
+});
+
+export const RoomPasswordSchema = z
+  .string()
+  .min(4, 'Password must be at least 4 characters long')
+  .max(100, 'Password must be 100 characters or less');
+
 export const VideoUrlSchema = z.string().url('Invalid URL format').min(1, 'Video URL is required');
 
 // Base schemas
@@ -22,13 +41,60 @@ export const VideoStateSchema = z.object({
   currentTime: z.number().min(0),
   duration: z.number().min(0),
   lastUpdateTime: z.number().positive(),
+  playbackRate: z.number().min(0.25).max(2),
+});
+
+export const ControlModeSchema = z.enum(['host', 'everyone', 'vote']);
+
+export const VoteSettingsSchema = z.object({
+  threshold: z.number().min(0.1, 'Threshold must be at least 10%').max(1, 'Threshold cannot exceed 100%'),
+  windowSeconds: z.number().int().min(10, 'Vote window must be at least 10 seconds').max(300),
+});
+
+export const DEFAULT_VOTE_SETTINGS: z.infer<typeof VoteSettingsSchema> = {
+  threshold: 0.5,
+  windowSeconds: 30,
+};
+
+export const VoteActionSchema = z.enum(['pause', 'skip', 'seek']);
+
+// What happens when the last host leaves
+export const HostSuccessionSchema = z.enum(['close', 'longest-present', 'designated', 'vote']);
+
+export const PlaybackVoteSchema = z.object({
+  id: z.string().uuid(),
+  action: VoteActionSchema,
+  targetTime: z.number().min(0).optional(),
+  voterIds: z.array(z.string().uuid()),
+  required: z.number().int().min(1),
+  startedBy: z.string().uuid(),
+  startedByName: UserNameSchema,
+  expiresAt: z.number().positive(),
+});
+
+export const PlayerStateSchema = z.enum(['playing', 'paused', 'buffering', 'idle']);
+
+export const SyncStatusSchema = z.enum(['in-sync', 'drifting', 'buffering', 'stalled']);
+
+export const SyncHealthSchema = z.object({
+  userId: z.string().uuid(),
+  drift: z.number(),
+  bufferedAhead: z.number().min(0),
+  playerState: PlayerStateSchema,
+  status: SyncStatusSchema,
+  reportedAt: z.number(),
 });
 
+// Highest to lowest, see lib/permissions for what each role may do
+export const UserRoleSchema = z.enum(['owner', 'host', 'moderator', 'member', 'viewer']);
+
 export const UserSchema = z.object({
   id: z.string().uuid(),
   name: UserNameSchema,
-  isHost: z.boolean(),
+  role: UserRoleSchema,
   joinedAt: z.date(),
+  // Set while a disconnected user still holds their seat, until this time
+  awayUntil: z.number().optional(),
 });
 
 export const ChatMessageSchema = z.object({
@@ -56,27 +122,117 @@ export const SubtitleTrackSchema = z.object({
   isDefault: z.boolean().default(false),
 });
 
+export const QueueItemSchema = z.object({
+  id: z.string().uuid(),
+  videoUrl: VideoUrlSchema,
+  videoType: z.enum(['youtube', 'mp4', 'm3u8']),
+  addedBy: z.string().uuid(),
+  addedByName: UserNameSchema,
+  addedAt: z.date(),
+});
+
+export const VideoSuggestionSchema = z.object({
+  id: z.string().uuid(),
+  videoUrl: VideoUrlSchema,
+  videoType: z.enum(['youtube', 'mp4', 'm3u8']),
+  suggestedBy: z.string().uuid(),
+  suggestedByName: UserNameSchema,
+  suggestedAt: z.date(),
+});
+
+export const LobbyRequestStatusSchema = z.enum(['pending', 'approved']);
+
+export const LobbyRequestSchema = z.object({
+  id: z.string().uuid(),
+  userName: UserNameSchema,
+  socketId: z.string(),
+  status: LobbyRequestStatusSchema,
+  requestedAt: z.number(),
+  expiresAt: z.number(),
+});
+
+// Guests picking a new host after the last one left, votes map voter IDs to candidate IDs
+export const HostElectionSchema = z.object({
+  endsAt: z.number(),
+  votes: z.record(z.string().uuid(), z.string().uuid()),
+});
+
+// A null expiry is a permanent ban, anything else is a kick cooldown
+export const RoomBanSchema = z.object({
+  id: z.string().uuid(),
+  userName: UserNameSchema,
+  bannedByName: UserNameSchema,
+  bannedAt: z.number(),
+  expiresAt: z.number().nullable(),
+});
+
 export const RoomSchema = z.object({
   id: RoomIdSchema,
   hostId: z.string().uuid(),
   hostName: UserNameSchema,
   hostToken: z.string().uuid(),
   videoUrl: VideoUrlSchema.optional(),
+  // Changes every time a video is loaded, even the same URL again, so a late report about one can't act on the next
+  videoId: z.string().optional(),
   videoType: VideoTypeSchema,
   videoState: VideoStateSchema,
+  controlMode: ControlModeSchema,
+  voteSettings: VoteSettingsSchema,
+  queue: z.array(QueueItemSchema),
+  suggestions: z.array(VideoSuggestionSchema),
+  waitForBuffering: z.boolean(),
+  bufferingUserIds: z.array(z.string().uuid()),
+  pausedForBuffering: z.boolean(),
+  isPersistent: z.boolean(),
+  hasPassword: z.boolean(),
+  lobbyEnabled: z.boolean(),
+  hostSuccession: HostSuccessionSchema,
+  // The guest who takes over under the 'designated' policy
+  designatedSuccessorId: z.string().uuid().optional(),
+  hostElection: HostElectionSchema.nullable(),
+  // Only ever set server-side, stripped before the room is sent to clients
+  passwordHash: z.string().optional(),
   users: z.array(UserSchema),
   createdAt: z.date(),
 });
 
+// What clients are sent. The host token only ever goes to the owner on its own
+export const PublicRoomSchema = RoomSchema.omit({ hostToken: true, passwordHash: true });
+
 // Socket event schemas
 export const CreateRoomDataSchema = z.object({
   hostName: UserNameSchema,
+  persistent: z.boolean().optional(),
+  slug: RoomSlugSchema.optional(),
+  password: RoomPasswordSchema.optional(),
 });
 
 export const JoinRoomDataSchema = z.object({
   roomId: RoomIdSchema,
   userName: UserNameSchema,
   hostToken: z.string().uuid().optional(),
+  password: z.string().max(100).optional(),
+  // Handed out by the host when they let someone in from the lobby
+  admissionId: z.string().uuid().optional(),
+  // Handed out on every join so a refresh or dropped connection comes back as the same user
+  rejoinToken: z.string().max(500).optional(),
+});
+
+export const SetLobbyEnabledDataSchema = z.object({
+  roomId: RoomIdSchema,
+  enabled: z.boolean(),
+});
+
+export const RespondToLobbyRequestDataSchema = z.object({
+  roomId: RoomIdSchema,
+  requestId: z.string().uuid(),
+  approve: z.boolean(),
+});
+
+export const SetRoomPasswordDataSchema = z.object({
+  roomId: RoomIdSchema,
+  // null removes the password
+  password: RoomPasswordSchema.nullable(),
 });
 
 export const SetVideoDataSchema = z.object({
@@ -89,11 +245,121 @@ export const VideoControlDataSchema = z.object({
   currentTime: z.number().min(0),
 });
 
+export const SetPlaybackRateDataSchema = z.object({
+  roomId: RoomIdSchema,
+  playbackRate: z.number().min(0.25).max(2),
+});
+
+export const EnqueueVideoDataSchema = z.object({
+  roomId: RoomIdSchema,
+  videoUrl: VideoUrlSchema,
+});
+
+export const QueueItemActionDataSchema = z.object({
+  roomId: RoomIdSchema,
+  itemId: z.string().uuid(),
+});
+
+export const ReorderQueueDataSchema = z.object({
+  roomId: RoomIdSchema,
+  itemId: z.string().uuid(),
+  toIndex: z.number().int().min(0),
+});
+
+export const VideoEndedDataSchema = z.object({
+  roomId: RoomIdSchema,
+  videoId: z.string(),
+});
+
+export const SuggestVideoDataSchema = z.object({
+  roomId: RoomIdSchema,
+  videoUrl: VideoUrlSchema,
+});
+
+export const AcceptSuggestionDataSchema = z.object({
+  roomId: RoomIdSchema,
+  suggestionId: z.string().uuid(),
+  mode: z.enum(['play', 'queue']),
+});
+
+export const RejectSuggestionDataSchema = z.object({
+  roomId: RoomIdSchema,
+  suggestionId: z.string().uuid(),
+  reason: z.string().trim().max(200, 'Reason must be 200 characters or less').optional(),
+});
+
+export const SetControlModeDataSchema = z.object({
+  roomId: RoomIdSchema,
+  controlMode: ControlModeSchema,
+  voteSettings: VoteSettingsSchema.optional(),
+});
+
+export const SetHostSuccessionDataSchema = z.object({
+  roomId: RoomIdSchema,
+  hostSuccession: HostSuccessionSchema,
+  designatedSuccessorId: z.string().uuid().optional(),
+});
+
+export const CastHostVoteDataSchema = z.object({
+  roomId: RoomIdSchema,
+  candidateId: z.string().uuid(),
+});
+
+export const CastVoteDataSchema = z.object({
+  roomId: RoomIdSchema,
+  action: VoteActionSchema,
+  targetTime: z.number().min(0).optional(),
+});
+
+export const SetWaitForBufferingDataSchema = z.object({
+  roomId: RoomIdSchema,
+  enabled: z.boolean(),
+});
+
+export const BufferingStateDataSchema = z.object({
+  roomId: RoomIdSchema,
+  isBuffering: z.boolean(),
+});
+
+export const SyncHealthReportDataSchema = z.object({
+  roomId: RoomIdSchema,
+  drift: z.number().finite(),
+  bufferedAhead: z.number().min(0).finite(),
+  playerState: PlayerStateSchema,
+});
+
+export const ForceResyncDataSchema = z.object({
+  roomId: RoomIdSchema,
+  userId: z.string().uuid(),
+});
+
 export const PromoteHostDataSchema = z.object({
   roomId: RoomIdSchema,
   userId: z.string().uuid(),
 });
 
+export const DemoteHostDataSchema = z.object({
+  roomId: RoomIdSchema,
+  userId: z.string().uuid(),
+});
+
+export const TransferOwnershipDataSchema = z.object({
+  roomId: RoomIdSchema,
+  userId: z.string().uuid(),
+});
+
+export const SetUserRoleDataSchema = z.object({
+  roomId: RoomIdSchema,
+  userId: z.string().uuid(),
+  // Ownership only ever belongs to whoever holds the host token
+  role: UserRoleSchema.exclude(['owner']),
+});
+
+export const DeleteMessageDataSchema = z.object({
+  roomId: RoomIdSchema,
+  messageId: z.string().uuid(),
+});
+
 export const SendMessageDataSchema = z.object({
   roomId: RoomIdSchema,
   message: z.string().min(1).max(1000),
@@ -106,6 +372,10 @@ export const SyncCheckDataSchema = z.object({
   timestamp: z.number().positive(),
 });
 
+export const ClockPingDataSchema = z.object({
+  clientTime: z.number().positive(),
+});
+
 export const RoomActionDataSchema = z.object({
   roomId: RoomIdSchema,
 });
@@ -113,6 +383,15 @@ export const RoomActionDataSchema = z.object({
 export const KickUserDataSchema = z.object({
   roomId: RoomIdSchema,
   userId: z.string().uuid(),
+  // Keeps the user from rejoining for a while
+  cooldownMinutes: z.number().int().min(1).max(1440).optional(),
+  // Keeps the user out for good, takes precedence over a cooldown
+  ban: z.boolean().optional(),
+});
+
+export const UnbanUserDataSchema = z.object({
+  roomId: RoomIdSchema,
+  banId: z.string().uuid(),
 });
 
 // Voice chat schemas
@@ -177,19 +456,64 @@ export const VoiceIceCandidateEventResponseSchema = z.object({
 // Response schemas
 export const RoomCreatedResponseSchema = z.object({
   roomId: RoomIdSchema,
-  room: RoomSchema,
+  room: PublicRoomSchema,
   hostToken: z.string().uuid(),
 });
 
 export const RoomJoinedResponseSchema = z.object({
-  room: RoomSchema,
+  room: PublicRoomSchema,
   user: UserSchema,
+  messages: z.array(ChatMessageSchema).optional(),
+  rejoinToken: z.string().optional(),
+  // Set when a rejoin finds the user was in voice chat before they dropped
+  restoreVoice: z.boolean().optional(),
+});
+
+export const RoomPasswordRequiredResponseSchema = z.object({
+  roomId: RoomIdSchema,
+  incorrect: z.boolean(),
+});
+
+export const RoomPasswordUpdatedResponseSchema = z.object({
+  hasPassword: z.boolean(),
+});
+
+export const LobbyWaitingResponseSchema = z.object({
+  roomId: RoomIdSchema,
+  requestId: z.string().uuid(),
+  expiresAt: z.number(),
+});
+
+export const LobbyAdmittedResponseSchema = z.object({
+  roomId: RoomIdSchema,
+  requestId: z.string().uuid(),
+});
+
+export const LobbyUpdatedResponseSchema = z.object({
+  requests: z.array(LobbyRequestSchema),
+});
+
+export const LobbyEnabledUpdatedResponseSchema = z.object({
+  enabled: z.boolean(),
+});
+
+export const HostSuccessionUpdatedResponseSchema = z.object({
+  hostSuccession: HostSuccessionSchema,
+  designatedSuccessorId: z.string().uuid().optional(),
+});
+
+export const HostElectionUpdatedResponseSchema = z.object({
+  hostElection: HostElectionSchema.nullable(),
 });
 
 export const UserJoinedResponseSchema = z.object({
   user: UserSchema,
 });
 
+export const UserUpdatedResponseSchema = z.object({
+  user: UserSchema,
+});
+
 export const UserLeftResponseSchema = z.object({
   userId: z.string().uuid(),
 });
@@ -199,17 +523,94 @@ export const UserPromotedResponseSchema = z.object({
   userName: UserNameSchema,
 });
 
+export const UserDemotedResponseSchema = z.object({
+  userId: z.string().uuid(),
+  userName: UserNameSchema,
+});
+
+export const OwnershipTransferredResponseSchema = z.object({
+  previousOwnerId: z.string().uuid(),
+  userId: z.string().uuid(),
+  userName: UserNameSchema,
+  // Only sent to the new owner, so they can get back in as owner later
+  hostToken: z.string().optional(),
+});
+
+export const UserRoleUpdatedResponseSchema = z.object({
+  userId: z.string().uuid(),
+  userName: UserNameSchema,
+  role: UserRoleSchema,
+});
+
+export const MessageDeletedResponseSchema = z.object({
+  messageId: z.string().uuid(),
+});
+
 export const UserKickedResponseSchema = z.object({
   userId: z.string().uuid(),
   userName: UserNameSchema,
   kickedBy: z.string().uuid().optional(),
 });
 
+export const BansUpdatedResponseSchema = z.object({
+  bans: z.array(RoomBanSchema),
+});
+
 export const VideoSetResponseSchema = z.object({
   videoUrl: VideoUrlSchema,
+  videoId: z.string(),
   videoType: z.enum(['youtube', 'mp4', 'm3u8']),
 });
 
+export const PlaybackRateUpdatedResponseSchema = z.object({
+  playbackRate: z.number(),
+  currentTime: z.number(),
+  timestamp: z.number(),
+});
+
+export const QueueUpdatedResponseSchema = z.object({
+  queue: z.array(QueueItemSchema),
+});
+
+export const SuggestionsUpdatedResponseSchema = z.object({
+  suggestions: z.array(VideoSuggestionSchema),
+});
+
+export const SuggestionResolvedResponseSchema = z.object({
+  suggestion: VideoSuggestionSchema,
+  status: z.enum(['accepted', 'rejected']),
+  mode: z.enum(['play', 'queue']).optional(),
+  reason: z.string().optional(),
+  resolvedBy: UserNameSchema,
+});
+
+export const ControlModeUpdatedResponseSchema = z.object({
+  controlMode: ControlModeSchema,
+  voteSettings: VoteSettingsSchema,
+});
+
+export const VoteUpdatedResponseSchema = z.object({
+  vote: PlaybackVoteSchema,
+});
+
+export const VoteEndedResponseSchema = z.object({
+  voteId: z.string().uuid(),
+  action: VoteActionSchema,
+  passed: z.boolean(),
+});
+
+export const WaitForBufferingUpdatedResponseSchema = z.object({
+  enabled: z.boolean(),
+});
+
+export const BufferingUpdatedResponseSchema = z.object({
+  bufferingUserIds: z.array(z.string().uuid()),
+});
+
+export const SyncHealthUpdatedResponseSchema = z.object({
+  reports: z.array(SyncHealthSchema),
+});
+
 export const VideoEventResponseSchema = z.object({
   currentTime: z.number().min(0),
   timestamp: z.number().positive(),
@@ -221,6 +622,11 @@ export const SyncUpdateResponseSchema = z.object({
   timestamp: z.number().positive(),
 });
 
+export const ClockPongResponseSchema = z.object({
+  clientTime: z.number().positive(),
+  serverTime: z.number().positive(),
+});
+
 export const NewMessageResponseSchema = z.object({
   message: ChatMessageSchema,
 });
@@ -234,39 +640,118 @@ export const ErrorResponseSchema = z.object({
   error: z.string().min(1),
 });
 
+export const RateLimitedResponseSchema = z.object({
+  event: z.string().min(1),
+  retryAfterMs: z.number().int().min(0),
+});
+
+// Clients spread their reconnects over this window instead of all arriving at once
+export const ServerDrainingResponseSchema = z.object({
+  reconnectWithinMs: z.number().int().min(0),
+});
+
 // Type inference from schemas
 export type User = z.infer<typeof UserSchema>;
+export type UserRole = z.infer<typeof UserRoleSchema>;
 export type Room = z.infer<typeof RoomSchema>;
+export type PublicRoom = z.infer<typeof PublicRoomSchema>;
 export type ChatMessage = z.infer<typeof ChatMessageSchema>;
 export type TypingUser = z.infer<typeof TypingUserSchema>;
 export type VideoState = z.infer<typeof VideoStateSchema>;
 export type VideoType = z.infer<typeof VideoTypeSchema>;
+export type QueueItem = z.infer<typeof QueueItemSchema>;
+export type ControlMode = z.infer<typeof ControlModeSchema>;
+export type VoteSettings = z.infer<typeof VoteSettingsSchema>;
+export type HostSuccession = z.infer<typeof HostSuccessionSchema>;
+export type HostElection = z.infer<typeof HostElectionSchema>;
+export type VoteAction = z.infer<typeof VoteActionSchema>;
+export type PlaybackVote = z.infer<typeof PlaybackVoteSchema>;
+export type VideoSuggestion = z.infer<typeof VideoSuggestionSchema>;
+export type PlayerState = z.infer<typeof PlayerStateSchema>;
+export type SyncStatus = z.infer<typeof SyncStatusSchema>;
+export type SyncHealth = z.infer<typeof SyncHealthSchema>;
+export type LobbyRequest = z.infer<typeof LobbyRequestSchema>;
+export type RoomBan = z.infer<typeof RoomBanSchema>;
 export type SubtitleTrack = z.infer<typeof SubtitleTrackSchema>;
 
 // Socket event data types
 export type CreateRoomData = z.infer<typeof CreateRoomDataSchema>;
 export type JoinRoomData = z.infer<typeof JoinRoomDataSchema>;
+export type SetRoomPasswordData = z.infer<typeof SetRoomPasswordDataSchema>;
+export type SetLobbyEnabledData = z.infer<typeof SetLobbyEnabledDataSchema>;
+export type RespondToLobbyRequestData = z.infer<typeof RespondToLobbyRequestDataSchema>;
 export type SetVideoData = z.infer<typeof SetVideoDataSchema>;
 export type VideoControlData = z.infer<typeof VideoControlDataSchema>;
+export type SetPlaybackRateData = z.infer<typeof SetPlaybackRateDataSchema>;
+export type EnqueueVideoData = z.infer<typeof EnqueueVideoDataSchema>;
+export type QueueItemActionData = z.infer<typeof QueueItemActionDataSchema>;
+export type ReorderQueueData = z.infer<typeof ReorderQueueDataSchema>;
+export type VideoEndedData = z.infer<typeof VideoEndedDataSchema>;
+export type SuggestVideoData = z.infer<typeof SuggestVideoDataSchema>;
+export type AcceptSuggestionData = z.infer<typeof AcceptSuggestionDataSchema>;
+export type RejectSuggestionData = z.infer<typeof RejectSuggestionDataSchema>;
+export type SetControlModeData = z.infer<typeof SetControlModeDataSchema>;
+export type SetHostSuccessionData = z.infer<typeof SetHostSuccessionDataSchema>;
+export type CastHostVoteData = z.infer<typeof CastHostVoteDataSchema>;
+export type CastVoteData = z.infer<typeof CastVoteDataSchema>;
+export type SetWaitForBufferingData = z.infer<typeof SetWaitForBufferingDataSchema>;
+export type BufferingStateData = z.infer<typeof BufferingStateDataSchema>;
+export type SyncHealthReportData = z.infer<typeof SyncHealthReportDataSchema>;
+export type ForceResyncData = z.infer<typeof ForceResyncDataSchema>;
 export type PromoteHostData = z.infer<typeof PromoteHostDataSchema>;
+export type DemoteHostData = z.infer<typeof DemoteHostDataSchema>;
+export type TransferOwnershipData = z.infer<typeof TransferOwnershipDataSchema>;
+export type SetUserRoleData = z.infer<typeof SetUserRoleDataSchema>;
+export type AssignableRole = SetUserRoleData['role'];
+export type DeleteMessageData = z.infer<typeof DeleteMessageDataSchema>;
 export type SendMessageData = z.infer<typeof SendMessageDataSchema>;
 export type SyncCheckData = z.infer<typeof SyncCheckDataSchema>;
+export type ClockPingData = z.infer<typeof ClockPingDataSchema>;
 export type RoomActionData = z.infer<typeof RoomActionDataSchema>;
 export type KickUserData = z.infer<typeof KickUserDataSchema>;
+export type KickOptions = Pick<KickUserData, 'cooldownMinutes' | 'ban'>;
+export type UnbanUserData = z.infer<typeof UnbanUserDataSchema>;
 
 // Response types
 export type RoomCreatedResponse = z.infer<typeof RoomCreatedResponseSchema>;
 export type RoomJoinedResponse = z.infer<typeof RoomJoinedResponseSchema>;
+export type RoomPasswordRequiredResponse = z.infer<typeof RoomPasswordRequiredResponseSchema>;
+export type RoomPasswordUpdatedResponse = z.infer<typeof RoomPasswordUpdatedResponseSchema>;
+export type LobbyWaitingResponse = z.infer<typeof LobbyWaitingResponseSchema>;
+export type LobbyAdmittedResponse = z.infer<typeof LobbyAdmittedResponseSchema>;
+export type LobbyUpdatedResponse = z.infer<typeof LobbyUpdatedResponseSchema>;
+export type LobbyEnabledUpdatedResponse = z.infer<typeof LobbyEnabledUpdatedResponseSchema>;
+export type HostSuccessionUpdatedResponse = z.infer<typeof HostSuccessionUpdatedResponseSchema>;
+export type HostElectionUpdatedResponse = z.infer<typeof HostElectionUpdatedResponseSchema>;
 export type UserJoinedResponse = z.infer<typeof UserJoinedResponseSchema>;
+export type UserUpdatedResponse = z.infer<typeof UserUpdatedResponseSchema>;
 export type UserLeftResponse = z.infer<typeof UserLeftResponseSchema>;
 export type UserPromotedResponse = z.infer<typeof UserPromotedResponseSchema>;
+export type UserDemotedResponse = z.infer<typeof UserDemotedResponseSchema>;
+export type OwnershipTransferredResponse = z.infer<typeof OwnershipTransferredResponseSchema>;
+export type UserRoleUpdatedResponse = z.infer<typeof UserRoleUpdatedResponseSchema>;
+export type MessageDeletedResponse = z.infer<typeof MessageDeletedResponseSchema>;
 export type UserKickedResponse = z.infer<typeof UserKickedResponseSchema>;
+export type BansUpdatedResponse = z.infer<typeof BansUpdatedResponseSchema>;
 export type VideoSetResponse = z.infer<typeof VideoSetResponseSchema>;
+export type PlaybackRateUpdatedResponse = z.infer<typeof PlaybackRateUpdatedResponseSchema>;
+export type QueueUpdatedResponse = z.infer<typeof QueueUpdatedResponseSchema>;
+export type SuggestionsUpdatedResponse = z.infer<typeof SuggestionsUpdatedResponseSchema>;
+export type SuggestionResolvedResponse = z.infer<typeof SuggestionResolvedResponseSchema>;
+export type ControlModeUpdatedResponse = z.infer<typeof ControlModeUpdatedResponseSchema>;
+export type VoteUpdatedResponse = z.infer<typeof VoteUpdatedResponseSchema>;
+export type VoteEndedResponse = z.infer<typeof VoteEndedResponseSchema>;
+export type WaitForBufferingUpdatedResponse = z.infer<typeof WaitForBufferingUpdatedResponseSchema>;
+export type BufferingUpdatedResponse = z.infer<typeof BufferingUpdatedResponseSchema>;
+export type SyncHealthUpdatedResponse = z.infer<typeof SyncHealthUpdatedResponseSchema>;
 export type VideoEventResponse = z.infer<typeof VideoEventResponseSchema>;
 export type SyncUpdateResponse = z.infer<typeof SyncUpdateResponseSchema>;
+export type ClockPongResponse = z.infer<typeof ClockPongResponseSchema>;
 export type NewMessageResponse = z.infer<typeof NewMessageResponseSchema>;
 export type TypingEventResponse = z.infer<typeof TypingEventResponseSchema>;
 export type ErrorResponse = z.infer<typeof ErrorResponseSchema>;
+export type RateLimitedResponse = z.infer<typeof RateLimitedResponseSchema>;
+export type ServerDrainingResponse = z.infer<typeof ServerDrainingResponseSchema>;
 
 // Voice chat types
 export type VoiceJoinData = z.infer<typeof VoiceJoinDataSchema>;
@@ -0,0 +1,20 @@
+import { fileURLToPath } from 'url';
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  resolve: {
+    alias: { '@': fileURLToPath(new URL('.', import.meta.url)) },
+  },
+  test: {
+    environment: 'node',
+    include: ['**/*.test.ts'],
+    exclude: ['node_modules/**', '.next/**'],
+    // Tests that need Redis use TEST_REDIS_URL, or a separate database on the local one from `npm run redis:start`
+    env: {
+      REDIS_URL: process.env.TEST_REDIS_URL || 'redis://localhost:6379/15',
+      LOG_LEVEL: 'error',
+    },
+    // Redis-backed suites share one server, so they take turns
+    fileParallelism: false,
+  },
+});